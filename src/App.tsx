@@ -5,6 +5,11 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import TrialDetail from "./pages/TrialDetail";
+import Compare from "./pages/Compare";
+import Selection from "./pages/Selection";
+import SavedSearches from "./pages/SavedSearches";
+import SearchHistory from "./pages/SearchHistory";
+import Inbox from "./pages/Inbox";
 import About from "./pages/About";
 import NotFound from "./pages/NotFound";
 
@@ -19,6 +24,11 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/trial/:nctId" element={<TrialDetail />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/selection" element={<Selection />} />
+          <Route path="/searches" element={<SavedSearches />} />
+          <Route path="/history" element={<SearchHistory />} />
+          <Route path="/inbox" element={<Inbox />} />
           <Route path="/about" element={<About />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
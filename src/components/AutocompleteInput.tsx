@@ -0,0 +1,133 @@
+import * as React from "react";
+import { Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useSuggestions } from "@/hooks/use-suggestions";
+import { cn } from "@/lib/utils";
+import type { SuggestField, Suggestion } from "@/lib/api";
+
+const SOURCE_LABELS: Record<Suggestion["source"], string> = {
+  history: "past search",
+  registry: "registry",
+  synonym: "dictionary",
+};
+
+interface AutocompleteInputProps extends React.ComponentProps<"input"> {
+  suggestField: SuggestField;
+  /** Called with the chosen term; the caller writes it into its own state */
+  onSuggestionSelect: (term: string) => void;
+}
+
+/**
+ * Input with a typeahead listbox. Works both uncontrolled (react-hook-form
+ * register props) and controlled: suggestions follow what the user types,
+ * and choosing one is reported through onSuggestionSelect.
+ */
+export const AutocompleteInput = React.forwardRef<HTMLInputElement, AutocompleteInputProps>(
+  ({ suggestField, onSuggestionSelect, onChange, onKeyDown, onBlur, className, ...props }, ref) => {
+    const [query, setQuery] = React.useState("");
+    const [open, setOpen] = React.useState(false);
+    const [activeIndex, setActiveIndex] = React.useState(-1);
+    const { suggestions, isLoading } = useSuggestions(suggestField, query, open);
+    const listId = React.useId();
+
+    const showList = open && suggestions.length > 0;
+
+    const select = (suggestion: Suggestion) => {
+      setQuery(suggestion.term);
+      setOpen(false);
+      setActiveIndex(-1);
+      onSuggestionSelect(suggestion.term);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (showList) {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+          e.preventDefault();
+          const count = suggestions.length;
+          setActiveIndex((i) => (e.key === "ArrowDown" ? (i + 1) % count : i <= 0 ? count - 1 : i - 1));
+        } else if (e.key === "Enter" && activeIndex >= 0 && activeIndex < suggestions.length) {
+          // Choose the highlighted term instead of submitting the form
+          e.preventDefault();
+          select(suggestions[activeIndex]);
+          return;
+        } else if (e.key === "Escape") {
+          e.preventDefault();
+          e.stopPropagation();
+          setOpen(false);
+          setActiveIndex(-1);
+          return;
+        }
+      }
+      onKeyDown?.(e);
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          {...props}
+          ref={ref}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showList}
+          aria-controls={listId}
+          aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+          autoComplete="off"
+          className={cn(isLoading && open && "pr-9", className)}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+            setActiveIndex(-1);
+            onChange?.(e);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={(e) => {
+            setOpen(false);
+            setActiveIndex(-1);
+            onBlur?.(e);
+          }}
+        />
+        {isLoading && open && (
+          <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+        )}
+        {showList && (
+          <ul
+            id={listId}
+            role="listbox"
+            className="absolute z-50 mt-1 max-h-72 w-full overflow-auto rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={`${suggestion.source}-${suggestion.term}`}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so blur does not close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => select(suggestion)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  "flex cursor-pointer items-start justify-between gap-3 rounded-sm px-2 py-1.5 text-sm",
+                  index === activeIndex && "bg-accent text-accent-foreground"
+                )}
+              >
+                <span className="min-w-0">
+                  <span className="block truncate">{suggestion.term}</span>
+                  {suggestion.synonyms && suggestion.synonyms.length > 0 && (
+                    <span className="block truncate text-xs text-muted-foreground">
+                      also {suggestion.synonyms.slice(0, 4).join(", ")}
+                    </span>
+                  )}
+                </span>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {SOURCE_LABELS[suggestion.source]}
+                  {suggestion.hits > 1 && ` · ${suggestion.hits}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+AutocompleteInput.displayName = "AutocompleteInput";
@@ -20,6 +20,35 @@ interface EndpointFamily {
   examples: string[];
 }
 
+// Maps the server-side endpoint classification onto the summary families.
+// TTP and TTF are not PFS and fall under Other.
+const CLASSIFICATION_FAMILIES: Record<string, string> = {
+  'OS': 'Overall Survival (OS)',
+  'PFS': 'Progression-Free Survival (PFS)',
+  'DFS': 'Disease-Free Survival (DFS)',
+  'EFS': 'Disease-Free Survival (DFS)',
+  'RFS': 'Disease-Free Survival (DFS)',
+  'ORR': 'Objective Response Rate (ORR)',
+  'CR': 'Objective Response Rate (ORR)',
+  'pCR': 'Objective Response Rate (ORR)',
+  'CBR': 'Objective Response Rate (ORR)',
+  'DCR': 'Objective Response Rate (ORR)',
+  'DOR': 'Objective Response Rate (ORR)',
+  'QoL/PRO': 'Quality of Life / PRO (QoL/PRO)',
+  'Safety': 'Safety/Adverse Events',
+};
+
+function familyFromMeasure(measure: string): string {
+  if (measure.includes('overall survival') || measure.includes(' os ') || measure === 'os') return 'Overall Survival (OS)';
+  if (measure.includes('progression') || measure.includes('pfs')) return 'Progression-Free Survival (PFS)';
+  if (measure.includes('response rate') || measure.includes('orr') || measure.includes('objective response')) return 'Objective Response Rate (ORR)';
+  if (measure.includes('quality of life') || measure.includes('qol') || measure.includes('hrqol')
+    || measure.includes('patient reported') || measure.includes('pro') || measure.includes('symptom')) return 'Quality of Life / PRO (QoL/PRO)';
+  if (measure.includes('adverse') || measure.includes('safety') || measure.includes('toxicity') || measure.includes('ae')) return 'Safety/Adverse Events';
+  if (measure.includes('disease-free') || measure.includes('dfs') || measure.includes('relapse-free')) return 'Disease-Free Survival (DFS)';
+  return 'Other';
+}
+
 export function ConditionOnlySummary({ trials }: ConditionOnlySummaryProps) {
   const summary = useMemo(() => {
     // Count by phase
@@ -33,10 +62,9 @@ export function ConditionOnlySummary({ trials }: ConditionOnlySummaryProps) {
       'Overall Survival (OS)': { count: 0, examples: new Set() },
       'Progression-Free Survival (PFS)': { count: 0, examples: new Set() },
       'Objective Response Rate (ORR)': { count: 0, examples: new Set() },
-      'Patient-Reported Outcomes (PRO)': { count: 0, examples: new Set() },
       'Safety/Adverse Events': { count: 0, examples: new Set() },
       'Disease-Free Survival (DFS)': { count: 0, examples: new Set() },
-      'Quality of Life (QoL)': { count: 0, examples: new Set() },
+      'Quality of Life / PRO (QoL/PRO)': { count: 0, examples: new Set() },
       'Other': { count: 0, examples: new Set() },
     };
 
@@ -66,33 +94,14 @@ export function ConditionOnlySummary({ trials }: ConditionOnlySummaryProps) {
       ];
 
       allOutcomes.forEach((outcome) => {
-        const measure = outcome.measure?.toLowerCase() || '';
-        
-        if (measure.includes('overall survival') || measure.includes(' os ') || measure === 'os') {
-          endpointFamilies['Overall Survival (OS)'].count++;
-          endpointFamilies['Overall Survival (OS)'].examples.add(outcome.measure);
-        } else if (measure.includes('progression') || measure.includes('pfs')) {
-          endpointFamilies['Progression-Free Survival (PFS)'].count++;
-          endpointFamilies['Progression-Free Survival (PFS)'].examples.add(outcome.measure);
-        } else if (measure.includes('response rate') || measure.includes('orr') || measure.includes('objective response')) {
-          endpointFamilies['Objective Response Rate (ORR)'].count++;
-          endpointFamilies['Objective Response Rate (ORR)'].examples.add(outcome.measure);
-        } else if (measure.includes('quality of life') || measure.includes('qol') || measure.includes('hrqol')) {
-          endpointFamilies['Quality of Life (QoL)'].count++;
-          endpointFamilies['Quality of Life (QoL)'].examples.add(outcome.measure);
-        } else if (measure.includes('patient reported') || measure.includes('pro') || measure.includes('symptom')) {
-          endpointFamilies['Patient-Reported Outcomes (PRO)'].count++;
-          endpointFamilies['Patient-Reported Outcomes (PRO)'].examples.add(outcome.measure);
-        } else if (measure.includes('adverse') || measure.includes('safety') || measure.includes('toxicity') || measure.includes('ae')) {
-          endpointFamilies['Safety/Adverse Events'].count++;
-          endpointFamilies['Safety/Adverse Events'].examples.add(outcome.measure);
-        } else if (measure.includes('disease-free') || measure.includes('dfs') || measure.includes('relapse-free')) {
-          endpointFamilies['Disease-Free Survival (DFS)'].count++;
-          endpointFamilies['Disease-Free Survival (DFS)'].examples.add(outcome.measure);
-        } else {
-          endpointFamilies['Other'].count++;
-          endpointFamilies['Other'].examples.add(outcome.measure);
-        }
+        // Use the shared classifier output when present; payloads that
+        // predate it fall back to a measure-text heuristic.
+        const family = outcome.classification
+          ? CLASSIFICATION_FAMILIES[outcome.classification] || 'Other'
+          : familyFromMeasure(outcome.measure?.toLowerCase() || '');
+
+        endpointFamilies[family].count++;
+        endpointFamilies[family].examples.add(outcome.measure);
       });
     });
 
@@ -0,0 +1,113 @@
+import { useMemo } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { Boxes } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Trial } from "@/lib/api";
+import { SearchLinkState } from "@/lib/searchUrl";
+
+interface DrugClassGroupsProps {
+  trials: Trial[];
+  drugClass: string;
+  /** Class members in the order the search expanded them */
+  members: string[];
+}
+
+interface MemberGroup {
+  member: string;
+  trials: Trial[];
+}
+
+// Trials whose interventions name no member (matched on a synonym the
+// registry spells differently, or on arm text only)
+const UNMATCHED = "__unmatched__";
+
+/** Class-search results grouped by the member drug(s) each trial uses */
+export function DrugClassGroups({ trials, drugClass, members }: DrugClassGroupsProps) {
+  const location = useLocation();
+  const linkState: SearchLinkState = { fromSearch: location.search };
+
+  const { groups, unmatched, empty } = useMemo(() => {
+    const byMember = new Map<string, Trial[]>(members.map((m) => [m, []]));
+    const unmatched: Trial[] = [];
+    trials.forEach((trial) => {
+      if (!trial.matchedDrugs?.length) {
+        unmatched.push(trial);
+        return;
+      }
+      // A trial comparing two members appears under both
+      trial.matchedDrugs.forEach((member) => {
+        if (!byMember.has(member)) byMember.set(member, []);
+        byMember.get(member)!.push(trial);
+      });
+    });
+
+    const groups: MemberGroup[] = Array.from(byMember, ([member, memberTrials]) => ({ member, trials: memberTrials }))
+      .filter((g) => g.trials.length > 0)
+      .sort((a, b) => b.trials.length - a.trials.length);
+    const empty = Array.from(byMember.keys()).filter((m) => byMember.get(m)!.length === 0);
+    return { groups, unmatched, empty };
+  }, [trials, members]);
+
+  const renderTrials = (groupTrials: Trial[]) => (
+    <ul className="space-y-1.5">
+      {groupTrials.map((trial) => (
+        <li key={trial.nctId} className="flex items-start gap-2 text-sm">
+          <Link to={`/trial/${trial.nctId}`} state={linkState} className="font-mono text-xs text-primary hover:underline shrink-0 pt-0.5">
+            {trial.nctId}
+          </Link>
+          <span className="flex-1 min-w-0 truncate" title={trial.briefTitle}>{trial.briefTitle}</span>
+          <Badge variant="outline" className="text-xs shrink-0">{trial.phase || "N/A"}</Badge>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Boxes className="h-4 w-4 text-accent" />
+          {drugClass} by Member Drug
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Accordion type="multiple">
+          {groups.map((group) => (
+            <AccordionItem key={group.member} value={group.member}>
+              <AccordionTrigger className="py-2 text-sm hover:no-underline">
+                <span className="flex items-center gap-2 capitalize">
+                  {group.member}
+                  <Badge variant="secondary">{group.trials.length}</Badge>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>{renderTrials(group.trials)}</AccordionContent>
+            </AccordionItem>
+          ))}
+          {unmatched.length > 0 && (
+            <AccordionItem value={UNMATCHED}>
+              <AccordionTrigger className="py-2 text-sm hover:no-underline">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  No member named in interventions
+                  <Badge variant="outline">{unmatched.length}</Badge>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>{renderTrials(unmatched)}</AccordionContent>
+            </AccordionItem>
+          )}
+        </Accordion>
+        {empty.length > 0 && (
+          <p className="mt-3 text-xs text-muted-foreground">
+            No loaded trials for: {empty.join(", ")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
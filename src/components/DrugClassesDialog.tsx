@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Loader2, Plus, Settings2, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { addDrugClassMember, deleteDrugClassMember, DrugClass, listDrugClasses } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface DrugClassesDialogProps {
+  classes: DrugClass[];
+  /** Class whose members are shown and editable */
+  selectedClass?: string;
+  /** Receives the reloaded class list after every change */
+  onClassesChange: (classes: DrugClass[]) => void;
+  /** Called with the name of a newly created (or extended) class so the form can select it */
+  onClassCreated?: (name: string) => void;
+}
+
+export function DrugClassesDialog({ classes, selectedClass, onClassesChange, onClassCreated }: DrugClassesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [newMember, setNewMember] = useState("");
+  const [newClassName, setNewClassName] = useState("");
+  const [newClassDrug, setNewClassDrug] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const { toast } = useToast();
+
+  const current = classes.find((c) => c.name === selectedClass);
+
+  const run = async (action: () => Promise<void>, failureTitle: string): Promise<DrugClass[] | null> => {
+    setIsBusy(true);
+    try {
+      await action();
+      const reloaded = await listDrugClasses();
+      onClassesChange(reloaded);
+      return reloaded;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // The dialog is portaled but React still bubbles submit to the search form
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const drug = newMember.trim();
+    if (!current || !drug) return;
+    run(async () => {
+      await addDrugClassMember(current.name, drug);
+      setNewMember("");
+    }, "Could not add drug");
+  };
+
+  const handleCreateClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const name = newClassName.trim();
+    const drug = newClassDrug.trim();
+    if (!name || !drug) return;
+    const reloaded = await run(async () => {
+      await addDrugClassMember(name, drug);
+      setNewClassName("");
+      setNewClassDrug("");
+    }, "Could not create class");
+    // Classes are matched ignoring case and punctuation, so "pd1 inhibitors" extends "PD-1 inhibitors"
+    const key = name.toLowerCase().replace(/[^a-z0-9]/g, "");
+    const created = reloaded?.find((c) => c.key === key);
+    if (created) onClassCreated?.(created.name);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="gap-2">
+          <Settings2 className="h-4 w-4" />
+          Manage classes
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Drug classes</DialogTitle>
+          <DialogDescription>
+            A class search matches every member drug and its synonyms. Added drugs and classes are shared with all users.
+          </DialogDescription>
+        </DialogHeader>
+
+        {current && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium">
+              {current.name}
+              {current.atcCode && <span className="ml-2 text-xs font-normal text-muted-foreground">ATC {current.atcCode}</span>}
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {current.members.map((member) => (
+                <Badge key={member.id || member.name} variant={member.builtIn ? "secondary" : "outline"} className="gap-1">
+                  {member.name}
+                  {member.canDelete && member.id && (
+                    <button
+                      type="button"
+                      aria-label={`Remove ${member.name}`}
+                      disabled={isBusy}
+                      onClick={() => run(() => deleteDrugClassMember(member.id!), "Could not remove drug")}
+                      className="ml-0.5 text-muted-foreground hover:text-destructive"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Built-in members are shown filled; outlined ones were added by users.</p>
+
+            <form onSubmit={handleAddMember} className="flex gap-2">
+              <Input
+                placeholder="Add a member drug (INN)"
+                value={newMember}
+                onChange={(e) => setNewMember(e.target.value)}
+                maxLength={200}
+              />
+              <Button type="submit" disabled={isBusy || !newMember.trim()} className="gap-2 shrink-0">
+                {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                Add
+              </Button>
+            </form>
+          </div>
+        )}
+
+        <form onSubmit={handleCreateClass} className="space-y-2">
+          <p className="text-sm font-medium">New class</p>
+          <Input
+            placeholder="Class name, e.g. BTK inhibitors"
+            value={newClassName}
+            onChange={(e) => setNewClassName(e.target.value)}
+            maxLength={200}
+          />
+          <div className="flex gap-2">
+            <Input
+              placeholder="First member drug, e.g. ibrutinib"
+              value={newClassDrug}
+              onChange={(e) => setNewClassDrug(e.target.value)}
+              maxLength={200}
+            />
+            <Button type="submit" disabled={isBusy || !newClassName.trim() || !newClassDrug.trim()} className="gap-2 shrink-0">
+              {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Create
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Loader2, Plus, Tags, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { addDrugSynonym, deleteDrugSynonym, DrugSynonymInfo, getDrugSynonyms } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface DrugSynonymsDialogProps {
+  drug: string;
+  /** Called on close when synonyms were added or removed, e.g. to re-run the search */
+  onSynonymsChange?: () => void;
+}
+
+export function DrugSynonymsDialog({ drug, onSynonymsChange }: DrugSynonymsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [info, setInfo] = useState<DrugSynonymInfo | null>(null);
+  const [newSynonym, setNewSynonym] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [changed, setChanged] = useState(false);
+  const { toast } = useToast();
+
+  const load = async () => {
+    try {
+      setInfo(await getDrugSynonyms(drug));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not load synonyms",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setInfo(null);
+      setChanged(false);
+      load();
+    } else if (changed) {
+      onSynonymsChange?.();
+    }
+    setOpen(next);
+  };
+
+  const run = async (action: () => Promise<void>, failureTitle: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      setChanged(true);
+      await load();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const synonym = newSynonym.trim();
+    if (!synonym) return;
+    run(async () => {
+      await addDrugSynonym(drug, synonym);
+      setNewSynonym("");
+    }, "Could not add synonym");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Tags className="h-4 w-4" />
+          Synonyms
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Synonyms for “{drug}”</DialogTitle>
+          <DialogDescription>
+            Drug searches also match these brand names and code names. Added synonyms are shared with all users.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!info ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading synonyms...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Built-in</p>
+              {info.builtIn.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No built-in synonyms for this name.</p>
+              ) : (
+                <div className="flex flex-wrap gap-1.5">
+                  {info.builtIn.map((name) => (
+                    <Badge key={name} variant="secondary">{name}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Added by users</p>
+              {info.entries.length === 0 ? (
+                <p className="text-xs text-muted-foreground">None yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-1.5">
+                  {info.entries.map((entry) => (
+                    <Badge key={entry.id} variant="outline" className="gap-1">
+                      {entry.term} = {entry.synonym}
+                      {entry.canDelete && (
+                        <button
+                          type="button"
+                          aria-label={`Remove ${entry.synonym}`}
+                          disabled={isBusy}
+                          onClick={() => run(() => deleteDrugSynonym(entry.id), "Could not remove synonym")}
+                          className="ml-0.5 text-muted-foreground hover:text-destructive"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <form onSubmit={handleAdd} className="flex gap-2">
+              <Input
+                placeholder="Add a brand or code name"
+                value={newSynonym}
+                onChange={(e) => setNewSynonym(e.target.value)}
+                maxLength={200}
+              />
+              <Button type="submit" disabled={isBusy || !newSynonym.trim()} className="gap-2 shrink-0">
+                {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                Add
+              </Button>
+            </form>
+
+            {changed && (
+              <p className="text-xs text-muted-foreground">The search re-runs with the updated synonyms when you close this dialog.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
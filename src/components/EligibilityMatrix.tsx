@@ -0,0 +1,136 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { FileSpreadsheet, UserCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Trial, exportToCSV } from "@/lib/api";
+import { buildEligibilityMatrix, eligibilityMatrixToCsvRows, EligibilityMatrixColumn } from "@/lib/eligibilityMatrix";
+
+// Rendering thousands of rows of a wide table is slow; the CSV always has all of them
+const INITIAL_ROWS = 200;
+
+interface EligibilityMatrixProps {
+  trials: Trial[];
+  /** CSV file name prefix, e.g. "trials_search" or "trials_selection" */
+  exportName: string;
+}
+
+function describeColumn(column: EligibilityMatrixColumn): string {
+  const parts = column.values.map((v) => `${v.value} (${v.count})`);
+  if (column.notStated > 0) parts.push(`Not stated (${column.notStated})`);
+  return parts.join("\n");
+}
+
+/** Trials × parsed eligibility criteria, highlighting where populations differ */
+export function EligibilityMatrix({ trials, exportName }: EligibilityMatrixProps) {
+  const matrix = useMemo(() => buildEligibilityMatrix(trials), [trials]);
+  const [varyingOnly, setVaryingOnly] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+
+  const heterogeneousCount = matrix.columns.filter((c) => c.heterogeneous).length;
+  const columns = varyingOnly ? matrix.columns.filter((c) => c.heterogeneous) : matrix.columns;
+  const rows = showAll ? matrix.rows : matrix.rows.slice(0, INITIAL_ROWS);
+  const unparsedCount = matrix.rows.filter((r) => !r.parsed).length;
+
+  const handleExportCSV = () => {
+    exportToCSV(eligibilityMatrixToCsvRows(matrix), `${exportName}_eligibility_${new Date().toISOString().split("T")[0]}`);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <UserCheck className="h-5 w-5 text-primary" />
+            Eligibility Matrix
+            <Badge variant="outline">
+              {heterogeneousCount} of {matrix.columns.length} criteria vary
+            </Badge>
+          </CardTitle>
+          <div className="flex items-center gap-3">
+            <Switch id="eligibility-varying-only" checked={varyingOnly} onCheckedChange={setVaryingOnly} />
+            <Label htmlFor="eligibility-varying-only" className="text-sm">
+              Varying criteria only
+            </Label>
+            <Button variant="outline" size="sm" onClick={handleExportCSV}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Extracted automatically from each trial's criteria text. Highlighted cells differ from the most common value in their column; hover a cell for its source criterion.
+          {unparsedCount > 0 && ` ${unparsedCount} trial${unparsedCount !== 1 ? "s were" : " was"} stored before eligibility parsing; re-run the search to include ${unparsedCount !== 1 ? "them" : "it"}.`}
+        </p>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {columns.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            The parsed criteria are the same across all trials.
+          </p>
+        ) : (
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left font-medium text-muted-foreground p-2 min-w-[220px]">Trial</th>
+                {columns.map((column) => (
+                  <th
+                    key={column.key}
+                    className="text-left font-medium p-2 min-w-[140px] align-top"
+                    title={describeColumn(column)}
+                  >
+                    <div>{column.label}</div>
+                    <div className={`text-xs font-normal ${column.heterogeneous ? "text-amber-600" : "text-muted-foreground"}`}>
+                      {column.values.length} value{column.values.length !== 1 ? "s" : ""}
+                      {column.notStated > 0 && ` · ${column.notStated} not stated`}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.trial.nctId} className="border-b border-border/50 last:border-b-0">
+                  <td className="p-2 align-top">
+                    <Link to={`/trial/${row.trial.nctId}`} className="font-mono text-primary hover:underline">
+                      {row.trial.nctId}
+                    </Link>
+                    <p className="text-xs text-muted-foreground line-clamp-1">{row.trial.briefTitle}</p>
+                  </td>
+                  {row.parsed ? (
+                    columns.map((column) => {
+                      const cell = row.cells[column.key];
+                      return (
+                        <td
+                          key={column.key}
+                          title={cell.source || undefined}
+                          className={`p-2 align-top ${cell.differs ? "bg-amber-50 dark:bg-amber-950/20" : ""}`}
+                        >
+                          {cell.value || <span className="text-muted-foreground">—</span>}
+                        </td>
+                      );
+                    })
+                  ) : (
+                    <td colSpan={columns.length} className="p-2 align-top text-xs text-muted-foreground">
+                      Eligibility not parsed
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {!showAll && matrix.rows.length > INITIAL_ROWS && columns.length > 0 && (
+          <div className="flex justify-center pt-4">
+            <Button variant="ghost" size="sm" onClick={() => setShowAll(true)}>
+              Show all {matrix.rows.length.toLocaleString()} trials
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+import { ListChecks, ListX, UserCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { EligibilityCriterion, EligibilityProfile } from "@/lib/api";
+import {
+  BRAIN_METASTASES_LABELS,
+  formatAgeRange,
+  formatBiomarker,
+  formatPerformanceStatus,
+  formatPriorLines,
+  ORGAN_SYSTEM_LABELS,
+} from "@/lib/eligibility";
+
+interface EligibilityTabProps {
+  profile?: EligibilityProfile;
+  /** Raw criteria text, shown when nothing could be parsed */
+  criteria?: string;
+  sex?: string;
+  healthyVolunteers?: boolean;
+}
+
+const NOT_STATED = <span className="text-muted-foreground">Not stated</span>;
+
+function FeatureRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid grid-cols-[10rem_1fr] gap-3 py-2 border-b border-border last:border-0 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <div className="flex flex-wrap items-center gap-1.5">{children}</div>
+    </div>
+  );
+}
+
+function CriteriaList({ criteria }: { criteria: EligibilityCriterion[] }) {
+  if (criteria.length === 0) {
+    return <p className="text-sm text-muted-foreground py-2">None listed.</p>;
+  }
+  return (
+    <ul className="space-y-1.5 text-sm">
+      {criteria.map((criterion, index) => (
+        <li key={index} className={`flex gap-2 ${criterion.level > 0 ? "ml-5 text-muted-foreground" : ""}`}>
+          <span className="text-muted-foreground select-none">{criterion.level > 0 ? "–" : "•"}</span>
+          <span>{criterion.text}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function EligibilityTab({ profile, criteria, sex, healthyVolunteers }: EligibilityTabProps) {
+  const hasSections = !!profile && (profile.inclusion.length > 0 || profile.exclusion.length > 0);
+
+  if (!profile && !criteria) {
+    return <p className="text-sm text-muted-foreground py-4">No eligibility criteria provided.</p>;
+  }
+
+  // Organ systems in first-mention order, each with the criteria that set it
+  const organSystems = profile
+    ? Array.from(new Set(profile.organFunction.map((o) => o.system))).map((system) => ({
+      system,
+      text: profile.organFunction.filter((o) => o.system === system).map((o) => o.text).join("\n"),
+    }))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {profile && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <UserCheck className="h-5 w-5 text-primary" />
+              Key Criteria
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <FeatureRow label="Age">{formatAgeRange(profile) ?? NOT_STATED}</FeatureRow>
+            <FeatureRow label="Sex">{sex && sex !== "ALL" ? sex.charAt(0) + sex.slice(1).toLowerCase() : "All"}</FeatureRow>
+            <FeatureRow label="Healthy volunteers">{healthyVolunteers ? "Accepted" : "No"}</FeatureRow>
+            <FeatureRow label="Performance status">
+              {profile.performanceStatus.length > 0
+                ? profile.performanceStatus.map((ps) => (
+                  <Badge key={ps.scale} variant="outline" title={ps.text}>{formatPerformanceStatus(ps)}</Badge>
+                ))
+                : NOT_STATED}
+            </FeatureRow>
+            <FeatureRow label="Prior lines">
+              {profile.priorLines
+                ? <span title={profile.priorLines.text}>{formatPriorLines(profile.priorLines)}</span>
+                : NOT_STATED}
+            </FeatureRow>
+            <FeatureRow label="Biomarkers">
+              {profile.biomarkers.length > 0
+                ? profile.biomarkers.map((b) => (
+                  <Badge key={b.marker} variant="biomarker" title={b.text}>{formatBiomarker(b)}</Badge>
+                ))
+                : NOT_STATED}
+            </FeatureRow>
+            <FeatureRow label="Brain metastases">
+              {profile.brainMetastases
+                ? <span title={profile.brainMetastases.text}>{BRAIN_METASTASES_LABELS[profile.brainMetastases.policy]}</span>
+                : NOT_STATED}
+            </FeatureRow>
+            <FeatureRow label="Organ function">
+              {organSystems.length > 0
+                ? organSystems.map(({ system, text }) => (
+                  <Badge key={system} variant="secondary" title={text}>{ORGAN_SYSTEM_LABELS[system]}</Badge>
+                ))
+                : NOT_STATED}
+            </FeatureRow>
+            <p className="text-xs text-muted-foreground mt-3">
+              Extracted automatically from the criteria text (parser v{profile.parserVersion}); hover a value for its source criterion.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {hasSections ? (
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <ListChecks className="h-5 w-5 text-primary" />
+                Inclusion Criteria
+                <Badge variant="outline" className="ml-auto">{profile!.inclusion.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CriteriaList criteria={profile!.inclusion} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <ListX className="h-5 w-5 text-destructive" />
+                Exclusion Criteria
+                <Badge variant="outline" className="ml-auto">{profile!.exclusion.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CriteriaList criteria={profile!.exclusion} />
+            </CardContent>
+          </Card>
+          {profile!.other.length > 0 && (
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-base">Other Criteria</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CriteriaList criteria={profile!.other} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      ) : criteria ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Eligibility Criteria</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{criteria}</p>
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Filter, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FacetGroup, FacetKey, FacetSelection, countSelected, toggleFacetValue } from "@/lib/facets";
+
+interface FacetSidebarProps {
+  facets: FacetGroup[];
+  selection: FacetSelection;
+  onSelectionChange: (selection: FacetSelection) => void;
+}
+
+const COLLAPSED_VALUE_COUNT = 6;
+
+function FacetSection({ group, onToggle, onClear }: {
+  group: FacetGroup;
+  onToggle: (value: string) => void;
+  onClear: () => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const hasSelection = group.values.some((v) => v.selected);
+  const shown = expanded ? group.values : group.values.slice(0, COLLAPSED_VALUE_COUNT);
+
+  if (group.values.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{group.label}</h4>
+        {hasSelection && (
+          <button onClick={onClear} className="text-xs text-muted-foreground hover:text-foreground">
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="space-y-1.5">
+        {shown.map((facetValue) => {
+          const id = `facet-${group.key}-${facetValue.value}`;
+          return (
+            <label
+              key={facetValue.value}
+              htmlFor={id}
+              className={`flex items-center gap-2 text-sm cursor-pointer ${facetValue.count === 0 && !facetValue.selected ? "opacity-50" : ""}`}
+            >
+              <Checkbox id={id} checked={facetValue.selected} onCheckedChange={() => onToggle(facetValue.value)} />
+              <span className="flex-1 truncate" title={facetValue.value}>{facetValue.value}</span>
+              <span className="text-xs text-muted-foreground tabular-nums">{facetValue.count}</span>
+            </label>
+          );
+        })}
+      </div>
+      {group.values.length > COLLAPSED_VALUE_COUNT && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs text-primary hover:underline"
+        >
+          {expanded ? "Show less" : `Show all ${group.values.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function FacetSidebar({ facets, selection, onSelectionChange }: FacetSidebarProps) {
+  const activeCount = countSelected(selection);
+
+  const clearFacet = (key: FacetKey) => {
+    onSelectionChange({ ...selection, [key]: [] });
+  };
+
+  return (
+    <Card className="lg:sticky lg:top-20">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Filter className="h-4 w-4 text-primary" />
+            Refine results
+          </CardTitle>
+          {activeCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => onSelectionChange({})} className="h-7 gap-1 text-xs">
+              <X className="h-3 w-3" />
+              Clear all ({activeCount})
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">Computed from the loaded trials</p>
+      </CardHeader>
+      <CardContent className="space-y-5 max-h-[calc(100vh-10rem)] overflow-y-auto">
+        {facets.map((group) => (
+          <FacetSection
+            key={group.key}
+            group={group}
+            onToggle={(value) => onSelectionChange(toggleFacetValue(selection, group.key, value))}
+            onClear={() => clearFacet(group.key)}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,20 @@
 import { Link, useLocation } from "react-router-dom";
-import { LayoutGrid, Info } from "lucide-react";
+import { LayoutGrid, Info, Columns3, ListChecks, Bookmark, Bell, History } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useSelectionBasket } from "@/hooks/use-selection-basket";
 import thycloneLogo from "@/assets/thyclone-logo.png";
 
 export function Header() {
   const location = useLocation();
+  const { count: selectionCount } = useSelectionBasket();
 
   const navItems = [
     { href: "/", label: "Workspace", icon: LayoutGrid, isWorkspace: true },
+    { href: "/selection", label: "Selection", icon: ListChecks, isWorkspace: false, badge: selectionCount },
+    { href: "/compare", label: "Compare", icon: Columns3, isWorkspace: false },
+    { href: "/searches", label: "My searches", icon: Bookmark, isWorkspace: false },
+    { href: "/history", label: "History", icon: History, isWorkspace: false },
+    { href: "/inbox", label: "Inbox", icon: Bell, isWorkspace: false },
     { href: "/about", label: "About", icon: Info, isWorkspace: false },
   ];
 
@@ -38,6 +45,11 @@ export function Header() {
                 >
                   <item.icon className="h-4 w-4" />
                   {item.label}
+                  {!!item.badge && (
+                    <span className="ml-0.5 rounded-full bg-primary px-1.5 py-0.5 text-[10px] font-semibold leading-none text-primary-foreground">
+                      {item.badge}
+                    </span>
+                  )}
                 </Link>
               );
             })}
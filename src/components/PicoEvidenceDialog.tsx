@@ -0,0 +1,114 @@
+import { Link } from "react-router-dom";
+import { Download, ExternalLink } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PicoEvidenceGroup } from "@/lib/picoAnalysis";
+import { exportToCSV } from "@/lib/api";
+
+interface PicoEvidenceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** PICO line the evidence belongs to, e.g. "Comparador predominante" */
+  title: string;
+  /** Conclusion shown for that line, e.g. "Placebo" */
+  conclusion: string;
+  groups: PicoEvidenceGroup[];
+}
+
+export function PicoEvidenceDialog({ open, onOpenChange, title, conclusion, groups }: PicoEvidenceDialogProps) {
+  const totalTrials = new Set(groups.flatMap((g) => g.trials.map((t) => t.nctId))).size;
+
+  const handleExport = () => {
+    const rows = groups.flatMap((group) =>
+      group.trials.map((trial) => ({
+        pico_line: title,
+        conclusion,
+        category: group.label,
+        nct_id: trial.nctId,
+        title: trial.briefTitle,
+        phase: trial.phase,
+        details: trial.details.join(' | '),
+      }))
+    );
+    const slug = title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '_');
+    exportToCSV(rows, `pico_evidence_${slug}_${new Date().toISOString().split('T')[0]}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Conclusión: <span className="font-medium text-foreground">{conclusion}</span>
+            {' · '}
+            {totalTrials} ensayo{totalTrials !== 1 ? 's' : ''} en {groups.length} categoría{groups.length !== 1 ? 's' : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            Ningún ensayo aporta datos evaluables a esta línea.
+          </p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto pr-2">
+            <div className="space-y-5">
+              {groups.map((group) => (
+                <div key={group.key} className="space-y-2">
+                  <div className="flex items-center justify-between border-b border-border/50 pb-1">
+                    <h4 className="text-sm font-semibold">{group.label}</h4>
+                    <Badge variant="secondary" className="text-xs">
+                      {group.count} ensayo{group.count !== 1 ? 's' : ''}
+                    </Badge>
+                  </div>
+                  <ul className="space-y-2">
+                    {group.trials.map((trial) => (
+                      <li key={`${group.key}-${trial.nctId}`} className="text-sm">
+                        <div className="flex items-start gap-2">
+                          <Link
+                            to={`/trial/${trial.nctId}`}
+                            className="font-mono text-xs text-primary hover:underline inline-flex items-center gap-1 shrink-0 pt-0.5"
+                          >
+                            {trial.nctId}
+                            <ExternalLink className="h-3 w-3" />
+                          </Link>
+                          <span className="leading-snug">{trial.briefTitle}</span>
+                          {trial.phase && (
+                            <Badge variant="outline" className="text-xs shrink-0 ml-auto">
+                              {trial.phase}
+                            </Badge>
+                          )}
+                        </div>
+                        {trial.details.length > 0 && (
+                          <ul className="mt-1 ml-6 list-disc text-xs text-muted-foreground space-y-0.5">
+                            {trial.details.map((detail, i) => (
+                              <li key={i}>{detail}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end pt-2">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={groups.length === 0} className="gap-2">
+            <Download className="h-3.5 w-3.5" />
+            Exportar CSV
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { 
   Target, 
   GitCompare, 
@@ -10,7 +11,9 @@ import {
   Loader2,
   Copy,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  ListChecks,
+  Search
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -20,8 +23,10 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
+import { PicoEvidenceDialog } from "@/components/PicoEvidenceDialog";
 import { 
   PicoAnalysis, 
+  PicoEvidenceGroup,
   COMPARATOR_LABELS,
   ADDON_LABELS,
   CONSISTENCY_LABELS,
@@ -37,6 +42,8 @@ interface PicoQuickReadingProps {
   showDetailToggle?: boolean;
   isDetailOpen?: boolean;
   onDetailToggle?: () => void;
+  /** List the trials each sub-block was computed from (multi-trial readings) */
+  showContributingTrials?: boolean;
 }
 
 function BooleanIndicator({ value, trueLabel = "Sí", falseLabel = "No" }: { 
@@ -66,7 +73,12 @@ function BooleanIndicator({ value, trueLabel = "Sí", falseLabel = "No" }: {
   );
 }
 
-function PicoLine({ label, value, className }: { label: string; value: React.ReactNode; className?: string }) {
+function PicoLine({ label, value, className, onShowEvidence }: {
+  label: string;
+  value: React.ReactNode;
+  className?: string;
+  onShowEvidence?: () => void;
+}) {
   return (
     <div className={`flex flex-col sm:flex-row sm:items-start gap-1 sm:gap-3 py-2 border-b border-border/50 last:border-b-0 ${className || ''}`}>
       <span className="text-sm font-medium text-muted-foreground min-w-[200px] shrink-0">
@@ -75,10 +87,25 @@ function PicoLine({ label, value, className }: { label: string; value: React.Rea
       <span className="text-sm font-medium">
         {value}
       </span>
+      {onShowEvidence && (
+        <button
+          onClick={onShowEvidence}
+          className="sm:ml-auto inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors shrink-0"
+        >
+          <Search className="h-3 w-3" />
+          Ver ensayos
+        </button>
+      )}
     </div>
   );
 }
 
+interface EvidenceSelection {
+  title: string;
+  conclusion: string;
+  groups: PicoEvidenceGroup[];
+}
+
 function StructuralNote({ note }: { note: string }) {
   return (
     <div className="mt-3 pt-3 border-t border-border/50">
@@ -90,16 +117,59 @@ function StructuralNote({ note }: { note: string }) {
   );
 }
 
+function ContributingTrials({ trialIds, totalTrials, description }: {
+  trialIds: string[];
+  totalTrials: number;
+  description: string;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-3 pt-3 border-t border-border/50">
+      <CollapsibleTrigger asChild>
+        <button className="flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors">
+          <ListChecks className="h-3.5 w-3.5" />
+          Basado en {trialIds.length} de {totalTrials} ensayo{totalTrials !== 1 ? 's' : ''} {description}
+          {open ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {trialIds.map((id) => (
+            <Link key={id} to={`/trial/${id}`}>
+              <Badge variant="outline" className="font-mono text-xs hover:bg-muted">
+                {id}
+              </Badge>
+            </Link>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
 export function PicoQuickReading({ 
   analysis, 
   onGenerateNarrative,
   showDetailToggle = false,
   isDetailOpen = true,
-  onDetailToggle
+  onDetailToggle,
+  showContributingTrials = false
 }: PicoQuickReadingProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [narrativeMode, setNarrativeMode] = useState<'basic' | 'advanced'>('basic');
   const [narrative, setNarrative] = useState<string | null>(null);
+  const [evidenceSelection, setEvidenceSelection] = useState<EvidenceSelection | null>(null);
+
+  // A narrative describes one specific analysis; drop it when the input changes
+  useEffect(() => {
+    setNarrative(null);
+  }, [analysis]);
+
+  const showEvidence = (title: string, conclusion: string, groups: PicoEvidenceGroup[]) => () =>
+    setEvidenceSelection({ title, conclusion, groups });
+
+  const booleanLabel = (value: boolean | null) => value === null ? 'No evaluable' : value ? 'Sí' : 'No';
 
   const handleGenerateNarrative = async () => {
     if (!onGenerateNarrative) return;
@@ -158,20 +228,47 @@ export function PicoQuickReading({
             <PicoLine 
               label="Comparador predominante" 
               value={COMPARATOR_LABELS[comparator.predominantComparator]}
+              onShowEvidence={showEvidence(
+                "Comparador predominante",
+                COMPARATOR_LABELS[comparator.predominantComparator],
+                comparator.evidence.predominantComparator
+              )}
             />
             <PicoLine 
               label="Comparador activo directo" 
               value={<BooleanIndicator value={comparator.hasDirectActiveComparator} />}
+              onShowEvidence={showEvidence(
+                "Comparador activo directo",
+                booleanLabel(comparator.hasDirectActiveComparator),
+                comparator.evidence.hasDirectActiveComparator
+              )}
             />
             <PicoLine 
               label="Diseños add-on sobre SOC" 
               value={ADDON_LABELS[comparator.addOnDesigns]}
+              onShowEvidence={showEvidence(
+                "Diseños add-on sobre SOC",
+                ADDON_LABELS[comparator.addOnDesigns],
+                comparator.evidence.addOnDesigns
+              )}
             />
             <PicoLine 
               label="Consistencia del comparador por fase" 
               value={CONSISTENCY_LABELS[comparator.phaseConsistency]}
+              onShowEvidence={showEvidence(
+                "Consistencia del comparador por fase",
+                CONSISTENCY_LABELS[comparator.phaseConsistency],
+                comparator.evidence.phaseConsistency
+              )}
             />
             <StructuralNote note={comparator.structuralNote} />
+            {showContributingTrials && (
+              <ContributingTrials
+                trialIds={comparator.evaluableTrialIds}
+                totalTrials={analysis.totalTrials}
+                description="con brazo control identificado"
+              />
+            )}
           </div>
         </div>
 
@@ -185,24 +282,56 @@ export function PicoQuickReading({
             <PicoLine 
               label="Endpoint primario dominante" 
               value={ENDPOINT_LABELS[endpoint.dominantPrimaryEndpoint]}
+              onShowEvidence={showEvidence(
+                "Endpoint primario dominante",
+                ENDPOINT_LABELS[endpoint.dominantPrimaryEndpoint],
+                endpoint.evidence.dominantPrimaryEndpoint
+              )}
             />
             <PicoLine 
               label="Endpoint clínico duro como primario" 
               value={<BooleanIndicator value={endpoint.hasHardClinicalPrimary} />}
+              onShowEvidence={showEvidence(
+                "Endpoint clínico duro como primario",
+                booleanLabel(endpoint.hasHardClinicalPrimary),
+                endpoint.evidence.hasHardClinicalPrimary
+              )}
             />
             <PicoLine 
               label="Uso de endpoints subrogados" 
               value={SURROGATE_LABELS[endpoint.surrogateUsage]}
+              onShowEvidence={showEvidence(
+                "Uso de endpoints subrogados",
+                SURROGATE_LABELS[endpoint.surrogateUsage],
+                endpoint.evidence.surrogateUsage
+              )}
             />
             <PicoLine 
               label="PROs (calidad de vida)" 
               value={PRO_LABELS[endpoint.prosPresence]}
+              onShowEvidence={showEvidence(
+                "PROs (calidad de vida)",
+                PRO_LABELS[endpoint.prosPresence],
+                endpoint.evidence.prosPresence
+              )}
             />
             <PicoLine 
               label="Consistencia de endpoints entre ensayos" 
               value={CONSISTENCY_LABELS[endpoint.endpointConsistency]}
+              onShowEvidence={showEvidence(
+                "Consistencia de endpoints entre ensayos",
+                CONSISTENCY_LABELS[endpoint.endpointConsistency],
+                endpoint.evidence.endpointConsistency
+              )}
             />
             <StructuralNote note={endpoint.structuralNote} />
+            {showContributingTrials && (
+              <ContributingTrials
+                trialIds={endpoint.evaluableTrialIds}
+                totalTrials={analysis.totalTrials}
+                description="con endpoint primario registrado"
+              />
+            )}
           </div>
         </div>
 
@@ -300,6 +429,14 @@ export function PicoQuickReading({
           </Collapsible>
         )}
       </CardContent>
+
+      <PicoEvidenceDialog
+        open={evidenceSelection !== null}
+        onOpenChange={(open) => !open && setEvidenceSelection(null)}
+        title={evidenceSelection?.title ?? ''}
+        conclusion={evidenceSelection?.conclusion ?? ''}
+        groups={evidenceSelection?.groups ?? []}
+      />
     </Card>
   );
 }
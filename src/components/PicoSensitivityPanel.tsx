@@ -0,0 +1,222 @@
+import { useMemo, useState } from "react";
+import { SlidersHorizontal, ChevronDown, ChevronUp, RotateCcw, Download, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Trial, exportToCSV } from "@/lib/api";
+import {
+  PicoThresholds,
+  DEFAULT_PICO_THRESHOLDS,
+  THRESHOLD_NAMES,
+  buildSensitivityScenarios,
+  formatThreshold,
+  runPicoSensitivity,
+} from "@/lib/picoAnalysis";
+
+interface PicoSensitivityPanelProps {
+  trials: Trial[];
+  thresholds: PicoThresholds;
+  onThresholdsChange: (thresholds: PicoThresholds) => void;
+}
+
+const THRESHOLD_OPTIONS: Record<keyof PicoThresholds, number[]> = {
+  predominant: [0.40, 0.45, 0.50, 0.55, 0.60, 0.65, 0.70],
+  relevant: [0.10, 0.15, 0.20, 0.25, 0.30, 0.35],
+  consistencyHigh: [0.60, 0.65, 0.70, 0.75, 0.80, 0.85, 0.90],
+  consistencyModerate: [0.25, 0.30, 0.35, 0.40, 0.45, 0.50],
+};
+
+const THRESHOLD_KEYS = Object.keys(THRESHOLD_OPTIONS) as (keyof PicoThresholds)[];
+
+/** Keeps each lower threshold strictly below its upper counterpart */
+function isValidOption(thresholds: PicoThresholds, key: keyof PicoThresholds, value: number): boolean {
+  const next = { ...thresholds, [key]: value };
+  return next.relevant < next.predominant && next.consistencyModerate < next.consistencyHigh;
+}
+
+export function PicoSensitivityPanel({ trials, thresholds, onThresholdsChange }: PicoSensitivityPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [varied, setVaried] = useState<keyof PicoThresholds>('predominant');
+
+  const scenarios = useMemo(
+    () => buildSensitivityScenarios(thresholds, varied),
+    [thresholds, varied]
+  );
+  // Only computed while the panel is open: each scenario is a full PICO pass
+  const rows = useMemo(
+    () => (open ? runPicoSensitivity(trials, scenarios) : []),
+    [open, trials, scenarios]
+  );
+
+  const isDefault = THRESHOLD_KEYS.every((key) => thresholds[key] === DEFAULT_PICO_THRESHOLDS[key]);
+  const flippingCount = rows.filter((row) => row.flips).length;
+
+  const handleExport = () => {
+    const data = rows.map((row) => {
+      const entry: Record<string, string> = { Conclusion: row.line };
+      scenarios.forEach((scenario, i) => {
+        entry[scenario.label] = row.values[i];
+      });
+      entry.Robust = row.flips ? 'No' : 'Yes';
+      return entry;
+    });
+    exportToCSV(data, `pico_sensitivity_${varied}_${new Date().toISOString().split('T')[0]}`);
+  };
+
+  return (
+    <Card>
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CardHeader className="pb-3">
+          <CollapsibleTrigger asChild>
+            <button className="flex items-center justify-between w-full text-left">
+              <CardTitle className="text-base flex items-center gap-2">
+                <SlidersHorizontal className="h-4 w-4 text-primary" />
+                Umbrales PICO y análisis de sensibilidad
+                {!isDefault && (
+                  <Badge variant="secondary" className="text-xs">Personalizados</Badge>
+                )}
+              </CardTitle>
+              {open ? <ChevronUp className="h-4 w-4 text-muted-foreground" /> : <ChevronDown className="h-4 w-4 text-muted-foreground" />}
+            </button>
+          </CollapsibleTrigger>
+        </CardHeader>
+
+        <CollapsibleContent>
+          <CardContent className="space-y-6">
+            {/* Threshold selectors */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  Umbrales aplicados a la lectura PICO rápida
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onThresholdsChange(DEFAULT_PICO_THRESHOLDS)}
+                  disabled={isDefault}
+                  className="gap-1.5 h-8"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                  Restablecer
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {THRESHOLD_KEYS.map((key) => (
+                  <div key={key} className="space-y-1">
+                    <label className="text-xs font-medium text-muted-foreground">{THRESHOLD_NAMES[key]}</label>
+                    <Select
+                      value={String(thresholds[key])}
+                      onValueChange={(value) => onThresholdsChange({ ...thresholds, [key]: Number(value) })}
+                    >
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {THRESHOLD_OPTIONS[key].map((option) => (
+                          <SelectItem
+                            key={option}
+                            value={String(option)}
+                            disabled={!isValidOption(thresholds, key, option)}
+                          >
+                            {formatThreshold(option)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Sensitivity table */}
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Variar umbral:</span>
+                  <Select value={varied} onValueChange={(value) => setVaried(value as keyof PicoThresholds)}>
+                    <SelectTrigger className="h-8 w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {THRESHOLD_KEYS.map((key) => (
+                        <SelectItem key={key} value={key}>{THRESHOLD_NAMES[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleExport} disabled={rows.length === 0} className="gap-2">
+                  <Download className="h-3.5 w-3.5" />
+                  Exportar CSV
+                </Button>
+              </div>
+
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[240px]">Conclusión</TableHead>
+                      {scenarios.map((scenario) => (
+                        <TableHead key={scenario.label}>{scenario.label}</TableHead>
+                      ))}
+                      <TableHead className="w-[120px]">Robustez</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.line} className={row.flips ? 'bg-amber-50 dark:bg-amber-950/20' : undefined}>
+                        <TableCell className="font-medium text-sm">{row.line}</TableCell>
+                        {row.values.map((value, i) => (
+                          <TableCell key={scenarios[i].label} className="text-sm">{value}</TableCell>
+                        ))}
+                        <TableCell>
+                          {row.flips ? (
+                            <span className="inline-flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400 font-medium">
+                              <AlertTriangle className="h-3.5 w-3.5" />
+                              Cambia
+                            </span>
+                          ) : (
+                            <span className="inline-flex items-center gap-1 text-xs text-emerald-600 dark:text-emerald-400 font-medium">
+                              <CheckCircle2 className="h-3.5 w-3.5" />
+                              Robusta
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <p className="text-xs text-muted-foreground italic">
+                {flippingCount === 0
+                  ? 'Ninguna conclusión cambia en el rango evaluado.'
+                  : `${flippingCount} conclusión${flippingCount !== 1 ? 'es cambian' : ' cambia'} en el rango evaluado.`}
+                {' '}El resto de umbrales se mantienen en sus valores actuales.
+              </p>
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
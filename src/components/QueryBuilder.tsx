@@ -0,0 +1,194 @@
+import { FolderPlus, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Toggle } from "@/components/ui/toggle";
+import { AutocompleteInput } from "@/components/AutocompleteInput";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  countQueryTerms,
+  MAX_QUERY_DEPTH,
+  MAX_QUERY_TERMS,
+  newQueryGroup,
+  newQueryTerm,
+  QUERY_FIELDS,
+  QueryField,
+  QueryGroup,
+  QueryNode,
+  QueryTerm,
+} from "@/lib/queryBuilder";
+import type { SuggestField } from "@/lib/api";
+
+// Builder fields with typeahead; the rest are free text
+const SUGGEST_FIELDS: Partial<Record<QueryField, SuggestField>> = {
+  intervention: "drug",
+  condition: "condition",
+  sponsor: "sponsor",
+};
+
+interface QueryBuilderProps {
+  value: QueryGroup;
+  onChange: (value: QueryGroup) => void;
+}
+
+function NotToggle({ pressed, onChange }: { pressed: boolean; onChange: (pressed: boolean) => void }) {
+  return (
+    <Toggle
+      size="sm"
+      variant="outline"
+      pressed={pressed}
+      onPressedChange={onChange}
+      aria-label="Exclude matches (NOT)"
+      className="h-9 px-2 text-xs font-semibold data-[state=on]:bg-destructive/10 data-[state=on]:text-destructive"
+    >
+      NOT
+    </Toggle>
+  );
+}
+
+function TermRow({ term, onChange, onRemove }: {
+  term: QueryTerm;
+  onChange: (term: QueryTerm) => void;
+  onRemove?: () => void;
+}) {
+  const suggestField = SUGGEST_FIELDS[term.field];
+  return (
+    <div className="flex items-center gap-2">
+      <NotToggle pressed={!!term.negate} onChange={(negate) => onChange({ ...term, negate })} />
+      <Select value={term.field} onValueChange={(field) => onChange({ ...term, field: field as QueryField })}>
+        <SelectTrigger className="h-9 w-44 shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {QUERY_FIELDS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex-1">
+        {suggestField ? (
+          <AutocompleteInput
+            suggestField={suggestField}
+            onSuggestionSelect={(value) => onChange({ ...term, value })}
+            value={term.value}
+            onChange={(e) => onChange({ ...term, value: e.target.value })}
+            placeholder="Term or phrase"
+            maxLength={200}
+            className="h-9"
+          />
+        ) : (
+          <Input
+            value={term.value}
+            onChange={(e) => onChange({ ...term, value: e.target.value })}
+            placeholder="Term or phrase"
+            maxLength={200}
+            className="h-9"
+          />
+        )}
+      </div>
+      {onRemove && (
+        <Button type="button" variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={onRemove} aria-label="Remove term">
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function GroupEditor({ group, depth, canAddTerm, onChange, onRemove }: {
+  group: QueryGroup;
+  depth: number;
+  canAddTerm: boolean;
+  onChange: (group: QueryGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateChild = (index: number, child: QueryNode) =>
+    onChange({ ...group, children: group.children.map((c, i) => (i === index ? child : c)) });
+  const removeChild = (index: number) =>
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+  const addChild = (child: QueryNode) => onChange({ ...group, children: [...group.children, child] });
+
+  return (
+    <div className={`space-y-2 ${depth > 0 ? "rounded-lg border border-border p-3 bg-muted/30" : ""}`}>
+      <div className="flex items-center gap-2">
+        <NotToggle pressed={!!group.negate} onChange={(negate) => onChange({ ...group, negate })} />
+        <Select value={group.op} onValueChange={(op) => onChange({ ...group, op: op as QueryGroup["op"] })}>
+          <SelectTrigger className="h-9 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="AND">All of (AND)</SelectItem>
+            <SelectItem value="OR">Any of (OR)</SelectItem>
+          </SelectContent>
+        </Select>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" className="ml-auto gap-1 text-muted-foreground" onClick={onRemove}>
+            <X className="h-4 w-4" />
+            Remove group
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2 pl-4 border-l-2 border-primary/20">
+        {group.children.map((child, index) =>
+          child.type === "term" ? (
+            <TermRow
+              key={index}
+              term={child}
+              onChange={(term) => updateChild(index, term)}
+              onRemove={group.children.length > 1 ? () => removeChild(index) : undefined}
+            />
+          ) : (
+            <GroupEditor
+              key={index}
+              group={child}
+              depth={depth + 1}
+              canAddTerm={canAddTerm}
+              onChange={(next) => updateChild(index, next)}
+              onRemove={() => removeChild(index)}
+            />
+          )
+        )}
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" className="gap-1.5" disabled={!canAddTerm} onClick={() => addChild(newQueryTerm())}>
+            <Plus className="h-3.5 w-3.5" />
+            Term
+          </Button>
+          {depth < MAX_QUERY_DEPTH && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-1.5"
+              disabled={!canAddTerm}
+              onClick={() => addChild(newQueryGroup(group.op === "AND" ? "OR" : "AND"))}
+            >
+              <FolderPlus className="h-3.5 w-3.5" />
+              Group
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Nested AND/OR/NOT groups of field terms; trials-search compiles the tree server-side */
+export function QueryBuilder({ value, onChange }: QueryBuilderProps) {
+  const termCount = countQueryTerms(value);
+  return (
+    <div className="space-y-2">
+      <GroupEditor group={value} depth={0} canAddTerm={termCount < MAX_QUERY_TERMS} onChange={onChange} />
+      {termCount >= MAX_QUERY_TERMS && (
+        <p className="text-xs text-muted-foreground">At most {MAX_QUERY_TERMS} terms per query.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { Fragment } from "react";
+import { BarChart3, ExternalLink, GitBranch, Sigma, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { GroupCount, OutcomeMeasureResult, PostedResults, ResultGroup, ResultMeasure } from "@/lib/api";
+import {
+  countForGroup,
+  formatEstimate,
+  formatMeasurement,
+  formatPValue,
+  formatResultEnum,
+  OUTCOME_TYPE_LABELS,
+} from "@/lib/results";
+
+interface ResultsTabProps {
+  nctId: string;
+  results?: PostedResults | null;
+  resultsFirstPostDate?: string;
+}
+
+function GroupHeader({ groups, label }: { groups: ResultGroup[]; label: string }) {
+  return (
+    <TableHeader>
+      <TableRow>
+        <TableHead className="min-w-[200px]">{label}</TableHead>
+        {groups.map((group) => (
+          <TableHead key={group.id} className="min-w-[140px] align-top" title={group.description || undefined}>
+            {group.title}
+          </TableHead>
+        ))}
+      </TableRow>
+    </TableHeader>
+  );
+}
+
+function CountRow({ label, groups, counts, muted }: { label: string; groups: ResultGroup[]; counts: GroupCount[]; muted?: boolean }) {
+  return (
+    <TableRow className={muted ? "text-muted-foreground" : undefined}>
+      <TableCell className={muted ? "pl-8" : "font-medium"}>{label}</TableCell>
+      {groups.map((group) => (
+        <TableCell key={group.id}>{countForGroup(counts, group.id) ?? "—"}</TableCell>
+      ))}
+    </TableRow>
+  );
+}
+
+/** One row per class/category of a measure, one cell per group */
+function MeasureRows({ measure, groups }: { measure: ResultMeasure; groups: ResultGroup[] }) {
+  return (
+    <>
+      {measure.classes.flatMap((cls, c) =>
+        cls.categories.map((category, k) => {
+          const denoms = cls.denoms.length > 0 ? cls.denoms : measure.denoms;
+          const label = [cls.title, category.title].filter(Boolean).join(" — ") || measure.unitOfMeasure || "Value";
+          return (
+            <TableRow key={`${c}-${k}`}>
+              <TableCell className="pl-8 text-muted-foreground">{label}</TableCell>
+              {groups.map((group) => {
+                const m = category.measurements.find((x) => x.groupId === group.id);
+                return (
+                  <TableCell key={group.id} title={m?.comment || undefined}>
+                    {m
+                      ? formatMeasurement(m, { calculatePct: measure.calculatePct, denom: countForGroup(denoms, group.id) })
+                      : "—"}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          );
+        })
+      )}
+    </>
+  );
+}
+
+function describeMeasure(measure: ResultMeasure): string {
+  return [
+    formatResultEnum(measure.paramType),
+    measure.dispersionType && measure.dispersionType !== "NA" && `(${formatResultEnum(measure.dispersionType)})`,
+    measure.unitOfMeasure && `· ${measure.unitOfMeasure}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function OutcomeCard({ outcome }: { outcome: OutcomeMeasureResult }) {
+  const groupTitle = (id: string) => outcome.groups.find((g) => g.id === id)?.title || id;
+  const posted = outcome.reportingStatus !== "NOT_POSTED";
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-start gap-2">
+          <Badge variant={outcome.type === "PRIMARY" ? "default" : "outline"} className="shrink-0">
+            {OUTCOME_TYPE_LABELS[outcome.type] || formatResultEnum(outcome.type)}
+          </Badge>
+          <span>{outcome.title}</span>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {outcome.timeFrame && <>Time frame: {outcome.timeFrame}</>}
+          {posted && outcome.paramType && <>{outcome.timeFrame && " · "}{describeMeasure(outcome)}</>}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!posted ? (
+          <p className="text-sm text-muted-foreground">Results for this outcome have not been posted yet.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <Table>
+                <GroupHeader groups={outcome.groups} label="Group" />
+                <TableBody>
+                  <CountRow label="Participants analyzed" groups={outcome.groups} counts={outcome.denoms} />
+                  <MeasureRows measure={outcome} groups={outcome.groups} />
+                </TableBody>
+              </Table>
+            </div>
+            {outcome.populationDescription && (
+              <p className="text-xs text-muted-foreground">{outcome.populationDescription}</p>
+            )}
+            {outcome.analyses.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium flex items-center gap-2">
+                  <Sigma className="h-4 w-4 text-primary" />
+                  Statistical analyses
+                </h4>
+                {outcome.analyses.map((analysis, index) => {
+                  const estimate = formatEstimate(analysis);
+                  const pValue = formatPValue(analysis);
+                  return (
+                    <div key={index} className="rounded-md border border-border p-3 text-sm space-y-1">
+                      <p className="text-xs text-muted-foreground">
+                        {analysis.groupIds.map(groupTitle).join(" vs ")}
+                        {analysis.method && <> · {analysis.method}</>}
+                        {analysis.nonInferiorityType && <> · {formatResultEnum(analysis.nonInferiorityType)}</>}
+                      </p>
+                      {(estimate || pValue) && (
+                        <p className="font-medium">
+                          {[estimate, pValue].filter(Boolean).join(", ")}
+                        </p>
+                      )}
+                      {analysis.comment && <p className="text-xs text-muted-foreground">{analysis.comment}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ResultsTab({ nctId, results, resultsFirstPostDate }: ResultsTabProps) {
+  if (!results) {
+    return <p className="text-sm text-muted-foreground py-4">No results have been posted on ClinicalTrials.gov for this trial.</p>;
+  }
+
+  const { participantFlow, baseline, outcomeMeasures } = results;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span>{resultsFirstPostDate && <>Results first posted {resultsFirstPostDate}</>}</span>
+        <a
+          href={`https://clinicaltrials.gov/study/${nctId}?tab=results`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-primary hover:underline"
+        >
+          View on ClinicalTrials.gov
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      </div>
+
+      {participantFlow && participantFlow.periods.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <GitBranch className="h-5 w-5 text-primary" />
+              Participant Flow
+            </CardTitle>
+            {participantFlow.recruitmentDetails && (
+              <p className="text-xs text-muted-foreground">{participantFlow.recruitmentDetails}</p>
+            )}
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <GroupHeader groups={participantFlow.groups} label="Milestone" />
+              <TableBody>
+                {participantFlow.periods.map((period, p) => (
+                  <Fragment key={p}>
+                    {participantFlow.periods.length > 1 && (
+                      <TableRow>
+                        <TableCell colSpan={participantFlow.groups.length + 1} className="font-semibold bg-muted/40">
+                          {period.title}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {period.milestones.map((milestone, i) => (
+                      <CountRow key={`m-${i}`} label={formatResultEnum(milestone.type)} groups={participantFlow.groups} counts={milestone.counts} />
+                    ))}
+                    {period.dropWithdraws.map((reason, i) => (
+                      <CountRow key={`d-${i}`} label={reason.type} groups={participantFlow.groups} counts={reason.counts} muted />
+                    ))}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {baseline && baseline.measures.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Users className="h-5 w-5 text-primary" />
+              Baseline Characteristics
+            </CardTitle>
+            {baseline.populationDescription && (
+              <p className="text-xs text-muted-foreground">{baseline.populationDescription}</p>
+            )}
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <GroupHeader groups={baseline.groups} label="Characteristic" />
+              <TableBody>
+                <CountRow label="Participants" groups={baseline.groups} counts={baseline.denoms} />
+                {baseline.measures.map((measure, index) => (
+                  <Fragment key={index}>
+                    <TableRow>
+                      <TableCell colSpan={baseline.groups.length + 1} className="font-medium bg-muted/40">
+                        {measure.title}
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">{describeMeasure(measure)}</span>
+                      </TableCell>
+                    </TableRow>
+                    <MeasureRows measure={measure} groups={baseline.groups} />
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {outcomeMeasures.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-base font-semibold flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-primary" />
+            Outcome Measures
+            <Badge variant="outline">{outcomeMeasures.length}</Badge>
+          </h3>
+          {outcomeMeasures.map((outcome, index) => (
+            <OutcomeCard key={index} outcome={outcome} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
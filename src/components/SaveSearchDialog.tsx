@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Bookmark } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { createSavedSearch, searchResultToSnapshot, searchTrials, SearchParams, SearchResult } from "@/lib/api";
+import { describeSearchParams } from "@/lib/searchUrl";
+import { useToast } from "@/hooks/use-toast";
+
+interface SaveSearchDialogProps {
+  params: SearchParams;
+  /** Results to snapshot; when omitted (e.g. from history) the search is run on save */
+  result?: SearchResult;
+}
+
+export function SaveSearchDialog({ params, result }: SaveSearchDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setName(describeSearchParams(params).slice(0, 120));
+    setOpen(next);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsSaving(true);
+
+    try {
+      const snapshotOf = result ?? await searchTrials(params);
+      await createSavedSearch(name.trim(), params, searchResultToSnapshot(snapshotOf));
+      setOpen(false);
+      toast({
+        title: "Search saved",
+        description: (
+          <span>
+            Find it under <Link to="/searches" className="underline">My searches</Link>.
+          </span>
+        ),
+      });
+    } catch (error) {
+      console.error('Save search error:', error);
+      toast({
+        variant: "destructive",
+        title: "Could not save search",
+        description: error instanceof Error ? error.message : "An error occurred while saving the search.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Bookmark className="h-4 w-4" />
+          Save search
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Save search</DialogTitle>
+            <DialogDescription>
+              {result
+                ? <>Stores the search parameters and a snapshot of the {result.trials.length} trials currently loaded, so a later re-run can show what changed.</>
+                : <>Runs the search now and stores its parameters and a snapshot of the trials returned, so a later re-run can show what changed.</>}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              maxLength={120}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
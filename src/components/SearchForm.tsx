@@ -1,10 +1,11 @@
-import { useState, useEffect, useRef } from "react";
+import { Fragment, useState, useEffect, useRef, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Search, Filter, ChevronDown, ChevronUp, Pill, Stethoscope, Layers } from "lucide-react";
+import { Search, Filter, ChevronDown, ChevronUp, Pill, Stethoscope, Layers, ListOrdered, Boxes, Braces } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
@@ -19,31 +20,85 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { SearchParams, SearchMode } from "@/lib/api";
+import { SearchParams, SearchMode, DrugClass, listDrugClasses } from "@/lib/api";
+import { DATE_RANGE_KEYS, MAX_BATCH_IDS, parseNctIdList } from "@/lib/searchUrl";
+import {
+  AGE_GROUPS,
+  ALLOCATIONS,
+  FilterOption,
+  INTERVENTION_TYPES,
+  MASKINGS,
+  SEXES,
+  SPONSOR_CLASSES,
+} from "@/lib/searchFilters";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { DrugClassesDialog } from "@/components/DrugClassesDialog";
+import { QueryBuilder } from "@/components/QueryBuilder";
+import { AutocompleteInput } from "@/components/AutocompleteInput";
+import { newQueryGroup, pruneQuery, QueryGroup } from "@/lib/queryBuilder";
+
+/** Date range filters shown besides "Last updated"; each applies to its own registry date field */
+const DATE_RANGES = [
+  { label: "Start date", from: "startFrom", to: "startTo" },
+  { label: "Primary completion", from: "primaryCompletionFrom", to: "primaryCompletionTo" },
+  { label: "Completion date", from: "completionFrom", to: "completionTo" },
+  { label: "First posted", from: "firstPostedFrom", to: "firstPostedTo" },
+] as const;
 
 // Schema with conditional validation
 const searchSchema = z.object({
   drug: z.string().max(200).optional(),
+  drugClass: z.string().max(200).optional(),
   condition: z.string().max(500).optional(),
   biomarker: z.string().max(200).optional(),
   studyType: z.string().optional(),
   minDate: z.string().optional(),
   maxDate: z.string().optional(),
+  startFrom: z.string().optional(),
+  startTo: z.string().optional(),
+  primaryCompletionFrom: z.string().optional(),
+  primaryCompletionTo: z.string().optional(),
+  completionFrom: z.string().optional(),
+  completionTo: z.string().optional(),
+  firstPostedFrom: z.string().optional(),
+  firstPostedTo: z.string().optional(),
+  country: z.string().max(100).optional(),
+  minEnrollment: z.string().regex(/^\d*$/, "Enter a whole number").optional(),
+  maxEnrollment: z.string().regex(/^\d*$/, "Enter a whole number").optional(),
+  allocation: z.string().optional(),
+  sex: z.string().optional(),
   maxResults: z.number().min(1).max(500).optional(),
+  // Mirrors the mode toggle; class and advanced searches need neither drug nor condition
+  searchMode: z.string().optional(),
 }).refine(
-  (data) => (data.drug && data.drug.trim().length > 0) || (data.condition && data.condition.trim().length > 0),
+  (data) => data.searchMode === "class" || data.searchMode === "advanced" || (data.drug && data.drug.trim().length > 0) || (data.condition && data.condition.trim().length > 0),
   {
     message: "At least one of Drug Name or Condition is required",
     path: ["drug"], // Show error on drug field
   }
-);
+).refine(
+  (data) => !data.minEnrollment || !data.maxEnrollment || parseInt(data.minEnrollment, 10) <= parseInt(data.maxEnrollment, 10),
+  {
+    message: "Maximum must be greater than or equal to minimum",
+    path: ["maxEnrollment"],
+  }
+).superRefine((data, ctx) => {
+  for (const range of DATE_RANGES) {
+    const from = data[range.from];
+    const to = data[range.to];
+    if (from && to && from > to) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "End date is before start date", path: [range.to] });
+    }
+  }
+});
 
 type SearchFormData = z.infer<typeof searchSchema>;
 
 interface SearchFormProps {
   onSearch: (params: SearchParams) => void;
   isLoading: boolean;
+  /** Pre-fills the form, e.g. from a shared search URL */
+  initialValues?: SearchParams | null;
 }
 
 const PHASES = [
@@ -64,11 +119,90 @@ const STATUSES = [
   { value: "suspended", label: "Suspended" },
 ];
 
-export function SearchForm({ onSearch, isLoading }: SearchFormProps) {
-  const [showFilters, setShowFilters] = useState(false);
-  const [selectedPhases, setSelectedPhases] = useState<string[]>([]);
-  const [selectedStatuses, setSelectedStatuses] = useState<string[]>([]);
-  const [searchMode, setSearchMode] = useState<SearchMode>("combined");
+/** Multi-select structured filters, kept in one state object */
+type MultiFilterKey = "sponsorClass" | "masking" | "interventionType" | "ageGroup";
+
+// Select has no empty item; this value stands for "no filter"
+const ANY = "any";
+// Max Results option for an exhaustive (streamed) search
+const ALL_RESULTS = "all";
+
+function hasAdvancedFilters(params?: SearchParams | null): boolean {
+  if (!params) return false;
+  return Boolean(
+    params.phase?.length ||
+    params.status?.length ||
+    params.studyType ||
+    params.minDate ||
+    params.maxDate ||
+    DATE_RANGE_KEYS.some((key) => params[key]) ||
+    params.sponsorClass?.length ||
+    params.country ||
+    params.minEnrollment !== undefined ||
+    params.maxEnrollment !== undefined ||
+    params.allocation ||
+    params.masking?.length ||
+    params.interventionType?.length ||
+    params.ageGroup?.length ||
+    params.sex ||
+    params.healthyVolunteers ||
+    params.hasResults ||
+    (params.maxResults && params.maxResults !== 50) ||
+    params.exhaustive
+  );
+}
+
+function CheckboxGroup({ label, options, selected, onToggle }: {
+  label: string;
+  options: FilterOption[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-medium">{label}</Label>
+      <div className="flex flex-wrap gap-3">
+        {options.map((option) => (
+          <label key={option.value} className="flex items-center gap-2 cursor-pointer">
+            <Checkbox
+              checked={selected.includes(option.value)}
+              onCheckedChange={() => onToggle(option.value)}
+            />
+            <span className="text-sm">{option.label}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function SearchForm({ onSearch, isLoading, initialValues }: SearchFormProps) {
+  const [showFilters, setShowFilters] = useState(() => hasAdvancedFilters(initialValues));
+  const [selectedPhases, setSelectedPhases] = useState<string[]>(initialValues?.phase || []);
+  const [selectedStatuses, setSelectedStatuses] = useState<string[]>(initialValues?.status || []);
+  const [searchMode, setSearchMode] = useState<SearchMode>(initialValues?.searchMode || "combined");
+  const [multiFilters, setMultiFilters] = useState<Record<MultiFilterKey, string[]>>({
+    sponsorClass: initialValues?.sponsorClass || [],
+    masking: initialValues?.masking || [],
+    interventionType: initialValues?.interventionType || [],
+    ageGroup: initialValues?.ageGroup || [],
+  });
+  const [healthyVolunteers, setHealthyVolunteers] = useState(initialValues?.healthyVolunteers || false);
+  const [hasResults, setHasResults] = useState(initialValues?.hasResults || false);
+  const [expandSynonyms, setExpandSynonyms] = useState(initialValues?.expandSynonyms !== false);
+  const [includeNarrower, setIncludeNarrower] = useState(initialValues?.includeNarrower || false);
+  const [exhaustive, setExhaustive] = useState(initialValues?.exhaustive || false);
+  const [idsText, setIdsText] = useState(initialValues?.nctIds?.join("\n") || "");
+  const [idsError, setIdsError] = useState<string | null>(null);
+  const [drugClasses, setDrugClasses] = useState<DrugClass[] | null>(null);
+  const [drugClassesError, setDrugClassesError] = useState<string | null>(null);
+  const [advancedQuery, setAdvancedQuery] = useState<QueryGroup>(() =>
+    initialValues?.advancedQuery?.type === "group" ? initialValues.advancedQuery
+      : initialValues?.advancedQuery ? { type: "group", op: "AND", children: [initialValues.advancedQuery] }
+      : newQueryGroup()
+  );
+  const [advancedError, setAdvancedError] = useState<string | null>(null);
+  const parsedIds = useMemo(() => parseNctIdList(idsText), [idsText]);
   
   const drugInputRef = useRef<HTMLInputElement>(null);
   const conditionInputRef = useRef<HTMLInputElement>(null);
@@ -80,10 +214,25 @@ export function SearchForm({ onSearch, isLoading }: SearchFormProps) {
     setValue,
     watch,
     trigger,
+    setError,
   } = useForm<SearchFormData>({
     resolver: zodResolver(searchSchema),
     defaultValues: {
-      maxResults: 50,
+      drug: initialValues?.drug || "",
+      drugClass: initialValues?.drugClass || "",
+      condition: initialValues?.condition || "",
+      biomarker: initialValues?.biomarker || "",
+      studyType: initialValues?.studyType,
+      minDate: initialValues?.minDate || "",
+      maxDate: initialValues?.maxDate || "",
+      ...Object.fromEntries(DATE_RANGE_KEYS.map((key) => [key, initialValues?.[key] || ""])),
+      country: initialValues?.country || "",
+      minEnrollment: initialValues?.minEnrollment?.toString() || "",
+      maxEnrollment: initialValues?.maxEnrollment?.toString() || "",
+      allocation: initialValues?.allocation,
+      sex: initialValues?.sex,
+      maxResults: initialValues?.maxResults || 50,
+      searchMode: initialValues?.searchMode || "combined",
     },
   });
 
@@ -96,21 +245,80 @@ export function SearchForm({ onSearch, isLoading }: SearchFormProps) {
     }
   }, [searchMode]);
 
+  // The class list is only needed once class mode is chosen
+  useEffect(() => {
+    if (searchMode !== "class" || drugClasses) return;
+    listDrugClasses()
+      .then(setDrugClasses)
+      .catch((error) => setDrugClassesError(error instanceof Error ? error.message : "Could not load drug classes"));
+  }, [searchMode, drugClasses]);
+
   const onSubmit = (data: SearchFormData) => {
+    const selected = (key: MultiFilterKey) => (multiFilters[key].length > 0 ? multiFilters[key] : undefined);
+    const chosen = (value?: string) => (value && value !== ANY ? value : undefined);
+    const isClassSearch = searchMode === "class";
+    if (isClassSearch && !data.drugClass) {
+      setError("drugClass", { message: "Choose a drug class" });
+      return;
+    }
+    // The query tree replaces the drug, condition and biomarker inputs
+    const isAdvancedSearch = searchMode === "advanced";
+    const query = isAdvancedSearch ? pruneQuery(advancedQuery) : null;
+    if (isAdvancedSearch && !query) {
+      setAdvancedError("Enter at least one term");
+      return;
+    }
+    const condition = isAdvancedSearch ? undefined : data.condition || undefined;
     onSearch({
-      drug: data.drug || undefined,
-      condition: data.condition || undefined,
-      biomarker: data.biomarker || undefined,
+      drug: isClassSearch || isAdvancedSearch ? undefined : data.drug || undefined,
+      drugClass: isClassSearch ? data.drugClass : undefined,
+      advancedQuery: query || undefined,
+      condition,
+      includeNarrower: condition && includeNarrower ? true : undefined,
+      biomarker: isAdvancedSearch ? undefined : data.biomarker || undefined,
       phase: selectedPhases.length > 0 ? selectedPhases : undefined,
       status: selectedStatuses.length > 0 ? selectedStatuses : undefined,
       studyType: data.studyType || undefined,
       minDate: data.minDate || undefined,
       maxDate: data.maxDate || undefined,
-      maxResults: data.maxResults,
+      ...Object.fromEntries(DATE_RANGE_KEYS.map((key) => [key, data[key] || undefined])),
+      sponsorClass: selected("sponsorClass"),
+      country: data.country?.trim() || undefined,
+      minEnrollment: data.minEnrollment ? parseInt(data.minEnrollment, 10) : undefined,
+      maxEnrollment: data.maxEnrollment ? parseInt(data.maxEnrollment, 10) : undefined,
+      allocation: chosen(data.allocation),
+      masking: selected("masking"),
+      interventionType: selected("interventionType"),
+      ageGroup: selected("ageGroup"),
+      sex: chosen(data.sex),
+      healthyVolunteers: healthyVolunteers || undefined,
+      hasResults: hasResults || undefined,
+      expandSynonyms: expandSynonyms || isClassSearch ? undefined : false,
+      maxResults: exhaustive ? undefined : data.maxResults,
+      exhaustive: exhaustive || undefined,
       searchMode,
     });
   };
 
+  // Batch lookup bypasses the drug/condition schema entirely
+  const handleIdsSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (parsedIds.invalid.length > 0) {
+      setIdsError(`Not valid NCT IDs: ${parsedIds.invalid.slice(0, 5).join(", ")}${parsedIds.invalid.length > 5 ? "…" : ""}`);
+      return;
+    }
+    if (parsedIds.ids.length === 0) {
+      setIdsError("Paste at least one NCT ID");
+      return;
+    }
+    if (parsedIds.ids.length > MAX_BATCH_IDS) {
+      setIdsError(`At most ${MAX_BATCH_IDS} NCT IDs per lookup`);
+      return;
+    }
+    setIdsError(null);
+    onSearch({ searchMode: "ids", nctIds: parsedIds.ids });
+  };
+
   const togglePhase = (phase: string) => {
     setSelectedPhases((prev) =>
       prev.includes(phase)
@@ -127,9 +335,18 @@ export function SearchForm({ onSearch, isLoading }: SearchFormProps) {
     );
   };
 
+  const toggleMultiFilter = (key: MultiFilterKey) => (value: string) => {
+    setMultiFilters((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter((v) => v !== value) : [...prev[key], value],
+    }));
+  };
+
   const handleModeChange = (value: string) => {
     if (value) {
       setSearchMode(value as SearchMode);
+      setValue("searchMode", value);
+      if (value !== "class") setValue("drugClass", "");
     }
   };
 
@@ -138,7 +355,7 @@ export function SearchForm({ onSearch, isLoading }: SearchFormProps) {
   const { ref: conditionRef, ...conditionRegister } = register("condition");
 
   return (
-    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+    <form onSubmit={searchMode === "ids" ? handleIdsSubmit : handleSubmit(onSubmit)} className="space-y-6">
       {/* Search Mode Toggle */}
       <div className="space-y-2">
         <Label className="text-sm font-medium">Search Mode</Label>
@@ -160,182 +377,466 @@ export function SearchForm({ onSearch, isLoading }: SearchFormProps) {
             <Layers className="h-4 w-4" />
             Combined
           </ToggleGroupItem>
+          <ToggleGroupItem value="ids" aria-label="Look up NCT IDs" className="gap-2">
+            <ListOrdered className="h-4 w-4" />
+            NCT IDs
+          </ToggleGroupItem>
+          <ToggleGroupItem value="class" aria-label="Search by drug class" className="gap-2">
+            <Boxes className="h-4 w-4" />
+            Drug Class
+          </ToggleGroupItem>
+          <ToggleGroupItem value="advanced" aria-label="Advanced query" className="gap-2">
+            <Braces className="h-4 w-4" />
+            Advanced
+          </ToggleGroupItem>
         </ToggleGroup>
         <p className="text-xs text-muted-foreground">
           {searchMode === "drug" && "Search by drug/intervention name. Condition is optional."}
           {searchMode === "condition" && "Search by disease/condition. Drug is optional."}
           {searchMode === "combined" && "Search using both drug and condition. At least one is required."}
+          {searchMode === "ids" && "Paste a list of NCT IDs (e.g. from an SLR) to load exactly those trials."}
+          {searchMode === "class" && "Search every drug in a class (with synonyms), e.g. all PD-1 inhibitors. Condition is optional."}
+          {searchMode === "advanced" && "Combine terms across fields with nested AND / OR / NOT groups. Filters below still apply."}
         </p>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {/* Drug Input */}
-        <div className="space-y-2">
-          <Label htmlFor="drug" className="text-sm font-medium">
-            Drug Name {searchMode === "drug" && <span className="text-destructive">*</span>}
-          </Label>
-          <Input
-            id="drug"
-            placeholder={searchMode === "condition" ? "Optional - e.g., Pembrolizumab" : "e.g., Pembrolizumab, Keytruda"}
-            {...drugRegister}
-            ref={(e) => {
-              drugRef(e);
-              (drugInputRef as any).current = e;
-            }}
-            className="h-11"
-          />
-          {errors.drug && (
-            <p className="text-sm text-destructive">{errors.drug.message}</p>
-          )}
-        </div>
-
-        {/* Indication Input */}
+      {searchMode === "ids" ? (
         <div className="space-y-2">
-          <Label htmlFor="condition" className="text-sm font-medium">
-            Indication / Condition {searchMode === "condition" && <span className="text-destructive">*</span>}
+          <Label htmlFor="nct-ids" className="text-sm font-medium">
+            NCT IDs <span className="text-destructive">*</span>
           </Label>
-          <Input
-            id="condition"
-            placeholder={searchMode === "drug" ? "Optional - e.g., NSCLC" : "e.g., Non-small cell lung cancer"}
-            {...conditionRegister}
-            ref={(e) => {
-              conditionRef(e);
-              (conditionInputRef as any).current = e;
+          <Textarea
+            id="nct-ids"
+            placeholder={"NCT01234567\nNCT07654321, NCT01111111"}
+            value={idsText}
+            onChange={(e) => {
+              setIdsText(e.target.value);
+              setIdsError(null);
             }}
-            className="h-11"
-          />
-        </div>
-
-        {/* Biomarker Input */}
-        <div className="space-y-2">
-          <Label htmlFor="biomarker" className="text-sm font-medium">
-            Biomarker / Subpopulation
-          </Label>
-          <Input
-            id="biomarker"
-            placeholder="e.g., PD-L1, EGFR mutation"
-            {...register("biomarker")}
-            className="h-11"
+            rows={6}
+            className="font-mono text-sm"
           />
-        </div>
-      </div>
-
-      {/* Filters Collapsible */}
-      <Collapsible open={showFilters} onOpenChange={setShowFilters}>
-        <CollapsibleTrigger asChild>
-          <Button
-            type="button"
-            variant="ghost"
-            className="flex items-center gap-2 text-muted-foreground hover:text-foreground"
-          >
-            <Filter className="h-4 w-4" />
-            Advanced Filters
-            {showFilters ? (
-              <ChevronUp className="h-4 w-4" />
-            ) : (
-              <ChevronDown className="h-4 w-4" />
+          <p className="text-xs text-muted-foreground">
+            One per line, or separated by commas, semicolons or spaces. Up to {MAX_BATCH_IDS} IDs.
+            {idsText.trim() && (
+              <>
+                {" "}Detected <strong>{parsedIds.ids.length}</strong> unique ID{parsedIds.ids.length !== 1 ? "s" : ""}
+                {parsedIds.invalid.length > 0 && <>, {parsedIds.invalid.length} invalid</>}.
+              </>
             )}
-          </Button>
-        </CollapsibleTrigger>
-        <CollapsibleContent className="mt-4 space-y-6 animate-slide-up">
-          <div className="rounded-lg border border-border bg-muted/30 p-4 space-y-6">
-            {/* Phase Selection */}
-            <div className="space-y-3">
-              <Label className="text-sm font-medium">Phase</Label>
-              <div className="flex flex-wrap gap-3">
-                {PHASES.map((phase) => (
-                  <label
-                    key={phase.value}
-                    className="flex items-center gap-2 cursor-pointer"
-                  >
-                    <Checkbox
-                      checked={selectedPhases.includes(phase.value)}
-                      onCheckedChange={() => togglePhase(phase.value)}
-                    />
-                    <span className="text-sm">{phase.label}</span>
-                  </label>
-                ))}
-              </div>
+          </p>
+          {idsError && <p className="text-sm text-destructive">{idsError}</p>}
+        </div>
+      ) : (
+        <>
+          {searchMode === "advanced" ? (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">
+                Query <span className="text-destructive">*</span>
+              </Label>
+              <QueryBuilder
+                value={advancedQuery}
+                onChange={(next) => {
+                  setAdvancedQuery(next);
+                  setAdvancedError(null);
+                }}
+              />
+              {advancedError && <p className="text-sm text-destructive">{advancedError}</p>}
             </div>
-
-            {/* Status Selection */}
-            <div className="space-y-3">
-              <Label className="text-sm font-medium">Recruitment Status</Label>
-              <div className="flex flex-wrap gap-3">
-                {STATUSES.map((status) => (
-                  <label
-                    key={status.value}
-                    className="flex items-center gap-2 cursor-pointer"
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {searchMode === "class" ? (
+                /* Drug Class Select */
+                <div className="space-y-2">
+                  <Label htmlFor="drug-class" className="text-sm font-medium">
+                    Drug Class <span className="text-destructive">*</span>
+                  </Label>
+                  <Select
+                    value={watch("drugClass") || undefined}
+                    onValueChange={(value) => {
+                      setValue("drugClass", value);
+                      trigger("drugClass");
+                    }}
+                    disabled={!drugClasses}
                   >
+                    <SelectTrigger id="drug-class" className="h-11">
+                      <SelectValue placeholder={drugClasses ? "Choose a class" : "Loading classes..."} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {drugClasses?.map((c) => (
+                        <SelectItem key={c.key} value={c.name}>
+                          {c.name}
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {c.atcCode ? `${c.atcCode} · ` : ""}{c.members.length} drug{c.members.length !== 1 ? "s" : ""}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {errors.drugClass && (
+                    <p className="text-sm text-destructive">{errors.drugClass.message}</p>
+                  )}
+                  {drugClassesError && (
+                    <p className="text-sm text-destructive">{drugClassesError}</p>
+                  )}
+                  {drugClasses && (
+                    <DrugClassesDialog
+                      classes={drugClasses}
+                      selectedClass={watch("drugClass")}
+                      onClassesChange={setDrugClasses}
+                      onClassCreated={(name) => setValue("drugClass", name)}
+                    />
+                  )}
+                </div>
+              ) : (
+                /* Drug Input */
+                <div className="space-y-2">
+                  <Label htmlFor="drug" className="text-sm font-medium">
+                    Drug Name {searchMode === "drug" && <span className="text-destructive">*</span>}
+                  </Label>
+                  <AutocompleteInput
+                    id="drug"
+                    suggestField="drug"
+                    onSuggestionSelect={(term) => setValue("drug", term, { shouldValidate: true })}
+                    placeholder={searchMode === "condition" ? "Optional - e.g., Pembrolizumab" : "e.g., Pembrolizumab, Keytruda"}
+                    {...drugRegister}
+                    ref={(e) => {
+                      drugRef(e);
+                      (drugInputRef as any).current = e;
+                    }}
+                    className="h-11"
+                  />
+                  {errors.drug && (
+                    <p className="text-sm text-destructive">{errors.drug.message}</p>
+                  )}
+                  <label className="flex items-center gap-2 cursor-pointer">
                     <Checkbox
-                      checked={selectedStatuses.includes(status.value)}
-                      onCheckedChange={() => toggleStatus(status.value)}
+                      checked={expandSynonyms}
+                      onCheckedChange={(checked) => setExpandSynonyms(checked === true)}
                     />
-                    <span className="text-sm">{status.label}</span>
+                    <span className="text-xs text-muted-foreground">Include brand names and code names (e.g. MK-3475)</span>
                   </label>
-                ))}
-              </div>
-            </div>
-
-            <div className="grid gap-4 md:grid-cols-3">
-              {/* Study Type */}
-              <div className="space-y-2">
-                <Label className="text-sm font-medium">Study Type</Label>
-                <Select onValueChange={(value) => setValue("studyType", value)}>
-                  <SelectTrigger className="h-10">
-                    <SelectValue placeholder="All types" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="INTERVENTIONAL">Interventional</SelectItem>
-                    <SelectItem value="OBSERVATIONAL">Observational</SelectItem>
-                    <SelectItem value="EXPANDED_ACCESS">Expanded Access</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                </div>
+              )}
 
-              {/* Date Range */}
+              {/* Indication Input */}
               <div className="space-y-2">
-                <Label className="text-sm font-medium">Last Updated After</Label>
-                <Input
-                  type="date"
-                  {...register("minDate")}
-                  className="h-10"
+                <Label htmlFor="condition" className="text-sm font-medium">
+                  Indication / Condition {searchMode === "condition" && <span className="text-destructive">*</span>}
+                </Label>
+                <AutocompleteInput
+                  id="condition"
+                  suggestField="condition"
+                  onSuggestionSelect={(term) => setValue("condition", term, { shouldValidate: true })}
+                  placeholder={searchMode === "drug" ? "Optional - e.g., NSCLC" : "e.g., Non-small cell lung cancer"}
+                  {...conditionRegister}
+                  ref={(e) => {
+                    conditionRef(e);
+                    (conditionInputRef as any).current = e;
+                  }}
+                  className="h-11"
                 />
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <Checkbox
+                    checked={includeNarrower}
+                    onCheckedChange={(checked) => setIncludeNarrower(checked === true)}
+                  />
+                  <span className="text-xs text-muted-foreground">Include narrower MeSH terms (e.g. subtypes)</span>
+                </label>
               </div>
 
+              {/* Biomarker Input */}
               <div className="space-y-2">
-                <Label className="text-sm font-medium">Last Updated Before</Label>
+                <Label htmlFor="biomarker" className="text-sm font-medium">
+                  Biomarker / Subpopulation
+                </Label>
                 <Input
-                  type="date"
-                  {...register("maxDate")}
-                  className="h-10"
+                  id="biomarker"
+                  placeholder="e.g., PD-L1, EGFR mutation"
+                  {...register("biomarker")}
+                  className="h-11"
                 />
               </div>
             </div>
+          )}
 
-            {/* Max Results */}
-            <div className="max-w-xs space-y-2">
-              <Label className="text-sm font-medium">Max Results</Label>
-              <Select
-                defaultValue="50"
-                onValueChange={(value) => setValue("maxResults", parseInt(value))}
+          {/* Filters Collapsible */}
+          <Collapsible open={showFilters} onOpenChange={setShowFilters}>
+            <CollapsibleTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                className="flex items-center gap-2 text-muted-foreground hover:text-foreground"
               >
-                <SelectTrigger className="h-10">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="10">10</SelectItem>
-                  <SelectItem value="25">25</SelectItem>
-                  <SelectItem value="50">50</SelectItem>
-                  <SelectItem value="100">100</SelectItem>
-                  <SelectItem value="200">200</SelectItem>
-                  <SelectItem value="500">500</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-        </CollapsibleContent>
-      </Collapsible>
+                <Filter className="h-4 w-4" />
+                Advanced Filters
+                {showFilters ? (
+                  <ChevronUp className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="mt-4 space-y-6 animate-slide-up">
+              <div className="rounded-lg border border-border bg-muted/30 p-4 space-y-6">
+                {/* Phase Selection */}
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Phase</Label>
+                  <div className="flex flex-wrap gap-3">
+                    {PHASES.map((phase) => (
+                      <label
+                        key={phase.value}
+                        className="flex items-center gap-2 cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={selectedPhases.includes(phase.value)}
+                          onCheckedChange={() => togglePhase(phase.value)}
+                        />
+                        <span className="text-sm">{phase.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Status Selection */}
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Recruitment Status</Label>
+                  <div className="flex flex-wrap gap-3">
+                    {STATUSES.map((status) => (
+                      <label
+                        key={status.value}
+                        className="flex items-center gap-2 cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={selectedStatuses.includes(status.value)}
+                          onCheckedChange={() => toggleStatus(status.value)}
+                        />
+                        <span className="text-sm">{status.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-3">
+                  {/* Study Type */}
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Study Type</Label>
+                    <Select
+                      defaultValue={initialValues?.studyType}
+                      onValueChange={(value) => setValue("studyType", value)}
+                    >
+                      <SelectTrigger className="h-10">
+                        <SelectValue placeholder="All types" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="INTERVENTIONAL">Interventional</SelectItem>
+                        <SelectItem value="OBSERVATIONAL">Observational</SelectItem>
+                        <SelectItem value="EXPANDED_ACCESS">Expanded Access</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Date Range */}
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Last Updated After</Label>
+                    <Input
+                      type="date"
+                      {...register("minDate")}
+                      className="h-10"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Last Updated Before</Label>
+                    <Input
+                      type="date"
+                      {...register("maxDate")}
+                      className="h-10"
+                    />
+                  </div>
+                </div>
+
+                {/* Date ranges on other registry dates */}
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Date Ranges</Label>
+                  <div className="grid gap-x-4 gap-y-2 grid-cols-[auto_1fr_1fr] items-center max-w-2xl">
+                    <span />
+                    <span className="text-xs text-muted-foreground">From</span>
+                    <span className="text-xs text-muted-foreground">To</span>
+                    {DATE_RANGES.map((range) => (
+                      <Fragment key={range.from}>
+                        <span className="text-sm">{range.label}</span>
+                        <Input type="date" aria-label={`${range.label} from`} {...register(range.from)} className="h-10" />
+                        <div>
+                          <Input type="date" aria-label={`${range.label} to`} {...register(range.to)} className="h-10" />
+                          {errors[range.to] && (
+                            <p className="text-xs text-destructive mt-1">{errors[range.to]?.message}</p>
+                          )}
+                        </div>
+                      </Fragment>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Trials with a missing date are excluded when that range is set. "Last Updated" above filters on the
+                    last update posted date only.
+                  </p>
+                </div>
+
+                {/* Sponsor, design and population */}
+                <CheckboxGroup
+                  label="Sponsor Class"
+                  options={SPONSOR_CLASSES}
+                  selected={multiFilters.sponsorClass}
+                  onToggle={toggleMultiFilter("sponsorClass")}
+                />
+                <CheckboxGroup
+                  label="Intervention Type"
+                  options={INTERVENTION_TYPES}
+                  selected={multiFilters.interventionType}
+                  onToggle={toggleMultiFilter("interventionType")}
+                />
+                <CheckboxGroup
+                  label="Masking"
+                  options={MASKINGS}
+                  selected={multiFilters.masking}
+                  onToggle={toggleMultiFilter("masking")}
+                />
+                <CheckboxGroup
+                  label="Age Group"
+                  options={AGE_GROUPS}
+                  selected={multiFilters.ageGroup}
+                  onToggle={toggleMultiFilter("ageGroup")}
+                />
+
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Allocation</Label>
+                    <Select
+                      defaultValue={initialValues?.allocation || ANY}
+                      onValueChange={(value) => setValue("allocation", value)}
+                    >
+                      <SelectTrigger className="h-10">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any allocation</SelectItem>
+                        {ALLOCATIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Sex</Label>
+                    <Select
+                      defaultValue={initialValues?.sex || ANY}
+                      onValueChange={(value) => setValue("sex", value)}
+                    >
+                      <SelectTrigger className="h-10">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any sex</SelectItem>
+                        {SEXES.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="country" className="text-sm font-medium">Location Country</Label>
+                    <Input
+                      id="country"
+                      placeholder="e.g., Spain"
+                      {...register("country")}
+                      className="h-10"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="minEnrollment" className="text-sm font-medium">Min Enrollment</Label>
+                    <Input
+                      id="minEnrollment"
+                      inputMode="numeric"
+                      placeholder="e.g., 100"
+                      {...register("minEnrollment")}
+                      className="h-10"
+                    />
+                    {errors.minEnrollment && (
+                      <p className="text-sm text-destructive">{errors.minEnrollment.message}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="maxEnrollment" className="text-sm font-medium">Max Enrollment</Label>
+                    <Input
+                      id="maxEnrollment"
+                      inputMode="numeric"
+                      placeholder="e.g., 1000"
+                      {...register("maxEnrollment")}
+                      className="h-10"
+                    />
+                    {errors.maxEnrollment && (
+                      <p className="text-sm text-destructive">{errors.maxEnrollment.message}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-3 md:pt-8">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <Checkbox
+                        checked={healthyVolunteers}
+                        onCheckedChange={(checked) => setHealthyVolunteers(checked === true)}
+                      />
+                      <span className="text-sm">Accepts healthy volunteers</span>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <Checkbox
+                        checked={hasResults}
+                        onCheckedChange={(checked) => setHasResults(checked === true)}
+                      />
+                      <span className="text-sm">Has posted results</span>
+                    </label>
+                  </div>
+                </div>
+
+                {/* Max Results */}
+                <div className="max-w-xs space-y-2">
+                  <Label className="text-sm font-medium">Max Results</Label>
+                  <Select
+                    defaultValue={initialValues?.exhaustive ? ALL_RESULTS : String(initialValues?.maxResults || 50)}
+                    onValueChange={(value) => {
+                      setExhaustive(value === ALL_RESULTS);
+                      if (value !== ALL_RESULTS) setValue("maxResults", parseInt(value));
+                    }}
+                  >
+                    <SelectTrigger className="h-10">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="10">10</SelectItem>
+                      <SelectItem value="25">25</SelectItem>
+                      <SelectItem value="50">50</SelectItem>
+                      <SelectItem value="100">100</SelectItem>
+                      <SelectItem value="200">200</SelectItem>
+                      <SelectItem value="500">500</SelectItem>
+                      <SelectItem value={ALL_RESULTS}>All matches (streamed)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {exhaustive && (
+                    <p className="text-xs text-muted-foreground">
+                      Retrieves every matching trial (up to 10,000); results appear as they load.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        </>
+      )}
 
       {/* Search Button */}
       <Button
@@ -352,7 +853,7 @@ export function SearchForm({ onSearch, isLoading }: SearchFormProps) {
         ) : (
           <span className="flex items-center gap-2">
             <Search className="h-5 w-5" />
-            Search Trials
+            {searchMode === "ids" ? "Look Up Trials" : "Search Trials"}
           </span>
         )}
       </Button>
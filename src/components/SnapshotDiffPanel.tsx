@@ -0,0 +1,145 @@
+import { Link } from "react-router-dom";
+import { AlertTriangle, FileJson, FileSpreadsheet, GitCompare, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { exportToCSV, exportToJSON } from "@/lib/api";
+import { SnapshotDiff, TrialSnapshot, diffToChangeLog, hasChanges } from "@/lib/snapshotDiff";
+
+interface SnapshotDiffPanelProps {
+  diff: SnapshotDiff;
+  onDismiss: () => void;
+}
+
+function TrialLine({ trial }: { trial: Pick<TrialSnapshot, "nctId" | "briefTitle"> }) {
+  return (
+    <div className="flex items-baseline gap-3 min-w-0">
+      <Link to={`/trial/${trial.nctId}`} className="font-mono text-xs text-primary hover:underline shrink-0">
+        {trial.nctId}
+      </Link>
+      <span className="text-sm truncate" title={trial.briefTitle}>{trial.briefTitle}</span>
+    </div>
+  );
+}
+
+function EmptyTab({ children }: { children: string }) {
+  return <p className="text-sm text-muted-foreground py-4 text-center">{children}</p>;
+}
+
+export function SnapshotDiffPanel({ diff, onDismiss }: SnapshotDiffPanelProps) {
+  const previousDate = new Date(diff.previousRunAt).toLocaleString();
+  const fileDate = new Date(diff.currentRunAt).toISOString().split("T")[0];
+
+  const handleExportCSV = () => {
+    exportToCSV(diffToChangeLog(diff), `search_changes_${fileDate}`);
+  };
+
+  const handleExportJSON = () => {
+    exportToJSON({ ...diff, changeLog: diffToChangeLog(diff) }, `search_changes_${fileDate}`);
+  };
+
+  return (
+    <Card className="border-primary/30">
+      <CardHeader className="pb-3">
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+          <div className="space-y-1">
+            <CardTitle className="text-base flex items-center gap-2">
+              <GitCompare className="h-4 w-4 text-primary" />
+              Changes since last run
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">Compared with the snapshot from {previousDate}</p>
+          </div>
+          <div className="flex flex-wrap gap-2 items-center">
+            <Button variant="outline" size="sm" onClick={handleExportCSV} disabled={!hasChanges(diff)}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Change log CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportJSON}>
+              <FileJson className="h-4 w-4 mr-2" />
+              JSON
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onDismiss} aria-label="Dismiss changes">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <Badge variant="outline" className="border-green-500/40 text-green-700 dark:text-green-400">
+            +{diff.added.length} new
+          </Badge>
+          <Badge variant="outline" className="border-destructive/40 text-destructive">
+            −{diff.removed.length} no longer listed
+          </Badge>
+          <Badge variant="outline" className="border-amber-500/40 text-amber-700 dark:text-amber-400">
+            {diff.changed.length} changed
+          </Badge>
+          <Badge variant="outline">{diff.unchangedCount} unchanged</Badge>
+        </div>
+        {diff.partial && (
+          <p className="flex items-start gap-2 text-xs text-muted-foreground pt-2">
+            <AlertTriangle className="h-3.5 w-3.5 text-amber-500 mt-0.5 shrink-0" />
+            Not every matching trial was loaded in one of the runs, so "no longer listed" may include trials that
+            are still registered but fell outside the loaded pages.
+          </p>
+        )}
+      </CardHeader>
+
+      {hasChanges(diff) ? (
+        <CardContent>
+          <Tabs defaultValue={diff.changed.length > 0 ? "changed" : diff.added.length > 0 ? "added" : "removed"}>
+            <TabsList>
+              <TabsTrigger value="changed">Changed ({diff.changed.length})</TabsTrigger>
+              <TabsTrigger value="added">New ({diff.added.length})</TabsTrigger>
+              <TabsTrigger value="removed">No longer listed ({diff.removed.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="changed" className="max-h-80 overflow-y-auto space-y-3">
+              {diff.changed.length === 0 ? (
+                <EmptyTab>No tracked field changed.</EmptyTab>
+              ) : (
+                diff.changed.map((trial) => (
+                  <div key={trial.nctId} className="rounded-md border border-border p-3 space-y-2">
+                    <TrialLine trial={trial} />
+                    <ul className="space-y-1 text-xs">
+                      {trial.changes.map((change) => (
+                        <li key={change.field} className="grid grid-cols-[120px_minmax(0,1fr)] gap-2">
+                          <span className="text-muted-foreground">{change.label}</span>
+                          <span className="break-words">
+                            <span className="line-through text-muted-foreground">{change.before || "—"}</span>
+                            {" → "}
+                            <span className="font-medium">{change.after || "—"}</span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))
+              )}
+            </TabsContent>
+
+            <TabsContent value="added" className="max-h-80 overflow-y-auto space-y-2">
+              {diff.added.length === 0 ? (
+                <EmptyTab>No new trials.</EmptyTab>
+              ) : (
+                diff.added.map((trial) => <TrialLine key={trial.nctId} trial={trial} />)
+              )}
+            </TabsContent>
+
+            <TabsContent value="removed" className="max-h-80 overflow-y-auto space-y-2">
+              {diff.removed.length === 0 ? (
+                <EmptyTab>Every previously listed trial is still in the results.</EmptyTab>
+              ) : (
+                diff.removed.map((trial) => <TrialLine key={trial.nctId} trial={trial} />)
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      ) : (
+        <CardContent>
+          <p className="text-sm text-muted-foreground">No changes since the last run.</p>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -2,8 +2,11 @@ import { ExternalLink, Calendar, Users, Building2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Trial } from "@/lib/api";
-import { Link } from "react-router-dom";
+import { useSelectionBasket } from "@/hooks/use-selection-basket";
+import { Link, useLocation } from "react-router-dom";
+import { SearchLinkState } from "@/lib/searchUrl";
 
 interface TrialCardProps {
   trial: Trial;
@@ -61,8 +64,13 @@ function formatDate(dateString: string): string {
 }
 
 export function TrialCard({ trial, highlightCondition = false }: TrialCardProps) {
+  const { isSelected, toggleTrial } = useSelectionBasket();
+  const location = useLocation();
+  const selected = isSelected(trial.nctId);
+  const linkState: SearchLinkState = { fromSearch: location.search };
+
   return (
-    <Card className="glass-card transition-all duration-200 hover:shadow-lg hover:border-accent/30 animate-fade-in">
+    <Card className={`glass-card transition-all duration-200 hover:shadow-lg hover:border-accent/30 animate-fade-in ${selected ? 'ring-2 ring-primary/40' : ''}`}>
       <CardHeader className="pb-3">
         <div className="flex flex-wrap items-start justify-between gap-3">
           <div className="flex flex-wrap gap-2">
@@ -73,15 +81,23 @@ export function TrialCard({ trial, highlightCondition = false }: TrialCardProps)
               {trial.overallStatus.replace(/_/g, ' ')}
             </Badge>
           </div>
-          <a
-            href={`https://clinicaltrials.gov/study/${trial.nctId}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-sm font-mono text-accent hover:underline flex items-center gap-1"
-          >
-            {trial.nctId}
-            <ExternalLink className="h-3 w-3" />
-          </a>
+          <div className="flex items-center gap-3">
+            <a
+              href={`https://clinicaltrials.gov/study/${trial.nctId}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm font-mono text-accent hover:underline flex items-center gap-1"
+            >
+              {trial.nctId}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+            <Checkbox
+              checked={selected}
+              onCheckedChange={() => toggleTrial(trial)}
+              aria-label={`Select ${trial.nctId}`}
+              title={selected ? 'Remove from selection' : 'Add to selection'}
+            />
+          </div>
         </div>
         <h3 className="text-lg font-semibold leading-tight mt-2 line-clamp-2">
           {trial.briefTitle}
@@ -139,7 +155,7 @@ export function TrialCard({ trial, highlightCondition = false }: TrialCardProps)
         )}
 
         {/* Action */}
-        <Link to={`/trial/${trial.nctId}`}>
+        <Link to={`/trial/${trial.nctId}`} state={linkState}>
           <Button variant="outline" className="w-full mt-2">
             View Comparators & Endpoints
           </Button>
@@ -1,10 +1,32 @@
-import { Download, FileJson, FileSpreadsheet, Pill, Stethoscope, Layers, ChevronDown } from "lucide-react";
+import { ReactNode, useMemo, useState } from "react";
+import { Download, FileJson, FileSpreadsheet, Pill, Stethoscope, Layers, ListOrdered, Boxes, Braces, ChevronDown, ListPlus, LayoutGrid, Table2, UserCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { TrialCard } from "@/components/TrialCard";
-import { Trial, TraceInfo, SearchMode, exportToCSV, exportToJSON } from "@/lib/api";
+import { TrialTable } from "@/components/TrialTable";
+import { EligibilityMatrix } from "@/components/EligibilityMatrix";
+import { Trial, TraceInfo, SearchMode, exportToCSV, exportToJSON, generatePicoSummary, trialsToCsvRows } from "@/lib/api";
+import { analyzePico, DEFAULT_PICO_THRESHOLDS, PicoThresholds } from "@/lib/picoAnalysis";
 import { ExternalAIAnalysisDrawer } from "@/components/ExternalAIAnalysisDrawer";
 import { ConditionOnlySummary } from "@/components/ConditionOnlySummary";
+import { DrugClassGroups } from "@/components/DrugClassGroups";
+import { PicoQuickReading } from "@/components/PicoQuickReading";
+import { PicoSensitivityPanel } from "@/components/PicoSensitivityPanel";
+import { FacetSidebar } from "@/components/FacetSidebar";
+import { FacetSelection, applyFacets, computeFacets, isSelectionEmpty } from "@/lib/facets";
+import { useSelectionBasket } from "@/hooks/use-selection-basket";
+import { useLocalStorageState } from "@/hooks/use-local-storage";
+import { describeQuery, isQueryNode } from "@/lib/queryBuilder";
+
+type ResultsView = 'cards' | 'table' | 'eligibility';
+
+const isResultsView = (value: unknown): value is ResultsView =>
+  value === 'cards' || value === 'table' || value === 'eligibility';
+
+// Cards are not virtualized: exhaustive searches can load thousands of
+// trials, so the grid renders a page at a time and the entry stagger is capped
+const CARD_PAGE_SIZE = 60;
+const MAX_STAGGERED_CARDS = 12;
 
 interface TrialResultsListProps {
   trials: Trial[];
@@ -13,6 +35,8 @@ interface TrialResultsListProps {
   nextPageToken?: string | null;
   onLoadMore?: () => void;
   isLoadingMore?: boolean;
+  /** Extra buttons rendered before the export actions (e.g. "Save search") */
+  actions?: ReactNode;
 }
 
 function getSearchModeBadge(searchMode?: SearchMode) {
@@ -31,6 +55,27 @@ function getSearchModeBadge(searchMode?: SearchMode) {
           Condition Search
         </Badge>
       );
+    case "ids":
+      return (
+        <Badge variant="outline" className="gap-1.5">
+          <ListOrdered className="h-3 w-3" />
+          NCT ID List
+        </Badge>
+      );
+    case "class":
+      return (
+        <Badge variant="outline" className="gap-1.5">
+          <Boxes className="h-3 w-3" />
+          Drug Class Search
+        </Badge>
+      );
+    case "advanced":
+      return (
+        <Badge variant="outline" className="gap-1.5">
+          <Braces className="h-3 w-3" />
+          Advanced Query
+        </Badge>
+      );
     case "combined":
     default:
       return (
@@ -42,23 +87,59 @@ function getSearchModeBadge(searchMode?: SearchMode) {
   }
 }
 
-export function TrialResultsList({ trials, totalCount, trace, nextPageToken, onLoadMore, isLoadingMore }: TrialResultsListProps) {
+export function TrialResultsList({ trials, totalCount, trace, nextPageToken, onLoadMore, isLoadingMore, actions }: TrialResultsListProps) {
   const searchMode = trace.searchMode || (trace.query?.searchMode as SearchMode) || "combined";
   const isConditionOnly = searchMode === "condition" && !trace.query?.drug;
+  const drugSynonyms: string[] = Array.isArray(trace.query?.drugSynonyms) ? trace.query.drugSynonyms : [];
+  const drugClassMembers: string[] = Array.isArray(trace.query?.drugClassMembers) ? trace.query.drugClassMembers : [];
+  const isClassSearch = searchMode === "class" && !!trace.query?.drugClass;
+
+  // Client-side refinement of the loaded trials; everything below the facet
+  // sidebar (PICO, exports, AI payload, list) works on the refined set
+  const [facetSelection, setFacetSelection] = useState<FacetSelection>({});
+  const facets = useMemo(() => computeFacets(trials, facetSelection), [trials, facetSelection]);
+  const refinedTrials = useMemo(() => applyFacets(trials, facetSelection), [trials, facetSelection]);
+  const isRefined = !isSelectionEmpty(facetSelection);
+
+  // Landscape-level PICO reading over the refined trials (recomputed as
+  // "Load more" pages are appended)
+  const [picoThresholds, setPicoThresholds] = useState<PicoThresholds>(DEFAULT_PICO_THRESHOLDS);
+  const picoAnalysis = useMemo(() => analyzePico(refinedTrials, picoThresholds), [refinedTrials, picoThresholds]);
+
+  const handleGenerateNarrative = async (mode: 'basic' | 'advanced'): Promise<string> => {
+    const result = await generatePicoSummary({
+      mode,
+      analysis: picoAnalysis,
+      drugName: trace.query?.drug || undefined,
+      indication: trace.query?.condition || undefined,
+    });
+    return result.summaryText;
+  };
+
+  // Exports and external AI analysis act on either the loaded results or the
+  // persistent selection basket (which may span several searches)
+  const basket = useSelectionBasket();
+  const [exportScope, setExportScope] = useState<'results' | 'selection'>('results');
+  const useSelection = exportScope === 'selection' && basket.count > 0;
+  const scopedTrials = useSelection ? basket.trials : refinedTrials;
+  const unselectedCount = refinedTrials.filter((t) => !basket.isSelected(t.nctId)).length;
+  const resultsTrace = isRefined ? { ...trace, refinement: facetSelection } : trace;
+
+  const [view, setView] = useLocalStorageState<ResultsView>('trial-compass:results-view', 'cards', isResultsView);
+  const [visibleCards, setVisibleCards] = useState(CARD_PAGE_SIZE);
+  const cardTrials = refinedTrials.slice(0, visibleCards);
 
   const handleExportCSV = () => {
-    const data = trials.map((trial) => ({
-      NCT_ID: trial.nctId,
-      Title: trial.briefTitle,
-      Phase: trial.phase,
-      Status: trial.overallStatus,
-      Sponsor: trial.leadSponsor,
-      Conditions: trial.conditions?.join('; ') || '',
-      Last_Updated: trial.lastUpdatePostDate,
-      Enrollment: trial.enrollmentCount || '',
-      Study_Type: trial.studyType || '',
+    if (useSelection) {
+      exportToCSV(trialsToCsvRows(scopedTrials), `trials_selection_${new Date().toISOString().split('T')[0]}`);
+      return;
+    }
+    const data = trialsToCsvRows(refinedTrials).map((row, i) => ({
+      ...row,
+      ...(isClassSearch && { Matched_Class_Drugs: (refinedTrials[i].matchedDrugs || []).join('; ') }),
       Search_Mode: searchMode,
       Query_Drug: trace.query?.drug || '',
+      ...(isClassSearch && { Query_Drug_Class: trace.query?.drugClass }),
       Query_Condition: trace.query?.condition || '',
       Query_Biomarker: trace.query?.biomarker || '',
     }));
@@ -66,16 +147,22 @@ export function TrialResultsList({ trials, totalCount, trace, nextPageToken, onL
   };
 
   const handleExportJSON = () => {
-    exportToJSON(trials, `trials_search_${new Date().toISOString().split('T')[0]}`, trace);
+    if (useSelection) {
+      exportToJSON(scopedTrials, `trials_selection_${new Date().toISOString().split('T')[0]}`);
+      return;
+    }
+    exportToJSON(refinedTrials, `trials_search_${new Date().toISOString().split('T')[0]}`, resultsTrace);
   };
 
   const getJsonPayload = () => ({
-    data: trials,
-    trace: trace || {
-      timestamp: new Date().toISOString(),
-      dataSourceCalls: [],
-      searchMode
-    }
+    data: scopedTrials,
+    trace: useSelection
+      ? { timestamp: new Date().toISOString(), dataSourceCalls: [], source: 'selection_basket' }
+      : resultsTrace || {
+          timestamp: new Date().toISOString(),
+          dataSourceCalls: [],
+          searchMode
+        }
   });
 
   if (trials.length === 0) {
@@ -99,12 +186,51 @@ export function TrialResultsList({ trials, totalCount, trace, nextPageToken, onL
             {getSearchModeBadge(searchMode)}
           </div>
           <p className="text-sm text-muted-foreground">
-            Showing {trials.length} results
+            {isRefined
+              ? <>Showing {refinedTrials.length} of {trials.length} loaded results (refined)</>
+              : <>Showing {trials.length} results</>}
             {trace.query?.drug && <span> • Drug: <strong>{trace.query.drug}</strong></span>}
-            {trace.query?.condition && <span> • Condition: <strong>{trace.query.condition}</strong></span>}
+            {isQueryNode(trace.query?.advancedQuery) && <span> • Query: <strong>{describeQuery(trace.query.advancedQuery)}</strong></span>}
+            {isClassSearch && <span> • Class: <strong>{trace.query?.drugClass}</strong> ({drugClassMembers.length} drugs)</span>}
+            {trace.query?.condition && <span> • Condition: <strong>{trace.query.condition}</strong>{trace.query.includeNarrower && " (incl. narrower MeSH terms)"}</span>}
+            {Array.isArray(trace.query?.nctIds) && <span> • <strong>{trace.query.nctIds.length}</strong> IDs requested</span>}
           </p>
+          {drugSynonyms.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Also matched drug synonyms: {drugSynonyms.join(", ")}
+            </p>
+          )}
+          {trace.truncated && (
+            <p className="text-xs text-amber-600">
+              Retrieval stopped after {trials.length.toLocaleString()} of {totalCount.toLocaleString()} trials.
+            </p>
+          )}
         </div>
         <div className="flex flex-wrap gap-2 items-center">
+          {actions}
+          <div className="inline-flex rounded-lg border border-border p-1 bg-background">
+            <button
+              onClick={() => setExportScope('results')}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                !useSelection
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              Results ({refinedTrials.length})
+            </button>
+            <button
+              onClick={() => setExportScope('selection')}
+              disabled={basket.count === 0}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-50 ${
+                useSelection
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              Selection ({basket.count})
+            </button>
+          </div>
           <Button variant="outline" size="sm" onClick={handleExportCSV}>
             <FileSpreadsheet className="h-4 w-4 mr-2" />
             Export CSV
@@ -116,56 +242,161 @@ export function TrialResultsList({ trials, totalCount, trace, nextPageToken, onL
           <ExternalAIAnalysisDrawer 
             source="trial_json" 
             getPayload={getJsonPayload}
-            disabled={trials.length === 0}
+            disabled={scopedTrials.length === 0}
           />
         </div>
       </div>
 
-      {/* Condition-only summary panel */}
-      {isConditionOnly && trials.length > 0 && (
-        <ConditionOnlySummary trials={trials} />
-      )}
-
-      {/* Trial cards grid */}
-      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
-        {trials.map((trial, index) => (
-          <div
-            key={trial.nctId}
-            style={{ animationDelay: `${index * 50}ms` }}
-            className="animate-slide-up"
-          >
-            <TrialCard trial={trial} highlightCondition={isConditionOnly} />
+      <div className="grid gap-6 lg:grid-cols-[260px_minmax(0,1fr)] items-start">
+        <FacetSidebar facets={facets} selection={facetSelection} onSelectionChange={setFacetSelection} />
+
+        <div className="space-y-6 min-w-0">
+          {/* View toggle and selection shortcut */}
+          <div className="flex items-center justify-between gap-2">
+            <div className="inline-flex rounded-lg border border-border p-1 bg-background">
+              <button
+                onClick={() => setView('cards')}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors inline-flex items-center gap-1.5 ${
+                  view === 'cards'
+                    ? 'bg-primary text-primary-foreground'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <LayoutGrid className="h-3.5 w-3.5" />
+                Cards
+              </button>
+              <button
+                onClick={() => setView('table')}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors inline-flex items-center gap-1.5 ${
+                  view === 'table'
+                    ? 'bg-primary text-primary-foreground'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <Table2 className="h-3.5 w-3.5" />
+                Table
+              </button>
+              <button
+                onClick={() => setView('eligibility')}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors inline-flex items-center gap-1.5 ${
+                  view === 'eligibility'
+                    ? 'bg-primary text-primary-foreground'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <UserCheck className="h-3.5 w-3.5" />
+                Eligibility
+              </button>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => basket.addTrials(refinedTrials)}
+              disabled={unselectedCount === 0}
+              className="gap-2 text-muted-foreground"
+            >
+              <ListPlus className="h-4 w-4" />
+              Add all {refinedTrials.length} {isRefined ? 'refined' : 'loaded'} trials to selection
+            </Button>
           </div>
-        ))}
-      </div>
 
-      {/* Load more button */}
-      {nextPageToken && onLoadMore && (
-        <div className="flex flex-col items-center gap-2 py-6">
-          <p className="text-sm text-muted-foreground">
-            Showing {trials.length} of {totalCount.toLocaleString()} trials
-          </p>
-          <Button
-            variant="outline"
-            size="lg"
-            onClick={onLoadMore}
-            disabled={isLoadingMore}
-            className="min-w-[200px]"
-          >
-            {isLoadingMore ? (
-              <span className="flex items-center gap-2">
-                <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-                Loading more...
-              </span>
-            ) : (
-              <span className="flex items-center gap-2">
-                <ChevronDown className="h-4 w-4" />
-                Load more trials
-              </span>
-            )}
-          </Button>
+          {refinedTrials.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-lg text-muted-foreground">No loaded trials match the active filters.</p>
+              <Button variant="link" onClick={() => setFacetSelection({})}>Clear filters</Button>
+            </div>
+          ) : (
+            <>
+              {/* Landscape PICO quick reading */}
+              <PicoQuickReading
+                analysis={picoAnalysis}
+                onGenerateNarrative={handleGenerateNarrative}
+                showContributingTrials={true}
+              />
+              <PicoSensitivityPanel
+                trials={refinedTrials}
+                thresholds={picoThresholds}
+                onThresholdsChange={setPicoThresholds}
+              />
+
+              {/* Class search: results grouped by member drug */}
+              {isClassSearch && (
+                <DrugClassGroups trials={refinedTrials} drugClass={trace.query?.drugClass} members={drugClassMembers} />
+              )}
+
+              {/* Condition-only summary panel */}
+              {isConditionOnly && refinedTrials.length > 0 && (
+                <ConditionOnlySummary trials={refinedTrials} />
+              )}
+
+              {/* Trial results: virtualized table, eligibility matrix or card grid */}
+              {view === 'table' ? (
+                <TrialTable trials={refinedTrials} />
+              ) : view === 'eligibility' ? (
+                <EligibilityMatrix trials={refinedTrials} exportName="trials_search" />
+              ) : (
+                <>
+                  <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                    {cardTrials.map((trial, index) => (
+                      <div
+                        key={trial.nctId}
+                        style={{ animationDelay: `${Math.min(index % CARD_PAGE_SIZE, MAX_STAGGERED_CARDS) * 50}ms` }}
+                        className="animate-slide-up"
+                      >
+                        <TrialCard trial={trial} highlightCondition={isConditionOnly} />
+                      </div>
+                    ))}
+                  </div>
+                  {cardTrials.length < refinedTrials.length && (
+                    <div className="flex flex-col items-center gap-2">
+                      <p className="text-sm text-muted-foreground">
+                        Showing {cardTrials.length.toLocaleString()} of {refinedTrials.length.toLocaleString()} loaded trials as cards
+                      </p>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setVisibleCards((n) => n + CARD_PAGE_SIZE)}>
+                          Show {Math.min(CARD_PAGE_SIZE, refinedTrials.length - cardTrials.length)} more
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setView('table')} className="gap-1.5">
+                          <Table2 className="h-3.5 w-3.5" />
+                          View all in table
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </>
+          )}
+
+          {/* Load more button */}
+          {nextPageToken && onLoadMore && (
+            <div className="flex flex-col items-center gap-2 py-6">
+              <p className="text-sm text-muted-foreground">
+                Showing {trials.length} of {totalCount.toLocaleString()} trials
+              </p>
+              <Button
+                variant="outline"
+                size="lg"
+                onClick={onLoadMore}
+                disabled={isLoadingMore}
+                className="min-w-[200px]"
+              >
+                {isLoadingMore ? (
+                  <span className="flex items-center gap-2">
+                    <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                    Loading more...
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-2">
+                    <ChevronDown className="h-4 w-4" />
+                    Load more trials
+                  </span>
+                )}
+              </Button>
+            </div>
+          )}
         </div>
-      )}
+      </div>
 
       {/* Trace info footer */}
       <div className="text-xs text-muted-foreground border-t border-border pt-4 mt-8">
@@ -174,6 +405,18 @@ export function TrialResultsList({ trials, totalCount, trace, nextPageToken, onL
           Data source: {trace.dataSourceCalls.map((call) => call.source).join(', ')}
         </p>
         <p>Search mode: {searchMode}</p>
+        {trace.compiledQuery && (
+          <p className="break-all">
+            Compiled query: <code className="font-mono">{trace.compiledQuery}</code>
+          </p>
+        )}
+        {trace.dateFilters && trace.dateFilters.length > 0 && (
+          <p>
+            Date filters:{" "}
+            {trace.dateFilters.map((f) => `${f.field} ${f.from || "…"} – ${f.to || "…"}`).join("; ")}
+          </p>
+        )}
+        {trace.classifierVersion && <p>Endpoint/comparator classifier: v{trace.classifierVersion}</p>}
       </div>
     </div>
   );
@@ -0,0 +1,273 @@
+import { useMemo, useRef, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Trial } from "@/lib/api";
+import { useSelectionBasket } from "@/hooks/use-selection-basket";
+import { useLocalStorageState } from "@/hooks/use-local-storage";
+import { SearchLinkState } from "@/lib/searchUrl";
+
+interface TrialTableProps {
+  trials: Trial[];
+}
+
+type ColumnKey =
+  | "phase"
+  | "status"
+  | "sponsor"
+  | "enrollment"
+  | "startDate"
+  | "completionDate"
+  | "lastUpdate"
+  | "conditions";
+
+type SortKey = ColumnKey | "nctId" | "title";
+
+interface ColumnDef {
+  key: ColumnKey;
+  label: string;
+  width: string;
+  sortable: boolean;
+  render: (trial: Trial) => string;
+}
+
+const ROW_HEIGHT = 44;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN_ROWS = 8;
+
+const COLUMNS: ColumnDef[] = [
+  { key: "phase", label: "Phase", width: "110px", sortable: true, render: (t) => t.phase || "N/A" },
+  { key: "status", label: "Status", width: "170px", sortable: true, render: (t) => t.overallStatus.replace(/_/g, " ") },
+  { key: "sponsor", label: "Sponsor", width: "200px", sortable: true, render: (t) => t.leadSponsor },
+  { key: "enrollment", label: "Enrollment", width: "110px", sortable: true, render: (t) => t.enrollmentCount?.toLocaleString() || "" },
+  { key: "startDate", label: "Start", width: "110px", sortable: true, render: (t) => t.startDate || "" },
+  { key: "completionDate", label: "Completion", width: "110px", sortable: true, render: (t) => t.completionDate || "" },
+  { key: "lastUpdate", label: "Last update", width: "110px", sortable: true, render: (t) => t.lastUpdatePostDate || "" },
+  { key: "conditions", label: "Conditions", width: "220px", sortable: false, render: (t) => t.conditions?.join("; ") || "" },
+];
+
+const DEFAULT_VISIBLE: ColumnKey[] = ["phase", "status", "sponsor", "enrollment", "startDate", "completionDate", "lastUpdate"];
+
+function isColumnList(value: unknown): value is ColumnKey[] {
+  return Array.isArray(value) && value.every((v) => COLUMNS.some((c) => c.key === v));
+}
+
+/** Numeric rank so that "Phase 1/2" sorts between Phase 1 and Phase 2 */
+function phaseRank(phase: string): number {
+  const lower = (phase || "").toLowerCase();
+  if (lower.includes("early")) return 0.5;
+  if (lower.includes("1") && lower.includes("2")) return 1.5;
+  if (lower.includes("2") && lower.includes("3")) return 2.5;
+  for (const n of [1, 2, 3, 4]) {
+    if (lower.includes(String(n))) return n;
+  }
+  return Number.POSITIVE_INFINITY;
+}
+
+function sortValue(trial: Trial, key: SortKey): string | number | null {
+  switch (key) {
+    case "nctId": return trial.nctId;
+    case "title": return trial.briefTitle.toLowerCase();
+    case "phase": return phaseRank(trial.phase);
+    case "status": return trial.overallStatus || null;
+    case "sponsor": return trial.leadSponsor?.toLowerCase() || null;
+    case "enrollment": return trial.enrollmentCount ?? null;
+    case "startDate": return trial.startDate || null;
+    case "completionDate": return trial.completionDate || null;
+    case "lastUpdate": return trial.lastUpdatePostDate || null;
+    case "conditions": return null;
+  }
+}
+
+function compareTrials(a: Trial, b: Trial, key: SortKey, direction: "asc" | "desc"): number {
+  const va = sortValue(a, key);
+  const vb = sortValue(b, key);
+  // Missing values always go last, whatever the direction
+  if (va === null || va === Number.POSITIVE_INFINITY) return vb === null || vb === Number.POSITIVE_INFINITY ? 0 : 1;
+  if (vb === null || vb === Number.POSITIVE_INFINITY) return -1;
+  const result = va < vb ? -1 : va > vb ? 1 : 0;
+  return direction === "asc" ? result : -result;
+}
+
+export function TrialTable({ trials }: TrialTableProps) {
+  const { isSelected, toggleTrial } = useSelectionBasket();
+  const location = useLocation();
+  const linkState: SearchLinkState = { fromSearch: location.search };
+  const [visibleColumns, setVisibleColumns] = useLocalStorageState<ColumnKey[]>(
+    "trial-compass:table-columns",
+    DEFAULT_VISIBLE,
+    isColumnList
+  );
+  const [sort, setSort] = useState<{ key: SortKey; direction: "asc" | "desc" } | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const columns = COLUMNS.filter((c) => visibleColumns.includes(c.key));
+
+  const sortedTrials = useMemo(() => {
+    if (!sort) return trials;
+    return [...trials].sort((a, b) => compareTrials(a, b, sort.key, sort.direction));
+  }, [trials, sort]);
+
+  // Row virtualization: only the rows inside the scroll viewport (plus some
+  // overscan) are mounted; spacer rows keep the scrollbar height correct
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(
+    sortedTrials.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS
+  );
+  const visibleTrials = sortedTrials.slice(firstRow, lastRow);
+  const topSpacer = firstRow * ROW_HEIGHT;
+  const bottomSpacer = (sortedTrials.length - lastRow) * ROW_HEIGHT;
+
+  const handleSort = (key: SortKey) => {
+    setSort((current) => {
+      if (!current || current.key !== key) return { key, direction: "asc" };
+      if (current.direction === "asc") return { key, direction: "desc" };
+      return null;
+    });
+    viewportRef.current?.scrollTo({ top: 0 });
+  };
+
+  const toggleColumn = (key: ColumnKey) => {
+    setVisibleColumns((current) =>
+      current.includes(key) ? current.filter((k) => k !== key) : COLUMNS.map((c) => c.key).filter((k) => k === key || current.includes(k))
+    );
+  };
+
+  const renderSortHeader = (sortKey: SortKey, label: string, width: string) => {
+    const active = sort?.key === sortKey;
+    const Icon = !active ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <th
+        key={sortKey}
+        className="sticky top-0 z-10 bg-muted text-left font-medium text-muted-foreground px-3 h-10 whitespace-nowrap"
+        style={{ width, minWidth: width }}
+      >
+        <button
+          onClick={() => handleSort(sortKey)}
+          className={`inline-flex items-center gap-1 hover:text-foreground transition-colors ${active ? "text-foreground" : ""}`}
+        >
+          {label}
+          <Icon className="h-3.5 w-3.5" />
+        </button>
+      </th>
+    );
+  };
+
+  const colSpan = columns.length + 3;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2">
+              <Columns3 className="h-4 w-4" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {COLUMNS.map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column.key}
+                checked={visibleColumns.includes(column.key)}
+                onCheckedChange={() => toggleColumn(column.key)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {column.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div
+        ref={viewportRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="border rounded-lg overflow-auto"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+      >
+        <table className="w-full text-sm border-collapse table-fixed">
+          <thead>
+            <tr>
+              <th className="sticky top-0 z-10 bg-muted w-10 px-3 h-10" />
+              {renderSortHeader("nctId", "NCT ID", "130px")}
+              {renderSortHeader("title", "Title", "320px")}
+              {columns.map((column) =>
+                column.sortable ? (
+                  renderSortHeader(column.key, column.label, column.width)
+                ) : (
+                  <th
+                    key={column.key}
+                    className="sticky top-0 z-10 bg-muted text-left font-medium text-muted-foreground px-3 h-10 whitespace-nowrap"
+                    style={{ width: column.width, minWidth: column.width }}
+                  >
+                    {column.label}
+                  </th>
+                )
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {topSpacer > 0 && (
+              <tr style={{ height: topSpacer }}>
+                <td colSpan={colSpan} />
+              </tr>
+            )}
+            {visibleTrials.map((trial) => {
+              const selected = isSelected(trial.nctId);
+              return (
+                <tr
+                  key={trial.nctId}
+                  className={`border-b border-border/50 hover:bg-muted/50 ${selected ? "bg-primary/5" : ""}`}
+                  style={{ height: ROW_HEIGHT }}
+                >
+                  <td className="px-3">
+                    <Checkbox
+                      checked={selected}
+                      onCheckedChange={() => toggleTrial(trial)}
+                      aria-label={`Select ${trial.nctId}`}
+                    />
+                  </td>
+                  <td className="px-3 font-mono text-xs">
+                    <Link to={`/trial/${trial.nctId}`} state={linkState} className="text-primary hover:underline">
+                      {trial.nctId}
+                    </Link>
+                  </td>
+                  <td className="px-3 truncate" title={trial.briefTitle}>
+                    {trial.briefTitle}
+                  </td>
+                  {columns.map((column) => {
+                    const value = column.render(trial);
+                    return (
+                      <td key={column.key} className="px-3 truncate text-muted-foreground" title={value}>
+                        {value || "—"}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            {bottomSpacer > 0 && (
+              <tr style={{ height: bottomSpacer }}>
+                <td colSpan={colSpan} />
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Loader2, Send, Webhook } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { NotificationChannel, setNotificationChannel, testNotificationChannel } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface WebhookChannelCardProps {
+  channel: NotificationChannel | null;
+  onChannelChange: (channel: NotificationChannel | null) => void;
+}
+
+export function WebhookChannelCard({ channel, onChannelChange }: WebhookChannelCardProps) {
+  const [url, setUrl] = useState(channel?.url || "");
+  const [secret, setSecret] = useState("");
+  const [active, setActive] = useState(channel?.active ?? true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const { toast } = useToast();
+
+  const run = async (action: () => Promise<void>, failureTitle: string, setBusy: (busy: boolean) => void) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      // An empty secret field keeps the stored secret
+      const saved = await setNotificationChannel({ url: url.trim(), secret: secret || undefined, active });
+      setSecret("");
+      onChannelChange(saved);
+      toast({ title: "Webhook saved" });
+    }, "Could not save webhook", setIsSaving);
+  };
+
+  const handleRemove = () => {
+    run(async () => {
+      await setNotificationChannel(null);
+      setUrl("");
+      setSecret("");
+      onChannelChange(null);
+      toast({ title: "Webhook removed" });
+    }, "Could not remove webhook", setIsSaving);
+  };
+
+  const handleTest = () => {
+    run(async () => {
+      const result = await testNotificationChannel();
+      toast(result.ok
+        ? { title: "Test delivered", description: "The receiver accepted the test notification." }
+        : { variant: "destructive", title: "Test failed", description: result.error });
+    }, "Could not send test", setIsTesting);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Webhook className="h-4 w-4 text-primary" />
+          Webhook delivery
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          New notifications are POSTed as JSON to this URL after each scheduled check. Any http(s) URL reachable
+          from the functions runtime works, including a local receiver during development.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              placeholder="https://example.com/hooks/trial-compass"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-secret">Signing secret (optional)</Label>
+            <Input
+              id="webhook-secret"
+              type="password"
+              placeholder={channel?.hasSecret ? "•••••••• (unchanged)" : "Used for the X-Trial-Compass-Signature header"}
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              autoComplete="off"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="webhook-active" checked={active} onCheckedChange={setActive} />
+            <Label htmlFor="webhook-active" className="text-sm font-normal">Deliver notifications</Label>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" size="sm" disabled={isSaving || !url.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+            {channel && (
+              <>
+                <Button type="button" variant="outline" size="sm" onClick={handleTest} disabled={isTesting} className="gap-2">
+                  {isTesting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                  Send test
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleRemove}
+                  disabled={isSaving}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  Remove
+                </Button>
+              </>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
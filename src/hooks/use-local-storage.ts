@@ -0,0 +1,34 @@
+import * as React from "react";
+
+/**
+ * useState that is mirrored to localStorage under `key`. Falls back to
+ * `defaultValue` when nothing is stored, the stored JSON is unreadable or
+ * `isValid` rejects it (e.g. an option that no longer exists).
+ */
+export function useLocalStorageState<T>(
+  key: string,
+  defaultValue: T,
+  isValid?: (value: unknown) => value is T
+): [T, React.Dispatch<React.SetStateAction<T>>] {
+  const [value, setValue] = React.useState<T>(() => {
+    try {
+      const raw = window.localStorage.getItem(key);
+      if (raw === null) return defaultValue;
+      const parsed: unknown = JSON.parse(raw);
+      if (isValid && !isValid(parsed)) return defaultValue;
+      return parsed as T;
+    } catch {
+      return defaultValue;
+    }
+  });
+
+  React.useEffect(() => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // Storage unavailable: the preference only lasts for this session
+    }
+  }, [key, value]);
+
+  return [value, setValue];
+}
@@ -0,0 +1,154 @@
+import * as React from "react";
+
+import type { Trial } from "@/lib/api";
+
+/**
+ * Persistent trial selection basket.
+ *
+ * Trials ticked in any result list accumulate here across searches and page
+ * navigations. State lives in a module-level store (same pattern as
+ * use-toast) and is mirrored to localStorage; the stored shape is versioned
+ * so it can later be pushed to a backend as-is.
+ */
+
+const STORAGE_KEY = "trial-compass:selection-basket";
+const STORAGE_VERSION = 1;
+
+export interface BasketEntry {
+  trial: Trial;
+  addedAt: string;
+}
+
+interface State {
+  entries: BasketEntry[];
+}
+
+interface StoredBasket {
+  version: number;
+  updatedAt: string;
+  entries: BasketEntry[];
+}
+
+type Action =
+  | { type: "ADD"; trials: Trial[] }
+  | { type: "REMOVE"; nctIds: string[] }
+  | { type: "CLEAR" }
+  | { type: "REPLACE"; entries: BasketEntry[] };
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "ADD": {
+      const existing = new Set(state.entries.map((e) => e.trial.nctId));
+      const addedAt = new Date().toISOString();
+      const added = action.trials
+        .filter((trial) => !existing.has(trial.nctId))
+        .map((trial) => ({ trial, addedAt }));
+      return added.length === 0 ? state : { entries: [...state.entries, ...added] };
+    }
+    case "REMOVE": {
+      const removed = new Set(action.nctIds);
+      return { entries: state.entries.filter((e) => !removed.has(e.trial.nctId)) };
+    }
+    case "CLEAR":
+      return { entries: [] };
+    case "REPLACE":
+      return { entries: action.entries };
+  }
+};
+
+function loadState(): State {
+  if (typeof window === "undefined") return { entries: [] };
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { entries: [] };
+    const stored = JSON.parse(raw) as StoredBasket;
+    if (stored.version !== STORAGE_VERSION || !Array.isArray(stored.entries)) return { entries: [] };
+    return { entries: stored.entries };
+  } catch {
+    return { entries: [] };
+  }
+}
+
+function saveState(state: State) {
+  try {
+    const stored: StoredBasket = {
+      version: STORAGE_VERSION,
+      updatedAt: new Date().toISOString(),
+      entries: state.entries,
+    };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage full or unavailable: keep the in-memory basket for this session
+  }
+}
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = loadState();
+
+function notify() {
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+function dispatch(action: Action) {
+  const next = reducer(memoryState, action);
+  if (next === memoryState) return;
+  memoryState = next;
+  saveState(memoryState);
+  notify();
+}
+
+// Keep several open tabs in sync
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event) => {
+    if (event.key !== STORAGE_KEY) return;
+    memoryState = loadState();
+    notify();
+  });
+}
+
+const addTrials = (trials: Trial[]) => dispatch({ type: "ADD", trials });
+const removeTrials = (nctIds: string[]) => dispatch({ type: "REMOVE", nctIds });
+const clearBasket = () => dispatch({ type: "CLEAR" });
+
+function toggleTrial(trial: Trial) {
+  if (memoryState.entries.some((e) => e.trial.nctId === trial.nctId)) {
+    removeTrials([trial.nctId]);
+  } else {
+    addTrials([trial]);
+  }
+}
+
+function useSelectionBasket() {
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    // The store may have changed between the initial render and subscribing
+    setState(memoryState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  const selectedIds = React.useMemo(() => new Set(state.entries.map((e) => e.trial.nctId)), [state.entries]);
+  const trials = React.useMemo(() => state.entries.map((e) => e.trial), [state.entries]);
+
+  return {
+    entries: state.entries,
+    trials,
+    count: state.entries.length,
+    isSelected: (nctId: string) => selectedIds.has(nctId),
+    addTrials,
+    removeTrials,
+    toggleTrial,
+    clear: clearBasket,
+  };
+}
+
+export { useSelectionBasket };
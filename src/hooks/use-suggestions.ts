@@ -0,0 +1,59 @@
+import * as React from "react";
+import { getSuggestions, SuggestField, Suggestion } from "@/lib/api";
+
+const DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+// Shared across inputs for the page's lifetime; suggestions change slowly
+const cache = new Map<string, Suggestion[]>();
+
+/**
+ * Debounced typeahead suggestions for `query`. Requests still in flight when
+ * the query changes are aborted, so results never arrive out of order.
+ */
+export function useSuggestions(field: SuggestField, query: string, enabled = true) {
+  const [suggestions, setSuggestions] = React.useState<Suggestion[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  React.useEffect(() => {
+    const q = query.trim();
+    if (!enabled || q.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const key = `${field}:${q.toLowerCase()}`;
+    const cached = cache.get(key);
+    if (cached) {
+      setSuggestions(cached);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    const timer = window.setTimeout(() => {
+      getSuggestions(field, q, controller.signal)
+        .then((result) => {
+          cache.set(key, result);
+          setSuggestions(result);
+        })
+        .catch((error) => {
+          if (error instanceof DOMException && error.name === "AbortError") return;
+          console.error("Suggestions error:", error);
+          setSuggestions([]);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsLoading(false);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [field, query, enabled]);
+
+  return { suggestions, isLoading };
+}
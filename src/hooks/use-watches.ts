@@ -0,0 +1,53 @@
+import * as React from "react";
+import { createWatch, deleteWatch, getInbox, Watch, WatchTarget } from "@/lib/api";
+
+/**
+ * The current browser's watches, for "Watch" toggles outside the inbox.
+ * Loaded once per mount; toggling updates the local list from the server
+ * response.
+ */
+export function useWatches() {
+  const [watches, setWatches] = React.useState<Watch[]>([]);
+  const [isLoaded, setIsLoaded] = React.useState(false);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    getInbox()
+      .then((data) => {
+        if (!cancelled) setWatches(data.watches);
+      })
+      .catch((error) => console.error("Load watches error:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const findWatch = React.useCallback(
+    (target: WatchTarget) =>
+      watches.find((w) =>
+        target.kind === "search" ? w.savedSearchId === target.savedSearchId : w.nctId === target.nctId
+      ),
+    [watches]
+  );
+
+  /** Creates the watch if missing, deletes it otherwise; resolves to the new watched state */
+  const toggleWatch = React.useCallback(
+    async (target: WatchTarget): Promise<boolean> => {
+      const existing = findWatch(target);
+      if (existing) {
+        await deleteWatch(existing.id);
+        setWatches((prev) => prev.filter((w) => w.id !== existing.id));
+        return false;
+      }
+      const watch = await createWatch(target);
+      setWatches((prev) => [watch, ...prev.filter((w) => w.id !== watch.id)]);
+      return true;
+    },
+    [findWatch]
+  );
+
+  return { watches, isLoaded, findWatch, toggleWatch };
+}
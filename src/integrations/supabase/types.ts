@@ -14,6 +14,149 @@ export type Database = {
   }
   public: {
     Tables: {
+      drug_class_members: {
+        Row: {
+          class_key: string | null
+          class_name: string
+          created_at: string
+          drug: string
+          drug_key: string | null
+          id: string
+          owner_id: string | null
+        }
+        Insert: {
+          class_key?: never
+          class_name: string
+          created_at?: string
+          drug: string
+          drug_key?: never
+          id?: string
+          owner_id?: string | null
+        }
+        Update: {
+          class_key?: never
+          class_name?: string
+          created_at?: string
+          drug?: string
+          drug_key?: never
+          id?: string
+          owner_id?: string | null
+        }
+        Relationships: []
+      }
+      drug_synonyms: {
+        Row: {
+          created_at: string
+          id: string
+          owner_id: string | null
+          synonym: string
+          synonym_key: string | null
+          term: string
+          term_key: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          owner_id?: string | null
+          synonym: string
+          synonym_key?: never
+          term: string
+          term_key?: never
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          owner_id?: string | null
+          synonym?: string
+          synonym_key?: never
+          term?: string
+          term_key?: never
+        }
+        Relationships: []
+      }
+      notification_channels: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          kind: string
+          owner_id: string
+          secret: string | null
+          url: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          kind: string
+          owner_id: string
+          secret?: string | null
+          url: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          kind?: string
+          owner_id?: string
+          secret?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          delivered_at: string | null
+          delivery_error: string | null
+          details_json: Json
+          event_type: string
+          id: string
+          nct_id: string | null
+          owner_id: string
+          read_at: string | null
+          title: string
+          watch_id: string | null
+          watch_label: string
+        }
+        Insert: {
+          created_at?: string
+          delivered_at?: string | null
+          delivery_error?: string | null
+          details_json?: Json
+          event_type: string
+          id?: string
+          nct_id?: string | null
+          owner_id: string
+          read_at?: string | null
+          title: string
+          watch_id?: string | null
+          watch_label: string
+        }
+        Update: {
+          created_at?: string
+          delivered_at?: string | null
+          delivery_error?: string | null
+          details_json?: Json
+          event_type?: string
+          id?: string
+          nct_id?: string | null
+          owner_id?: string
+          read_at?: string | null
+          title?: string
+          watch_id?: string | null
+          watch_label?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_watch_id_fkey"
+            columns: ["watch_id"]
+            isOneToOne: false
+            referencedRelation: "watches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pubmed_cache: {
         Row: {
           cache_key: string
@@ -65,30 +208,140 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_search_snapshots: {
+        Row: {
+          created_at: string
+          id: string
+          run_at: string
+          saved_search_id: string
+          total_count: number
+          trials_json: Json
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          run_at: string
+          saved_search_id: string
+          total_count?: number
+          trials_json?: Json
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          run_at?: string
+          saved_search_id?: string
+          total_count?: number
+          trials_json?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_search_snapshots_saved_search_id_fkey"
+            columns: ["saved_search_id"]
+            isOneToOne: false
+            referencedRelation: "saved_searches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          id: string
+          last_run_at: string | null
+          name: string
+          nct_ids: string[]
+          owner_id: string
+          params_json: Json
+          total_count: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_run_at?: string | null
+          name: string
+          nct_ids?: string[]
+          owner_id: string
+          params_json?: Json
+          total_count?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_run_at?: string | null
+          name?: string
+          nct_ids?: string[]
+          owner_id?: string
+          params_json?: Json
+          total_count?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       searches: {
         Row: {
           biomarker: string | null
           created_at: string
-          drug: string
+          drug: string | null
+          duration_ms: number | null
           filters_json: Json | null
           id: string
           indication: string | null
+          owner_id: string | null
+          result_count: number | null
+          trace_id: string | null
         }
         Insert: {
           biomarker?: string | null
           created_at?: string
-          drug: string
+          drug?: string | null
+          duration_ms?: number | null
           filters_json?: Json | null
           id?: string
           indication?: string | null
+          owner_id?: string | null
+          result_count?: number | null
+          trace_id?: string | null
         }
         Update: {
           biomarker?: string | null
           created_at?: string
-          drug?: string
+          drug?: string | null
+          duration_ms?: number | null
           filters_json?: Json | null
           id?: string
           indication?: string | null
+          owner_id?: string | null
+          result_count?: number | null
+          trace_id?: string | null
+        }
+        Relationships: []
+      }
+      suggest_term_index: {
+        Row: {
+          field: string
+          hits: number
+          source: string
+          term: string
+          term_key: string
+          updated_at: string
+        }
+        Insert: {
+          field: string
+          hits?: number
+          source: string
+          term: string
+          term_key: string
+          updated_at?: string
+        }
+        Update: {
+          field?: string
+          hits?: number
+          source?: string
+          term?: string
+          term_key?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -116,12 +369,94 @@ export type Database = {
         }
         Relationships: []
       }
+      watches: {
+        Row: {
+          active: boolean
+          check_interval_hours: number
+          created_at: string
+          id: string
+          kind: string
+          label: string
+          last_checked_at: string | null
+          last_error: string | null
+          nct_id: string | null
+          owner_id: string
+          saved_search_id: string | null
+          state_json: Json | null
+        }
+        Insert: {
+          active?: boolean
+          check_interval_hours?: number
+          created_at?: string
+          id?: string
+          kind: string
+          label: string
+          last_checked_at?: string | null
+          last_error?: string | null
+          nct_id?: string | null
+          owner_id: string
+          saved_search_id?: string | null
+          state_json?: Json | null
+        }
+        Update: {
+          active?: boolean
+          check_interval_hours?: number
+          created_at?: string
+          id?: string
+          kind?: string
+          label?: string
+          last_checked_at?: string | null
+          last_error?: string | null
+          nct_id?: string | null
+          owner_id?: string
+          saved_search_id?: string | null
+          state_json?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "watches_saved_search_id_fkey"
+            columns: ["saved_search_id"]
+            isOneToOne: false
+            referencedRelation: "saved_searches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
       cleanup_old_rate_limits: { Args: never; Returns: undefined }
+      due_watches: {
+        Args: { p_limit?: number }
+        Returns: {
+          active: boolean
+          check_interval_hours: number
+          created_at: string
+          id: string
+          kind: string
+          label: string
+          last_checked_at: string | null
+          last_error: string | null
+          nct_id: string | null
+          owner_id: string
+          saved_search_id: string | null
+          state_json: Json | null
+        }[]
+      }
+      record_suggest_terms: {
+        Args: { p_field: string; p_source: string; p_terms: string[] }
+        Returns: undefined
+      }
+      suggest_terms: {
+        Args: { p_field: string; p_limit?: number; p_prefix: string }
+        Returns: {
+          hits: number
+          source: string
+          term: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,6 +1,15 @@
 import { supabase } from "@/integrations/supabase/client";
+import { searchParamsToQuery } from "./searchUrl";
+import { getClientId } from "./clientId";
+import { SearchSnapshot, toSearchSnapshot } from "./snapshotDiff";
+import type { QueryNode } from "./queryBuilder";
 
-export type SearchMode = "drug" | "condition" | "combined";
+/**
+ * "ids" is a batch lookup of pasted NCT IDs rather than a registry query;
+ * "class" searches every member of a drug class (e.g. PD-1 inhibitors);
+ * "advanced" runs a boolean query tree built in the query builder
+ */
+export type SearchMode = "drug" | "condition" | "combined" | "ids" | "class" | "advanced";
 
 export interface Trial {
   nctId: string;
@@ -14,12 +23,19 @@ export interface Trial {
   completionDate?: string;
   enrollmentCount?: number;
   conditions: string[];
+  /** MeSH terms ClinicalTrials.gov derived from the conditions, and their MeSH ancestors */
+  conditionMeshTerms?: string[];
+  conditionMeshAncestors?: string[];
   studyType?: string;
   briefSummary?: string;
   arms?: Arm[];
   interventions?: Intervention[];
   primaryOutcomes?: Outcome[];
   secondaryOutcomes?: Outcome[];
+  /** Class searches only: the class members this trial's interventions mention */
+  matchedDrugs?: string[];
+  /** Features extracted from the eligibility criteria; absent on trials stored before parsing (older selection entries) */
+  eligibility?: EligibilitySummary;
 }
 
 export interface Arm {
@@ -29,6 +45,7 @@ export interface Arm {
   interventions: string[];
   isControl?: boolean;
   controlType?: string;
+  isAddOn?: boolean;
 }
 
 export interface Intervention {
@@ -55,11 +72,125 @@ export interface TrialDetail extends Trial {
   sex?: string;
   minimumAge?: string;
   maximumAge?: string;
+  /** Parsed eligibility criteria (supabase/functions/_shared/eligibility.ts) */
+  eligibilityProfile?: EligibilityProfile;
   comparatorSummary?: string;
+  hasResults?: boolean;
+  resultsFirstPostDate?: string;
+  /** Posted results, normalized (supabase/functions/_shared/results.ts); null when none are posted */
+  results?: PostedResults | null;
   locations?: Location[];
   trace?: TraceInfo;
 }
 
+export interface EligibilityCriterion {
+  text: string;
+  /** 0 for top-level bullets, 1 for bullets nested under another */
+  level: number;
+}
+
+export interface EligibilityProfile {
+  inclusion: EligibilityCriterion[];
+  exclusion: EligibilityCriterion[];
+  /** Criteria outside any recognized section */
+  other: EligibilityCriterion[];
+  minAgeYears: number | null;
+  maxAgeYears: number | null;
+  performanceStatus: { scale: 'ECOG' | 'Karnofsky'; min: number; max: number; text: string }[];
+  priorLines: { min: number | null; max: number | null; text: string } | null;
+  biomarkers: { marker: string; status: 'positive' | 'negative' | 'mentioned'; text: string }[];
+  brainMetastases: { policy: 'excluded' | 'treated_allowed' | 'allowed'; text: string } | null;
+  organFunction: { system: 'hematologic' | 'hepatic' | 'renal' | 'cardiac'; text: string }[];
+  parserVersion: string;
+}
+
+/** EligibilityProfile without the criteria lists, as attached to search results */
+export type EligibilitySummary = Omit<EligibilityProfile, 'inclusion' | 'exclusion' | 'other'>;
+
+export interface ResultGroup {
+  id: string;
+  title: string;
+  description: string;
+}
+
+export interface GroupCount {
+  groupId: string;
+  count: number | null;
+  comment: string;
+}
+
+export interface ParticipantFlow {
+  recruitmentDetails: string;
+  preAssignmentDetails: string;
+  groups: ResultGroup[];
+  periods: {
+    title: string;
+    milestones: { type: string; counts: GroupCount[] }[];
+    dropWithdraws: { type: string; counts: GroupCount[] }[];
+  }[];
+}
+
+export interface ResultMeasurement {
+  groupId: string;
+  /** Registry text of the value, e.g. "12.4" or "NA" */
+  text: string;
+  value: number | null;
+  spread: number | null;
+  lowerLimit: number | null;
+  upperLimit: number | null;
+  comment: string;
+}
+
+export interface ResultMeasure {
+  title: string;
+  description: string;
+  populationDescription: string;
+  paramType: string;
+  dispersionType: string;
+  unitOfMeasure: string;
+  calculatePct: boolean;
+  /** Participants analyzed per group */
+  denoms: GroupCount[];
+  classes: {
+    title: string;
+    denoms: GroupCount[];
+    categories: { title: string; measurements: ResultMeasurement[] }[];
+  }[];
+}
+
+export interface StatisticalAnalysis {
+  groupIds: string[];
+  groupDescription: string;
+  method: string;
+  paramType: string;
+  paramValue: number | null;
+  dispersionType: string;
+  dispersionValue: number | null;
+  pValue: string;
+  pValueNumber: number | null;
+  ciPct: number | null;
+  ciNumSides: string;
+  ciLowerLimit: number | null;
+  ciUpperLimit: number | null;
+  nonInferiorityType: string;
+  comment: string;
+}
+
+export interface OutcomeMeasureResult extends ResultMeasure {
+  type: string;
+  timeFrame: string;
+  reportingStatus: string;
+  groups: ResultGroup[];
+  analyses: StatisticalAnalysis[];
+}
+
+export interface PostedResults {
+  participantFlow: ParticipantFlow | null;
+  baseline: { populationDescription: string; groups: ResultGroup[]; denoms: GroupCount[]; measures: ResultMeasure[] } | null;
+  outcomeMeasures: OutcomeMeasureResult[];
+  normalizerVersion: string;
+}
+
 export interface Location {
   facility: string;
   city: string;
@@ -87,6 +218,21 @@ export interface TraceInfo {
   timestamp: string;
   dataSourceCalls: DataSourceCall[];
   searchMode?: SearchMode;
+  classifierVersion?: string;
+  /** Date ranges applied, by ClinicalTrials.gov field (e.g. "StartDate") */
+  dateFilters?: DateFilter[];
+  /** Advanced searches: the Essie expression the query tree compiled to */
+  compiledQuery?: string;
+  /** Exhaustive searches: every match was requested rather than maxResults */
+  exhaustive?: boolean;
+  /** Exhaustive searches stopped early, by the server's safety cap or a cancel */
+  truncated?: boolean;
+}
+
+export interface DateFilter {
+  field: string;
+  from: string | null;
+  to: string | null;
 }
 
 export interface DataSourceCall {
@@ -98,21 +244,57 @@ export interface DataSourceCall {
 
 export interface SearchParams {
   drug?: string;
+  /** Drug class name; only used with searchMode "class" */
+  drugClass?: string;
   condition?: string;
+  /** Also match trials indexed under narrower MeSH terms of the condition */
+  includeNarrower?: boolean;
   biomarker?: string;
   phase?: string[];
   status?: string[];
   studyType?: string;
+  /** Last update posted date range */
   minDate?: string;
   maxDate?: string;
+  /** Date ranges (YYYY-MM-DD) on the start, primary completion, completion and first posted dates */
+  startFrom?: string;
+  startTo?: string;
+  primaryCompletionFrom?: string;
+  primaryCompletionTo?: string;
+  completionFrom?: string;
+  completionTo?: string;
+  firstPostedFrom?: string;
+  firstPostedTo?: string;
+  /** Structured filters; option values are listed in lib/searchFilters.ts */
+  sponsorClass?: string[];
+  country?: string;
+  minEnrollment?: number;
+  maxEnrollment?: number;
+  allocation?: string;
+  masking?: string[];
+  interventionType?: string[];
+  ageGroup?: string[];
+  sex?: string;
+  healthyVolunteers?: boolean;
+  hasResults?: boolean;
   maxResults?: number;
+  /** Retrieve every matching trial, streamed page by page (maxResults is ignored) */
+  exhaustive?: boolean;
   searchMode?: SearchMode;
+  /** OR the drug's known synonyms and code names into the query (default true) */
+  expandSynonyms?: boolean;
+  /** Only used with searchMode "ids" */
+  nctIds?: string[];
+  /** Only used with searchMode "advanced" */
+  advancedQuery?: QueryNode;
 }
 
 export interface SearchResult {
   totalCount: number;
   trials: Trial[];
   nextPageToken?: string | null;
+  /** Batch lookups only: requested IDs that ClinicalTrials.gov does not know */
+  unknownIds?: string[];
   trace: TraceInfo;
 }
 
@@ -155,20 +337,16 @@ export interface ComparatorSummaryResult {
 }
 
 export async function searchTrials(params: SearchParams): Promise<SearchResult> {
-  const queryParams = new URLSearchParams();
-  
-  // Only add drug if provided
-  if (params.drug) queryParams.set('drug', params.drug);
-  if (params.condition) queryParams.set('condition', params.condition);
-  if (params.biomarker) queryParams.set('biomarker', params.biomarker);
-  if (params.studyType) queryParams.set('studyType', params.studyType);
-  if (params.minDate) queryParams.set('minDate', params.minDate);
-  if (params.maxDate) queryParams.set('maxDate', params.maxDate);
-  if (params.maxResults) queryParams.set('maxResults', params.maxResults.toString());
-  if (params.searchMode) queryParams.set('searchMode', params.searchMode);
-  
-  params.phase?.forEach(p => queryParams.append('phase', p));
-  params.status?.forEach(s => queryParams.append('status', s));
+  if (params.searchMode === 'ids') {
+    return lookupTrialsByIds(params.nctIds || []);
+  }
+  if (params.exhaustive) {
+    return streamAllTrials(params, () => {});
+  }
+
+  const queryParams = searchParamsToQuery(params);
+  // Owner of the search-history entry
+  queryParams.set('clientId', getClientId());
 
   // Use direct fetch since we need query params
   const response = await fetch(
@@ -189,22 +367,100 @@ export async function searchTrials(params: SearchParams): Promise<SearchResult>
   return response.json();
 }
 
+export interface SearchProgress {
+  loaded: number;
+  totalCount: number;
+}
+
+type SearchStreamLine =
+  | { type: 'trials'; trials: Trial[]; loaded: number; totalCount: number }
+  | { type: 'done'; totalCount: number; trace: TraceInfo }
+  | { type: 'error'; error: string };
+
+/**
+ * Exhaustive search: trials-search pages through every match and streams
+ * NDJSON. `onTrials` receives each page as it arrives; resolves to the full
+ * result, or rejects with an AbortError when `signal` is aborted.
+ */
+export async function streamAllTrials(
+  params: SearchParams,
+  onTrials: (trials: Trial[], progress: SearchProgress) => void,
+  signal?: AbortSignal
+): Promise<SearchResult> {
+  const queryParams = searchParamsToQuery({ ...params, exhaustive: true });
+  queryParams.set('clientId', getClientId());
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/trials-search?${queryParams.toString()}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      signal,
+    }
+  );
+
+  if (!response.ok || !response.body) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Failed to search trials');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const trials: Trial[] = [];
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const message = JSON.parse(line) as SearchStreamLine;
+      if (message.type === 'trials') {
+        trials.push(...message.trials);
+        onTrials(message.trials, { loaded: message.loaded, totalCount: message.totalCount });
+      } else if (message.type === 'done') {
+        return { totalCount: message.totalCount, trials, nextPageToken: null, trace: message.trace };
+      } else {
+        throw new Error(message.error);
+      }
+    }
+  }
+
+  throw new Error('The search ended before all trials were retrieved');
+}
+
+/** Fetches a list of NCT IDs in bulk; the result has no further pages */
+export async function lookupTrialsByIds(nctIds: string[]): Promise<SearchResult> {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/trials-batch`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ nctIds, clientId: getClientId() }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to look up trials');
+  }
+
+  return response.json();
+}
+
 export async function searchTrialsNextPage(params: SearchParams, pageToken: string): Promise<SearchResult> {
-  const queryParams = new URLSearchParams();
-
-  if (params.drug) queryParams.set('drug', params.drug);
-  if (params.condition) queryParams.set('condition', params.condition);
-  if (params.biomarker) queryParams.set('biomarker', params.biomarker);
-  if (params.studyType) queryParams.set('studyType', params.studyType);
-  if (params.minDate) queryParams.set('minDate', params.minDate);
-  if (params.maxDate) queryParams.set('maxDate', params.maxDate);
-  if (params.maxResults) queryParams.set('maxResults', params.maxResults.toString());
-  if (params.searchMode) queryParams.set('searchMode', params.searchMode);
+  const queryParams = searchParamsToQuery(params);
   queryParams.set('pageToken', pageToken);
 
-  params.phase?.forEach(p => queryParams.append('phase', p));
-  params.status?.forEach(s => queryParams.append('status', s));
-
   const response = await fetch(
     `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/trials-search?${queryParams.toString()}`,
     {
@@ -261,6 +517,22 @@ export async function searchPubMed(nctId: string): Promise<PubMedResult> {
   return response.json();
 }
 
+/** Flat one-row-per-trial view used by the trial list CSV exports */
+export function trialsToCsvRows(trials: Trial[]): Record<string, string | number>[] {
+  return trials.map((trial) => ({
+    NCT_ID: trial.nctId,
+    Title: trial.briefTitle,
+    Phase: trial.phase,
+    Status: trial.overallStatus,
+    Sponsor: trial.leadSponsor,
+    Conditions: trial.conditions?.join('; ') || '',
+    Condition_MeSH_Terms: trial.conditionMeshTerms?.join('; ') || '',
+    Last_Updated: trial.lastUpdatePostDate,
+    Enrollment: trial.enrollmentCount || '',
+    Study_Type: trial.studyType || '',
+  }));
+}
+
 export function exportToCSV(data: Record<string, any>[], filename: string): void {
   if (data.length === 0) return;
 
@@ -341,6 +613,11 @@ export interface PicoSummaryRequest {
 }
 
 export async function generatePicoSummary(request: PicoSummaryRequest): Promise<{ summaryText: string }> {
+  // Drill-down data (per-trial evidence) stays client-side; the summary only needs the conclusions
+  const { evidence: _comparatorEvidence, evaluableTrialIds: _comparatorIds, ...comparator } = request.analysis.comparator;
+  const { evidence: _endpointEvidence, evaluableTrialIds: _endpointIds, ...endpoint } = request.analysis.endpoint;
+  const body = { ...request, analysis: { ...request.analysis, comparator, endpoint } };
+
   const response = await fetch(
     `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/pico-summary`,
     {
@@ -349,7 +626,7 @@ export async function generatePicoSummary(request: PicoSummaryRequest): Promise<
         'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(request),
+      body: JSON.stringify(body),
     }
   );
 
@@ -453,3 +730,472 @@ export async function analyzeWithExternalAI(
     throw err;
   }
 }
+
+// Saved searches (owned by the anonymous client id, see clientId.ts)
+export interface SavedSearch {
+  id: string;
+  name: string;
+  params: SearchParams;
+  nctIds: string[];
+  totalCount: number | null;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type SavedSearchAction =
+  | { action: 'create'; name: string; params: SearchParams; run: SearchSnapshot }
+  | { action: 'rename'; id: string; name: string }
+  | { action: 'duplicate'; id: string; name?: string }
+  | { action: 'delete'; id: string }
+  | { action: 'record_run'; id: string; run: SearchSnapshot };
+
+// Must match MAX_SNAPSHOT_TRIALS in the saved-searches function
+const MAX_SAVED_TRIALS = 2000;
+
+/** Snapshot of a run as stored with a saved search */
+export function searchResultToSnapshot(result: SearchResult): SearchSnapshot {
+  return toSearchSnapshot(result, MAX_SAVED_TRIALS);
+}
+
+async function postSavedSearchAction<T>(body: SavedSearchAction): Promise<T> {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/saved-searches`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, clientId: getClientId() }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Saved search request failed');
+  }
+
+  return response.json();
+}
+
+export async function listSavedSearches(): Promise<SavedSearch[]> {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/saved-searches?clientId=${encodeURIComponent(getClientId())}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load saved searches');
+  }
+
+  const data: { searches: SavedSearch[] } = await response.json();
+  return data.searches;
+}
+
+export async function createSavedSearch(name: string, params: SearchParams, run: SearchSnapshot): Promise<SavedSearch> {
+  const data = await postSavedSearchAction<{ search: SavedSearch }>({ action: 'create', name, params, run });
+  return data.search;
+}
+
+export async function renameSavedSearch(id: string, name: string): Promise<SavedSearch> {
+  const data = await postSavedSearchAction<{ search: SavedSearch }>({ action: 'rename', id, name });
+  return data.search;
+}
+
+export async function duplicateSavedSearch(id: string, name?: string): Promise<SavedSearch> {
+  const data = await postSavedSearchAction<{ search: SavedSearch }>({ action: 'duplicate', id, name });
+  return data.search;
+}
+
+export async function deleteSavedSearch(id: string): Promise<void> {
+  await postSavedSearchAction<{ deleted: string }>({ action: 'delete', id });
+}
+
+/**
+ * Stores a new run of a saved search and returns the snapshot it replaces
+ * (null on the first run), so the caller can diff the two
+ */
+export async function recordSavedSearchRun(
+  id: string,
+  run: SearchSnapshot
+): Promise<{ search: SavedSearch; previousSnapshot: SearchSnapshot | null }> {
+  return postSavedSearchAction({ action: 'record_run', id, run });
+}
+
+// Watches and the notification inbox (checks run server-side in watch-runner)
+export type WatchKind = 'search' | 'trial';
+
+export interface Watch {
+  id: string;
+  kind: WatchKind;
+  savedSearchId: string | null;
+  nctId: string | null;
+  label: string;
+  active: boolean;
+  checkIntervalHours: number;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export type WatchEventType =
+  | 'new_trial'
+  | 'trial_removed'
+  | 'status_changed'
+  | 'outcomes_changed'
+  | 'arms_changed'
+  | 'record_updated';
+
+export interface WatchNotification {
+  id: string;
+  watchId: string | null;
+  watchLabel: string;
+  eventType: WatchEventType;
+  nctId: string | null;
+  title: string;
+  details: Record<string, unknown>;
+  readAt: string | null;
+  deliveredAt: string | null;
+  deliveryError: string | null;
+  createdAt: string;
+}
+
+export interface NotificationChannel {
+  kind: 'webhook';
+  url: string;
+  hasSecret: boolean;
+  active: boolean;
+}
+
+export interface InboxData {
+  watches: Watch[];
+  notifications: WatchNotification[];
+  channel: NotificationChannel | null;
+}
+
+export type WatchTarget =
+  | { kind: 'search'; savedSearchId: string }
+  | { kind: 'trial'; nctId: string; label?: string };
+
+type WatchAction =
+  | { action: 'create_watch'; target: WatchTarget }
+  | { action: 'delete_watch'; id: string }
+  | { action: 'set_active'; id: string; active: boolean }
+  | { action: 'mark_read'; ids?: string[] }
+  | { action: 'set_channel'; channel: { url: string; secret?: string | null; active: boolean } | null }
+  | { action: 'test_channel' };
+
+async function postWatchAction<T>(body: WatchAction): Promise<T> {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/watches`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, clientId: getClientId() }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Watch request failed');
+  }
+
+  return response.json();
+}
+
+export async function getInbox(): Promise<InboxData> {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/watches?clientId=${encodeURIComponent(getClientId())}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load inbox');
+  }
+
+  return response.json();
+}
+
+export async function createWatch(target: WatchTarget): Promise<Watch> {
+  const data = await postWatchAction<{ watch: Watch }>({ action: 'create_watch', target });
+  return data.watch;
+}
+
+export async function deleteWatch(id: string): Promise<void> {
+  await postWatchAction<{ deleted: string }>({ action: 'delete_watch', id });
+}
+
+export async function setWatchActive(id: string, active: boolean): Promise<Watch> {
+  const data = await postWatchAction<{ watch: Watch }>({ action: 'set_active', id, active });
+  return data.watch;
+}
+
+/** Marks the given notifications read, or every unread one when `ids` is omitted */
+export async function markNotificationsRead(ids?: string[]): Promise<void> {
+  await postWatchAction<{ ok: boolean }>({ action: 'mark_read', ids });
+}
+
+/**
+ * Saves the webhook channel (null removes it). Leave `secret` undefined to
+ * keep the stored secret, null to clear it.
+ */
+export async function setNotificationChannel(
+  channel: { url: string; secret?: string | null; active: boolean } | null
+): Promise<NotificationChannel | null> {
+  const data = await postWatchAction<{ channel: NotificationChannel | null }>({ action: 'set_channel', channel });
+  return data.channel;
+}
+
+export async function testNotificationChannel(): Promise<{ ok: boolean; error?: string }> {
+  return postWatchAction({ action: 'test_channel' });
+}
+
+// --- Drug synonyms ---
+
+export interface DrugSynonymEntry {
+  id: string;
+  term: string;
+  synonym: string;
+  /** True for pairs added from this browser */
+  canDelete: boolean;
+  createdAt: string;
+}
+
+export interface DrugSynonymInfo {
+  drug: string;
+  /** Built-in synonyms (read-only) */
+  builtIn: string[];
+  /** User-added pairs involving the drug or one of its built-in names */
+  entries: DrugSynonymEntry[];
+  /** Everything a search for `drug` currently expands to */
+  synonyms: string[];
+}
+
+export async function getDrugSynonyms(drug: string): Promise<DrugSynonymInfo> {
+  const query = new URLSearchParams({ drug, clientId: getClientId() });
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/drug-synonyms?${query.toString()}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load drug synonyms');
+  }
+
+  return response.json();
+}
+
+type DrugSynonymAction =
+  | { action: 'add'; term: string; synonym: string }
+  | { action: 'delete'; id: string };
+
+async function postDrugSynonymAction<T>(body: DrugSynonymAction): Promise<T> {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/drug-synonyms`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, clientId: getClientId() }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Drug synonym request failed');
+  }
+
+  return response.json();
+}
+
+export async function addDrugSynonym(term: string, synonym: string): Promise<DrugSynonymEntry> {
+  const data = await postDrugSynonymAction<{ entry: DrugSynonymEntry }>({ action: 'add', term, synonym });
+  return data.entry;
+}
+
+export async function deleteDrugSynonym(id: string): Promise<void> {
+  await postDrugSynonymAction<{ deleted: string }>({ action: 'delete', id });
+}
+
+// --- Drug classes ---
+
+export interface DrugClassMember {
+  /** Set for user-added members */
+  id: string | null;
+  name: string;
+  builtIn: boolean;
+  /** True for members added from this browser */
+  canDelete: boolean;
+}
+
+export interface DrugClass {
+  key: string;
+  name: string;
+  atcCode: string | null;
+  /** False for classes that only exist through user-added members */
+  builtIn: boolean;
+  members: DrugClassMember[];
+}
+
+export async function listDrugClasses(): Promise<DrugClass[]> {
+  const query = new URLSearchParams({ clientId: getClientId() });
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/drug-classes?${query.toString()}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load drug classes');
+  }
+
+  const data = await response.json();
+  return data.classes;
+}
+
+type DrugClassAction =
+  | { action: 'add_member'; className: string; drug: string }
+  | { action: 'delete_member'; id: string };
+
+async function postDrugClassAction<T>(body: DrugClassAction): Promise<T> {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/drug-classes`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, clientId: getClientId() }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Drug class request failed');
+  }
+
+  return response.json();
+}
+
+/** Adds a drug to a class; naming a class that does not exist creates it */
+export async function addDrugClassMember(className: string, drug: string): Promise<void> {
+  await postDrugClassAction<{ id: string }>({ action: 'add_member', className, drug });
+}
+
+export async function deleteDrugClassMember(id: string): Promise<void> {
+  await postDrugClassAction<{ deleted: string }>({ action: 'delete_member', id });
+}
+
+// --- Typeahead ---
+
+export type SuggestField = 'drug' | 'condition' | 'sponsor';
+
+export interface Suggestion {
+  term: string;
+  /** Past searches, spellings seen in registry results, or the synonym dictionary */
+  source: 'history' | 'registry' | 'synonym';
+  hits: number;
+  /** Other names for drug suggestions found in the synonym dictionary */
+  synonyms?: string[];
+}
+
+export async function getSuggestions(field: SuggestField, q: string, signal?: AbortSignal): Promise<Suggestion[]> {
+  const query = new URLSearchParams({ field, q });
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/suggest?${query.toString()}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      signal,
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Failed to load suggestions');
+  }
+
+  const data = await response.json();
+  return data.suggestions;
+}
+
+// --- Search history ---
+
+/** A search logged by trials-search; `filters` is the logged filters_json */
+export interface SearchHistoryEntry {
+  id: string;
+  createdAt: string;
+  drug: string | null;
+  condition: string | null;
+  biomarker: string | null;
+  filters: Record<string, unknown>;
+  /** Null for searches logged before counts were recorded */
+  resultCount: number | null;
+  traceId: string | null;
+  durationMs: number | null;
+}
+
+export interface SearchHistoryFilter {
+  q?: string;
+  searchMode?: SearchMode;
+  /** Cursor from the previous page */
+  before?: string;
+}
+
+export async function listSearchHistory(
+  filter: SearchHistoryFilter = {}
+): Promise<{ entries: SearchHistoryEntry[]; nextCursor: string | null }> {
+  const query = new URLSearchParams({ clientId: getClientId() });
+  if (filter.q) query.set('q', filter.q);
+  if (filter.searchMode) query.set('searchMode', filter.searchMode);
+  if (filter.before) query.set('before', filter.before);
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/search-history?${query.toString()}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Failed to load search history');
+  }
+
+  return response.json();
+}
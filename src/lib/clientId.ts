@@ -0,0 +1,31 @@
+/**
+ * Anonymous per-browser identity
+ * There is no sign-in, so server-side records owned by "the user" (saved
+ * searches, …) are keyed on a random UUID kept in localStorage
+ */
+
+const CLIENT_ID_KEY = 'trial-compass:client-id';
+
+let cachedClientId: string | null = null;
+
+export function getClientId(): string {
+  if (cachedClientId) return cachedClientId;
+
+  try {
+    const stored = window.localStorage.getItem(CLIENT_ID_KEY);
+    if (stored) {
+      cachedClientId = stored;
+      return stored;
+    }
+  } catch {
+    // Storage unavailable: fall through to a session-only id
+  }
+
+  cachedClientId = crypto.randomUUID();
+  try {
+    window.localStorage.setItem(CLIENT_ID_KEY, cachedClientId);
+  } catch {
+    // Ignore: records are only reachable for this session
+  }
+  return cachedClientId;
+}
@@ -0,0 +1,57 @@
+/**
+ * Display helpers for parsed eligibility profiles (see EligibilityProfile in
+ * lib/api.ts; the parser is supabase/functions/_shared/eligibility.ts).
+ */
+
+import type { EligibilityProfile } from './api';
+
+type PerformanceStatus = EligibilityProfile['performanceStatus'][number];
+type PriorLines = NonNullable<EligibilityProfile['priorLines']>;
+type BrainMetastasesPolicy = NonNullable<EligibilityProfile['brainMetastases']>['policy'];
+type OrganSystem = EligibilityProfile['organFunction'][number]['system'];
+
+export const BRAIN_METASTASES_LABELS: Record<BrainMetastasesPolicy, string> = {
+  excluded: 'Excluded',
+  treated_allowed: 'Allowed if treated/stable',
+  allowed: 'Allowed',
+};
+
+export const ORGAN_SYSTEM_LABELS: Record<OrganSystem, string> = {
+  hematologic: 'Hematologic',
+  hepatic: 'Hepatic',
+  renal: 'Renal',
+  cardiac: 'Cardiac',
+};
+
+const formatYears = (years: number) => (years < 1 ? `${Math.round(years * 12)} mo` : `${years}`);
+
+/** "18–75 y", "≥ 18 y", "≤ 17 y"; null when no bound is known */
+export function formatAgeRange(profile: Pick<EligibilityProfile, 'minAgeYears' | 'maxAgeYears'>): string | null {
+  const { minAgeYears: min, maxAgeYears: max } = profile;
+  if (min !== null && max !== null) return `${formatYears(min)}–${formatYears(max)} y`;
+  if (min !== null) return `≥ ${formatYears(min)} y`;
+  if (max !== null) return `≤ ${formatYears(max)} y`;
+  return null;
+}
+
+/** "ECOG 0–1", "Karnofsky ≥ 70" */
+export function formatPerformanceStatus(ps: PerformanceStatus): string {
+  if (ps.scale === 'Karnofsky') return `Karnofsky ≥ ${ps.min}`;
+  return ps.min === ps.max ? `ECOG ${ps.min}` : `ECOG ${ps.min}–${ps.max}`;
+}
+
+/** "Treatment-naive", "≥ 1 prior line", "1–3 prior lines", "≤ 2 prior lines" */
+export function formatPriorLines({ min, max }: PriorLines): string {
+  if (max === 0) return 'Treatment-naive';
+  const unit = (n: number) => `prior line${n !== 1 ? 's' : ''}`;
+  if (min !== null && max !== null) return min === max ? `${min} ${unit(min)}` : `${min}–${max} ${unit(max)}`;
+  if (min !== null) return `≥ ${min} ${unit(min)}`;
+  return `≤ ${max} ${unit(max ?? 0)}`;
+}
+
+/** "EGFR+", "HER2−", "TMB" */
+export function formatBiomarker(biomarker: EligibilityProfile['biomarkers'][number]): string {
+  if (biomarker.status === 'positive') return `${biomarker.marker}+`;
+  if (biomarker.status === 'negative') return `${biomarker.marker}−`;
+  return biomarker.marker;
+}
@@ -0,0 +1,176 @@
+/**
+ * Eligibility Matrix Utilities
+ * Lines up the parsed eligibility of many trials (one row per trial, one
+ * column per criterion) so differences between their populations stand out
+ */
+
+import { Trial, EligibilitySummary } from './api';
+import {
+  BRAIN_METASTASES_LABELS,
+  ORGAN_SYSTEM_LABELS,
+  formatAgeRange,
+  formatBiomarker,
+  formatPerformanceStatus,
+  formatPriorLines,
+} from './eligibility';
+
+// ============= TYPES =============
+
+export type EligibilityColumnKey =
+  | 'age'
+  | 'performanceStatus'
+  | 'priorLines'
+  | 'biomarkers'
+  | 'brainMetastases'
+  | 'organFunction';
+
+export interface EligibilityCell {
+  /** Display value; '' when the criterion is not stated (or was not recognized) */
+  value: string;
+  /** The criteria the value was read from */
+  source: string;
+  /** True when a stated value differs from the most common value in its column */
+  differs: boolean;
+}
+
+export interface EligibilityMatrixRow {
+  trial: Trial;
+  /** False for trials without a parsed eligibility summary */
+  parsed: boolean;
+  cells: Record<EligibilityColumnKey, EligibilityCell>;
+}
+
+export interface EligibilityMatrixColumn {
+  key: EligibilityColumnKey;
+  label: string;
+  /** Distinct stated values, most common first */
+  values: { value: string; count: number }[];
+  /** Parsed trials that do not state this criterion */
+  notStated: number;
+  /** True when the trials state at least two different values */
+  heterogeneous: boolean;
+}
+
+export interface EligibilityMatrix {
+  columns: EligibilityMatrixColumn[];
+  rows: EligibilityMatrixRow[];
+}
+
+// ============= COLUMNS =============
+
+type Extracted = Pick<EligibilityCell, 'value' | 'source'>;
+
+const ORGAN_SYSTEM_ORDER = Object.keys(ORGAN_SYSTEM_LABELS) as (keyof typeof ORGAN_SYSTEM_LABELS)[];
+
+/** Unique source criteria, one per line */
+const sources = (texts: string[]) => Array.from(new Set(texts)).join('\n');
+
+const COLUMNS: { key: EligibilityColumnKey; label: string; extract: (e: EligibilitySummary) => Extracted }[] = [
+  {
+    key: 'age',
+    label: 'Age',
+    extract: (e) => ({ value: formatAgeRange(e) ?? '', source: '' }),
+  },
+  {
+    key: 'performanceStatus',
+    label: 'Performance status',
+    extract: (e) => ({
+      value: e.performanceStatus.map(formatPerformanceStatus).join('; '),
+      source: sources(e.performanceStatus.map((ps) => ps.text)),
+    }),
+  },
+  {
+    key: 'priorLines',
+    label: 'Prior lines',
+    extract: (e) => ({
+      value: e.priorLines ? formatPriorLines(e.priorLines) : '',
+      source: e.priorLines?.text ?? '',
+    }),
+  },
+  {
+    key: 'biomarkers',
+    label: 'Biomarkers',
+    // Sorted so that mention order alone never counts as a difference
+    extract: (e) => ({
+      value: e.biomarkers.map(formatBiomarker).sort().join(', '),
+      source: sources(e.biomarkers.map((b) => b.text)),
+    }),
+  },
+  {
+    key: 'brainMetastases',
+    label: 'Brain metastases',
+    extract: (e) => ({
+      value: e.brainMetastases ? BRAIN_METASTASES_LABELS[e.brainMetastases.policy] : '',
+      source: e.brainMetastases?.text ?? '',
+    }),
+  },
+  {
+    key: 'organFunction',
+    label: 'Organ function',
+    extract: (e) => {
+      const systems = new Set(e.organFunction.map((o) => o.system));
+      return {
+        value: ORGAN_SYSTEM_ORDER.filter((s) => systems.has(s)).map((s) => ORGAN_SYSTEM_LABELS[s]).join(', '),
+        source: sources(e.organFunction.map((o) => o.text)),
+      };
+    },
+  },
+];
+
+// ============= MAIN EXPORT =============
+
+/**
+ * Builds the trials × criteria matrix. Unstated criteria are left out of the
+ * heterogeneity check: the parser is conservative, so a blank cell means
+ * "not recognized" as often as "no restriction".
+ */
+export function buildEligibilityMatrix(trials: Trial[]): EligibilityMatrix {
+  const extracted = trials.map((trial) => ({
+    trial,
+    values: trial.eligibility ? COLUMNS.map((column) => column.extract(trial.eligibility!)) : null,
+  }));
+
+  const columns: EligibilityMatrixColumn[] = COLUMNS.map((column, c) => {
+    const counts = new Map<string, number>();
+    let notStated = 0;
+    for (const { values } of extracted) {
+      if (!values) continue;
+      const value = values[c].value;
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+      else notStated++;
+    }
+    const values = Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    return { key: column.key, label: column.label, values, notStated, heterogeneous: values.length > 1 };
+  });
+
+  const rows: EligibilityMatrixRow[] = extracted.map(({ trial, values }) => {
+    const cells = {} as Record<EligibilityColumnKey, EligibilityCell>;
+    COLUMNS.forEach((column, c) => {
+      const cell = values ? values[c] : { value: '', source: '' };
+      const mostCommon = columns[c].values[0]?.value;
+      cells[column.key] = { ...cell, differs: !!cell.value && columns[c].heterogeneous && cell.value !== mostCommon };
+    });
+    return { trial, parsed: !!values, cells };
+  });
+
+  return { columns, rows };
+}
+
+/**
+ * One CSV row per trial, one column per criterion
+ */
+export function eligibilityMatrixToCsvRows(matrix: EligibilityMatrix): Record<string, string>[] {
+  return matrix.rows.map((row) => {
+    const entry: Record<string, string> = {
+      NCT_ID: row.trial.nctId,
+      Title: row.trial.briefTitle,
+      Phase: row.trial.phase,
+    };
+    for (const column of matrix.columns) {
+      entry[column.label] = row.parsed ? row.cells[column.key].value || 'Not stated' : 'Not parsed';
+    }
+    entry.Parser_Version = row.trial.eligibility?.parserVersion || '';
+    return entry;
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * Client-side facets over loaded search results
+ * Counts and refines a Trial[] without re-querying ClinicalTrials.gov
+ */
+
+import { Trial } from './api';
+
+// ============= TYPES =============
+
+export type FacetKey = 'phase' | 'status' | 'studyType' | 'sponsor' | 'condition' | 'meshTerm' | 'interventionType';
+
+/** Selected values per facet: OR within a facet, AND across facets */
+export type FacetSelection = Partial<Record<FacetKey, string[]>>;
+
+export interface FacetValue {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface FacetGroup {
+  key: FacetKey;
+  label: string;
+  values: FacetValue[];
+}
+
+interface FacetDefinition {
+  key: FacetKey;
+  label: string;
+  getValues: (trial: Trial) => string[];
+}
+
+// ============= DEFINITIONS =============
+
+const humanize = (value: string) => value.replace(/_/g, ' ');
+
+const FACET_DEFINITIONS: FacetDefinition[] = [
+  {
+    key: 'phase',
+    label: 'Phase',
+    // Multi-phase trials ("PHASE1, PHASE2") count under each of their phases
+    getValues: (t) => (t.phase || 'N/A').split(',').map((p) => humanize(p.trim())).filter(Boolean),
+  },
+  { key: 'status', label: 'Status', getValues: (t) => [humanize(t.overallStatus || 'Unknown')] },
+  { key: 'studyType', label: 'Study type', getValues: (t) => [humanize(t.studyType || 'Unknown')] },
+  { key: 'sponsor', label: 'Sponsor', getValues: (t) => [t.leadSponsor || 'Unknown'] },
+  { key: 'condition', label: 'Condition', getValues: (t) => t.conditions || [] },
+  {
+    key: 'meshTerm',
+    label: 'Condition (MeSH)',
+    // A trial counts under its own MeSH terms and every ancestor, so
+    // "Breast Neoplasms" also gathers trials indexed under its subtypes
+    getValues: (t) => [...(t.conditionMeshTerms || []), ...(t.conditionMeshAncestors || [])],
+  },
+  {
+    key: 'interventionType',
+    label: 'Intervention type',
+    getValues: (t) => (t.interventions || []).map((i) => humanize(i.type || 'Unknown')),
+  },
+];
+
+// ============= HELPERS =============
+
+function trialValues(trial: Trial, definition: FacetDefinition): Set<string> {
+  return new Set(definition.getValues(trial));
+}
+
+function matchesFacet(trial: Trial, definition: FacetDefinition, selected: string[] | undefined): boolean {
+  if (!selected || selected.length === 0) return true;
+  const values = trialValues(trial, definition);
+  return selected.some((s) => values.has(s));
+}
+
+export function isSelectionEmpty(selection: FacetSelection): boolean {
+  return Object.values(selection).every((values) => !values || values.length === 0);
+}
+
+export function countSelected(selection: FacetSelection): number {
+  return Object.values(selection).reduce((sum, values) => sum + (values?.length || 0), 0);
+}
+
+// ============= MAIN EXPORTS =============
+
+/**
+ * Returns the trials matching every active facet
+ */
+export function applyFacets(trials: Trial[], selection: FacetSelection): Trial[] {
+  if (isSelectionEmpty(selection)) return trials;
+  return trials.filter((trial) =>
+    FACET_DEFINITIONS.every((definition) => matchesFacet(trial, definition, selection[definition.key]))
+  );
+}
+
+/**
+ * Computes value counts for every facet. Each facet is counted over the
+ * trials matching all *other* active facets, so selecting a value never
+ * hides its siblings (standard disjunctive faceting).
+ */
+export function computeFacets(trials: Trial[], selection: FacetSelection): FacetGroup[] {
+  return FACET_DEFINITIONS.map((definition) => {
+    const counts = new Map<string, number>();
+    const selected = selection[definition.key] || [];
+
+    for (const trial of trials) {
+      const matchesOthers = FACET_DEFINITIONS.every(
+        (other) => other.key === definition.key || matchesFacet(trial, other, selection[other.key])
+      );
+      if (!matchesOthers) continue;
+
+      for (const value of trialValues(trial, definition)) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+
+    // Keep selected values visible even if their count dropped to zero
+    for (const value of selected) {
+      if (!counts.has(value)) counts.set(value, 0);
+    }
+
+    const values = Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count, selected: selected.includes(value) }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+    return { key: definition.key, label: definition.label, values };
+  });
+}
+
+export function toggleFacetValue(selection: FacetSelection, key: FacetKey, value: string): FacetSelection {
+  const current = selection[key] || [];
+  const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+  return { ...selection, [key]: next };
+}
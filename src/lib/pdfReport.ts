@@ -19,6 +19,7 @@ import {
   SURROGATE_LABELS,
   PRO_LABELS,
 } from './picoAnalysis';
+import { ComparisonSection } from './trialComparison';
 
 // ============= TYPES =============
 
@@ -582,6 +583,9 @@ export function generateTrialPdfReport(data: PdfReportData): void {
 
   if (trial.trace) {
     labelValue('Data Fetched At', new Date(trial.trace.timestamp).toLocaleString());
+    if (trial.trace.classifierVersion) {
+      labelValue('Classifier Version', trial.trace.classifierVersion);
+    }
     for (const call of trial.trace.dataSourceCalls) {
       labelValue(`  Source Call`, `${call.source} (${call.resultCount ?? '?'} results)`);
     }
@@ -910,3 +914,145 @@ export function generateAnalysisPdfReport(data: AnalysisPdfReportData): void {
 
   doc.save(`PICO_Intelligence_Report_${new Date(date).toISOString().slice(0, 10)}.pdf`);
 }
+
+// ============= TRIAL COMPARISON PDF REPORT =============
+
+export interface ComparisonPdfReportData {
+  trials: TrialDetail[];
+  sections: ComparisonSection[];
+}
+
+const COMPARISON_CELL_MAX_CHARS = 600;
+
+export function generateComparisonPdfReport(data: ComparisonPdfReportData): void {
+  const { trials, sections } = data;
+  const doc = new jsPDF('l', 'mm', 'a4');
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 12;
+  const contentWidth = pageWidth - margin * 2;
+  const generatedAt = new Date();
+  let y = margin;
+
+  // ---- HELPERS ----
+
+  function drawHeader() {
+    doc.setFontSize(7);
+    doc.setTextColor(...COLORS.textMuted);
+    doc.text(`Trial Compass Comparison — ${trials.map((t) => t.nctId).join(', ')}`, margin, 8);
+    doc.text(
+      `Generated: ${generatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
+      pageWidth - margin,
+      8,
+      { align: 'right' }
+    );
+    doc.setDrawColor(...COLORS.border);
+    doc.line(margin, 10, pageWidth - margin, 10);
+    y = 15;
+  }
+
+  function drawFooter(pageNum: number, totalPages: number) {
+    doc.setFontSize(7);
+    doc.setTextColor(...COLORS.textMuted);
+    doc.text(`Page ${pageNum} of ${totalPages}`, pageWidth / 2, pageHeight - 6, { align: 'center' });
+    doc.text('Trial Compass — Clinical Trial Analysis Platform', margin, pageHeight - 6);
+  }
+
+  function sectionTitle(title: string) {
+    if (y + 20 > pageHeight - 15) {
+      doc.addPage();
+      drawHeader();
+    }
+    y += 2;
+    doc.setFillColor(...COLORS.primary);
+    doc.rect(margin, y, contentWidth, 7, 'F');
+    doc.setFontSize(10);
+    doc.setTextColor(...COLORS.white);
+    doc.setFont('helvetica', 'bold');
+    doc.text(title.toUpperCase(), margin + 3, y + 5);
+    doc.setFont('helvetica', 'normal');
+    y += 9;
+  }
+
+  function truncate(value: string): string {
+    if (!value) return '-';
+    return value.length > COMPARISON_CELL_MAX_CHARS ? value.substring(0, COMPARISON_CELL_MAX_CHARS) + '...' : value;
+  }
+
+  // ---- TITLE ----
+
+  drawHeader();
+  doc.setFontSize(16);
+  doc.setTextColor(...COLORS.primary);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Side-by-side Trial Comparison', margin, y + 4);
+  doc.setFont('helvetica', 'normal');
+  y += 10;
+
+  doc.setFontSize(8.5);
+  doc.setTextColor(...COLORS.text);
+  for (const trial of trials) {
+    const line = doc.splitTextToSize(`${trial.nctId} — ${trial.briefTitle}`, contentWidth);
+    doc.text(line, margin, y);
+    y += line.length * 3.8;
+  }
+  y += 1;
+  doc.setFontSize(7.5);
+  doc.setTextColor(...COLORS.textMuted);
+  doc.text('Rows where the trials differ are highlighted.', margin, y);
+  y += 4;
+
+  // ---- SECTIONS ----
+
+  const fieldWidth = 32;
+  const trialWidth = (contentWidth - fieldWidth) / trials.length;
+
+  for (const section of sections) {
+    sectionTitle(section.title);
+
+    autoTable(doc, {
+      startY: y,
+      head: [['Field', ...trials.map((t) => t.nctId)]],
+      body: section.rows.map((r) => [r.field, ...r.values.map(truncate)]),
+      theme: 'grid',
+      headStyles: {
+        fillColor: COLORS.primary,
+        textColor: COLORS.white,
+        fontSize: 7.5,
+        fontStyle: 'bold',
+        cellPadding: 2,
+      },
+      bodyStyles: {
+        fontSize: 6.5,
+        cellPadding: 1.5,
+        textColor: COLORS.text,
+        valign: 'top',
+      },
+      columnStyles: {
+        0: { cellWidth: fieldWidth, fontStyle: 'bold' },
+        ...Object.fromEntries(trials.map((_, i) => [i + 1, { cellWidth: trialWidth }])),
+      },
+      didParseCell: (hook) => {
+        if (hook.section === 'body' && section.rows[hook.row.index]?.differs) {
+          hook.cell.styles.fillColor = [254, 243, 199]; // Amber-100
+        }
+      },
+      margin: { left: margin, right: margin, top: 15 },
+      didDrawPage: () => {
+        drawHeader();
+      },
+    });
+
+    y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 4;
+  }
+
+  // ---- PAGE NUMBERS ----
+
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    drawFooter(i, totalPages);
+  }
+
+  doc.save(`TrialCompass_Comparison_${generatedAt.toISOString().slice(0, 10)}.pdf`);
+}
@@ -7,12 +7,35 @@ import { Trial, Arm, Outcome } from './api';
 
 // ============= TYPES =============
 
+/** A trial behind a PICO conclusion, with the arms or measures that placed it there */
+export interface PicoEvidenceTrial {
+  nctId: string;
+  briefTitle: string;
+  phase: string;
+  details: string[];
+}
+
+/** One category of a PICO line (e.g. "placebo") and the trials that fall into it */
+export interface PicoEvidenceGroup {
+  key: string;
+  label: string;
+  count: number;
+  trials: PicoEvidenceTrial[];
+}
+
+export type ComparatorEvidenceLine = 'predominantComparator' | 'hasDirectActiveComparator' | 'addOnDesigns' | 'phaseConsistency';
+export type EndpointEvidenceLine = 'dominantPrimaryEndpoint' | 'hasHardClinicalPrimary' | 'surrogateUsage' | 'prosPresence' | 'endpointConsistency';
+
 export interface ComparatorAnalysis {
   predominantComparator: 'placebo' | 'soc' | 'active' | 'add-on' | 'mixed' | 'not_evaluable';
   hasDirectActiveComparator: boolean | null;
   addOnDesigns: 'not_present' | 'minority' | 'relevant' | 'predominant' | 'not_evaluable';
   phaseConsistency: 'consistent' | 'changes' | 'not_evaluable';
   structuralNote: string;
+  /** NCT IDs of trials with at least one identified control arm */
+  evaluableTrialIds: string[];
+  /** Per-category trial lists behind each comparator line */
+  evidence: Record<ComparatorEvidenceLine, PicoEvidenceGroup[]>;
 }
 
 export interface EndpointAnalysis {
@@ -22,20 +45,98 @@ export interface EndpointAnalysis {
   prosPresence: 'not_present' | 'secondary' | 'relevant' | 'not_evaluable';
   endpointConsistency: 'high' | 'moderate' | 'low' | 'not_evaluable';
   structuralNote: string;
+  /** NCT IDs of trials with at least one registered primary outcome */
+  evaluableTrialIds: string[];
+  /** Per-category trial lists behind each endpoint line */
+  evidence: Record<EndpointEvidenceLine, PicoEvidenceGroup[]>;
 }
 
 export interface PicoAnalysis {
   comparator: ComparatorAnalysis;
   endpoint: EndpointAnalysis;
   totalTrials: number;
+  /** Thresholds the conclusions were computed with */
+  thresholds: PicoThresholds;
+}
+
+/** Proportions (0-1) that turn counts into PICO conclusions */
+export interface PicoThresholds {
+  /** Above this share a category is "predominant" */
+  predominant: number;
+  /** From this share up to `predominant` a category is "relevant" */
+  relevant: number;
+  /** At or above this share endpoint consistency is "high" */
+  consistencyHigh: number;
+  /** At or above this share endpoint consistency is "moderate" */
+  consistencyModerate: number;
 }
 
 // ============= THRESHOLDS =============
 
-const THRESHOLD_PREDOMINANT = 0.50; // >50%
-const THRESHOLD_RELEVANT = 0.20;    // 20-50%
-const THRESHOLD_CONSISTENCY_HIGH = 0.75;   // >75%
-const THRESHOLD_CONSISTENCY_MODERATE = 0.40; // 40-75%
+export const DEFAULT_PICO_THRESHOLDS: PicoThresholds = {
+  predominant: 0.50,        // >50%
+  relevant: 0.20,           // 20-50%
+  consistencyHigh: 0.75,    // >75%
+  consistencyModerate: 0.40, // 40-75%
+};
+
+// ============= EVIDENCE HELPERS =============
+
+type EvidenceBuckets = Record<string, PicoEvidenceTrial[]>;
+
+function addEvidence(buckets: EvidenceBuckets, key: string, trial: Trial, details: string[]): void {
+  if (!buckets[key]) buckets[key] = [];
+  buckets[key].push({
+    nctId: trial.nctId,
+    briefTitle: trial.briefTitle,
+    phase: trial.phase,
+    details,
+  });
+}
+
+function toEvidenceGroups(buckets: EvidenceBuckets, labels: Record<string, string>): PicoEvidenceGroup[] {
+  return Object.entries(buckets)
+    .map(([key, trials]) => ({ key, label: labels[key] || key, count: trials.length, trials }))
+    .sort((a, b) => b.count - a.count);
+}
+
+const COMPARATOR_TYPE_LABELS: Record<string, string> = {
+  placebo: 'Placebo',
+  soc: 'Tratamiento estándar (SOC)',
+  active: 'Comparador activo',
+  'add-on': 'Add-on sobre SOC',
+  no_intervention: 'Sin intervención',
+  unknown: 'Control sin tipificar',
+};
+
+const ADDON_EVIDENCE_LABELS: Record<string, string> = {
+  with_add_on: 'Con diseño add-on',
+  without_add_on: 'Sin diseño add-on',
+};
+
+const ENDPOINT_GROUP_LABELS: Record<string, string> = {
+  OS: 'Supervivencia Global (OS)',
+  PFS: 'PFS y otros tiempos hasta evento',
+  ORR: 'ORR y otras tasas de respuesta',
+  PRO: 'PRO (calidad de vida)',
+  safety: 'Seguridad',
+  other: 'Otros (biomarcadores, PK/PD, otros)',
+  with_os: 'Con OS como primaria',
+  without_os: 'Sin OS como primaria',
+  primary: 'Como primaria',
+  secondary_only: 'Solo como secundaria',
+};
+
+function describeArm(arm: Arm): string {
+  const parts = [arm.label || 'Brazo sin etiqueta'];
+  if (arm.controlType) parts.push(`(${arm.controlType})`);
+  if (arm.interventions && arm.interventions.length > 0) parts.push(`— ${arm.interventions.join(' + ')}`);
+  return parts.join(' ');
+}
+
+function describeOutcome(outcome: Outcome): string {
+  return `[${outcome.classification || 'Other'}] ${outcome.measure}`;
+}
 
 // ============= COMPARATOR ANALYSIS =============
 
@@ -70,6 +171,10 @@ function normalizeControlType(controlType: string | undefined | null): Comparato
 }
 
 function detectAddOnDesign(arm: Arm): boolean {
+  // Prefer the flag set by the shared server-side classifier; fall back to
+  // local detection for payloads that predate it.
+  if (typeof arm.isAddOn === 'boolean') return arm.isAddOn;
+
   const desc = (arm.description || '').toLowerCase();
   const label = (arm.label || '').toLowerCase();
   const text = `${desc} ${label}`;
@@ -85,7 +190,7 @@ function detectAddOnDesign(arm: Arm): boolean {
   return addOnPatterns.some(pattern => text.includes(pattern));
 }
 
-function analyzeComparators(trials: Trial[]): ComparatorAnalysis {
+function analyzeComparators(trials: Trial[], thresholds: PicoThresholds): ComparatorAnalysis {
   if (!trials || trials.length === 0) {
     return {
       predominantComparator: 'not_evaluable',
@@ -93,6 +198,13 @@ function analyzeComparators(trials: Trial[]): ComparatorAnalysis {
       addOnDesigns: 'not_evaluable',
       phaseConsistency: 'not_evaluable',
       structuralNote: 'No evaluable con los datos disponibles.',
+      evaluableTrialIds: [],
+      evidence: {
+        predominantComparator: [],
+        hasDirectActiveComparator: [],
+        addOnDesigns: [],
+        phaseConsistency: [],
+      },
     };
   }
 
@@ -109,16 +221,25 @@ function analyzeComparators(trials: Trial[]): ComparatorAnalysis {
   let trialsWithAddOn = 0;
   let trialsWithActiveComparator = 0;
   const comparatorByPhase: Record<string, ComparatorType[]> = {};
+  const evaluableTrialIds: string[] = [];
+  const comparatorEvidence: EvidenceBuckets = {};
+  const activeEvidence: EvidenceBuckets = {};
+  const addOnEvidence: EvidenceBuckets = {};
+  const phaseEvidence: EvidenceBuckets = {};
 
   for (const trial of trials) {
     const arms = trial.arms || [];
     let trialHasAddOn = false;
     let trialComparatorTypes: ComparatorType[] = [];
+    const controlArms: string[] = [];
+    const activeArms: string[] = [];
+    const addOnArms: string[] = [];
 
     for (const arm of arms) {
       // Detect add-on designs
       if (detectAddOnDesign(arm)) {
         trialHasAddOn = true;
+        addOnArms.push(describeArm(arm));
       }
 
       // Analyze control arms
@@ -127,19 +248,28 @@ function analyzeComparators(trials: Trial[]): ComparatorAnalysis {
           arm.type?.toLowerCase().includes('placebo')) {
         const controlType = normalizeControlType(arm.controlType || arm.type);
         trialComparatorTypes.push(controlType);
+        controlArms.push(describeArm(arm));
         
         if (controlType === 'active') {
           trialsWithActiveComparator++;
+          activeArms.push(describeArm(arm));
         }
       }
     }
 
+    if (activeArms.length > 0) {
+      addEvidence(activeEvidence, 'active', trial, activeArms);
+    }
+    addEvidence(addOnEvidence, trialHasAddOn ? 'with_add_on' : 'without_add_on', trial, addOnArms);
+
     // Count predominant comparator per trial
     if (trialComparatorTypes.length > 0) {
       // Get the most specific comparator type for this trial
       const priorityOrder: ComparatorType[] = ['active', 'soc', 'placebo', 'add-on', 'no_intervention', 'unknown'];
       const primaryComparator = priorityOrder.find(type => trialComparatorTypes.includes(type)) || 'unknown';
       comparatorCounts[primaryComparator]++;
+      evaluableTrialIds.push(trial.nctId);
+      addEvidence(comparatorEvidence, primaryComparator, trial, controlArms);
       
       // Track by phase
       const phase = normalizePhase(trial.phase);
@@ -147,6 +277,7 @@ function analyzeComparators(trials: Trial[]): ComparatorAnalysis {
         comparatorByPhase[phase] = [];
       }
       comparatorByPhase[phase].push(primaryComparator);
+      addEvidence(phaseEvidence, phase, trial, [`Comparador: ${COMPARATOR_TYPE_LABELS[primaryComparator]}`]);
     }
 
     if (trialHasAddOn) {
@@ -171,7 +302,7 @@ function analyzeComparators(trials: Trial[]): ComparatorAnalysis {
     
     const proportion = maxCount / validTotal;
     
-    if (proportion > THRESHOLD_PREDOMINANT) {
+    if (proportion > thresholds.predominant) {
       if (maxCount === comparatorCounts.placebo) predominantComparator = 'placebo';
       else if (maxCount === comparatorCounts.soc) predominantComparator = 'soc';
       else if (maxCount === comparatorCounts.active) predominantComparator = 'active';
@@ -186,8 +317,8 @@ function analyzeComparators(trials: Trial[]): ComparatorAnalysis {
   if (totalTrials > 0) {
     const addOnProportion = trialsWithAddOn / totalTrials;
     if (addOnProportion === 0) addOnDesigns = 'not_present';
-    else if (addOnProportion < THRESHOLD_RELEVANT) addOnDesigns = 'minority';
-    else if (addOnProportion <= THRESHOLD_PREDOMINANT) addOnDesigns = 'relevant';
+    else if (addOnProportion < thresholds.relevant) addOnDesigns = 'minority';
+    else if (addOnProportion <= thresholds.predominant) addOnDesigns = 'relevant';
     else addOnDesigns = 'predominant';
   }
 
@@ -226,6 +357,13 @@ function analyzeComparators(trials: Trial[]): ComparatorAnalysis {
     addOnDesigns,
     phaseConsistency,
     structuralNote,
+    evaluableTrialIds,
+    evidence: {
+      predominantComparator: toEvidenceGroups(comparatorEvidence, COMPARATOR_TYPE_LABELS),
+      hasDirectActiveComparator: toEvidenceGroups(activeEvidence, COMPARATOR_TYPE_LABELS),
+      addOnDesigns: toEvidenceGroups(addOnEvidence, ADDON_EVIDENCE_LABELS),
+      phaseConsistency: toEvidenceGroups(phaseEvidence, {}),
+    },
   };
 }
 
@@ -310,7 +448,17 @@ function classifyEndpoint(classification: string | undefined): EndpointType {
   return 'other';
 }
 
-function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
+/** Summary category used for dominance (mirrors the grouping in analyzeEndpoints) */
+function endpointGroup(type: EndpointType): string {
+  if (type === 'OS') return 'OS';
+  if (['PFS', 'DFS', 'EFS', 'RFS', 'TTP', 'TTF'].includes(type)) return 'PFS';
+  if (['ORR', 'CR', 'pCR', 'CBR', 'DCR', 'DOR', 'MRD'].includes(type)) return 'ORR';
+  if (type === 'PRO') return 'PRO';
+  if (type === 'safety') return 'safety';
+  return 'other';
+}
+
+function analyzeEndpoints(trials: Trial[], thresholds: PicoThresholds): EndpointAnalysis {
   if (!trials || trials.length === 0) {
     return {
       dominantPrimaryEndpoint: 'not_evaluable',
@@ -319,6 +467,14 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
       prosPresence: 'not_evaluable',
       endpointConsistency: 'not_evaluable',
       structuralNote: 'No evaluable con los datos disponibles.',
+      evaluableTrialIds: [],
+      evidence: {
+        dominantPrimaryEndpoint: [],
+        hasHardClinicalPrimary: [],
+        surrogateUsage: [],
+        prosPresence: [],
+        endpointConsistency: [],
+      },
     };
   }
 
@@ -336,6 +492,12 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
   let trialsWithPROAsPrimary = 0;
   
   const primaryEndpointsByTrial: EndpointType[][] = [];
+  const evaluableTrialIds: string[] = [];
+  const dominantEvidence: EvidenceBuckets = {};
+  const hardEvidence: EvidenceBuckets = {};
+  const surrogateEvidence: EvidenceBuckets = {};
+  const proEvidence: EvidenceBuckets = {};
+  const consistencyEvidence: EvidenceBuckets = {};
 
   for (const trial of trials) {
     const primaryOutcomes = trial.primaryOutcomes || [];
@@ -346,22 +508,33 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
     let trialHasSurrogatePrimary = false;
     let trialHasPRO = false;
     let trialHasPROPrimary = false;
+    const primaryByGroup: Record<string, string[]> = {};
+    const surrogatePrimary: string[] = [];
+    const surrogateSecondary: string[] = [];
+    const proPrimary: string[] = [];
+    const proSecondary: string[] = [];
     
     // Analyze primary outcomes
     for (const outcome of primaryOutcomes) {
       const type = classifyEndpoint(outcome.classification);
       trialPrimaryTypes.push(type);
       primaryEndpointCounts[type]++;
+
+      const group = endpointGroup(type);
+      if (!primaryByGroup[group]) primaryByGroup[group] = [];
+      primaryByGroup[group].push(describeOutcome(outcome));
       
       if (HARD_CLINICAL_ENDPOINTS.includes(type)) {
         trialHasHardPrimary = true;
       }
       if (SURROGATE_ENDPOINTS.includes(type)) {
         trialHasSurrogatePrimary = true;
+        surrogatePrimary.push(describeOutcome(outcome));
       }
       if (type === 'PRO') {
         trialHasPROPrimary = true;
         trialHasPRO = true;
+        proPrimary.push(describeOutcome(outcome));
       }
     }
     
@@ -371,10 +544,12 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
       
       if (SURROGATE_ENDPOINTS.includes(type)) {
         trialsWithSurrogateSecondary++;
+        surrogateSecondary.push(describeOutcome(outcome));
         break; // Count trial once
       }
       if (type === 'PRO') {
         trialHasPRO = true;
+        proSecondary.push(describeOutcome(outcome));
       }
     }
     
@@ -382,6 +557,25 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
     if (trialHasSurrogatePrimary) trialsWithSurrogatePrimary++;
     if (trialHasPRO) trialsWithPRO++;
     if (trialHasPROPrimary) trialsWithPROAsPrimary++;
+    if (primaryOutcomes.length > 0) evaluableTrialIds.push(trial.nctId);
+
+    for (const [group, details] of Object.entries(primaryByGroup)) {
+      addEvidence(dominantEvidence, group, trial, details);
+    }
+    if (primaryOutcomes.length > 0) {
+      addEvidence(hardEvidence, trialHasHardPrimary ? 'with_os' : 'without_os', trial,
+        trialHasHardPrimary ? primaryByGroup.OS : primaryOutcomes.map(describeOutcome));
+    }
+    if (trialHasSurrogatePrimary) {
+      addEvidence(surrogateEvidence, 'primary', trial, surrogatePrimary);
+    } else if (surrogateSecondary.length > 0) {
+      addEvidence(surrogateEvidence, 'secondary_only', trial, surrogateSecondary);
+    }
+    if (trialHasPROPrimary) {
+      addEvidence(proEvidence, 'primary', trial, [...proPrimary, ...proSecondary]);
+    } else if (trialHasPRO) {
+      addEvidence(proEvidence, 'secondary_only', trial, proSecondary);
+    }
     
     primaryEndpointsByTrial.push(trialPrimaryTypes);
   }
@@ -405,7 +599,7 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
     const maxGroup = Object.entries(groupedCounts).find(([, count]) => count === maxGroupCount)?.[0];
     const proportion = maxGroupCount / totalPrimaryEndpoints;
 
-    if (proportion > THRESHOLD_PREDOMINANT) {
+    if (proportion > thresholds.predominant) {
       if (maxGroup === 'OS') dominantPrimaryEndpoint = 'OS';
       else if (maxGroup === 'PFS') dominantPrimaryEndpoint = 'PFS';
       else if (maxGroup === 'ORR') dominantPrimaryEndpoint = 'ORR';
@@ -425,7 +619,7 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
   if (totalTrials > 0) {
     const surrogatePrimaryProportion = trialsWithSurrogatePrimary / totalTrials;
     
-    if (surrogatePrimaryProportion > THRESHOLD_PREDOMINANT) {
+    if (surrogatePrimaryProportion > thresholds.predominant) {
       surrogateUsage = 'primary_predominant';
     } else if (trialsWithSurrogateSecondary > 0 || trialsWithSurrogatePrimary > 0) {
       surrogateUsage = surrogatePrimaryProportion > 0 ? 'primary_predominant' : 'secondary';
@@ -441,7 +635,7 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
     
     if (proProportion === 0) {
       prosPresence = 'not_present';
-    } else if (trialsWithPROAsPrimary > 0 || proProportion >= THRESHOLD_RELEVANT) {
+    } else if (trialsWithPROAsPrimary > 0 || proProportion >= thresholds.relevant) {
       prosPresence = 'relevant';
     } else {
       prosPresence = 'secondary';
@@ -461,6 +655,12 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
       }, {} as Record<string, number>);
       return Object.entries(counts).sort((a, b) => b[1] - a[1])[0][0];
     });
+
+    dominantTypes.forEach((type, index) => {
+      const outcomes = trials[index].primaryOutcomes || [];
+      addEvidence(consistencyEvidence, type, trials[index],
+        outcomes.length > 0 ? outcomes.map(describeOutcome) : ['Sin variables primarias registradas']);
+    });
     
     const mostCommonDominant = dominantTypes.reduce((acc, t) => {
       acc[t] = (acc[t] || 0) + 1;
@@ -469,9 +669,9 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
     
     const maxConsistency = Math.max(...Object.values(mostCommonDominant)) / primaryEndpointsByTrial.length;
     
-    if (maxConsistency >= THRESHOLD_CONSISTENCY_HIGH) {
+    if (maxConsistency >= thresholds.consistencyHigh) {
       endpointConsistency = 'high';
-    } else if (maxConsistency >= THRESHOLD_CONSISTENCY_MODERATE) {
+    } else if (maxConsistency >= thresholds.consistencyModerate) {
       endpointConsistency = 'moderate';
     } else {
       endpointConsistency = 'low';
@@ -493,6 +693,14 @@ function analyzeEndpoints(trials: Trial[]): EndpointAnalysis {
     prosPresence,
     endpointConsistency,
     structuralNote,
+    evaluableTrialIds,
+    evidence: {
+      dominantPrimaryEndpoint: toEvidenceGroups(dominantEvidence, ENDPOINT_GROUP_LABELS),
+      hasHardClinicalPrimary: toEvidenceGroups(hardEvidence, ENDPOINT_GROUP_LABELS),
+      surrogateUsage: toEvidenceGroups(surrogateEvidence, ENDPOINT_GROUP_LABELS),
+      prosPresence: toEvidenceGroups(proEvidence, ENDPOINT_GROUP_LABELS),
+      endpointConsistency: toEvidenceGroups(consistencyEvidence, {}),
+    },
   };
 }
 
@@ -576,11 +784,12 @@ function normalizePhase(phase: string | undefined): string {
  * Analyzes a set of trials from a PICO/HTA perspective
  * Returns deterministic analysis based solely on structured data
  */
-export function analyzePico(trials: Trial[]): PicoAnalysis {
+export function analyzePico(trials: Trial[], thresholds: PicoThresholds = DEFAULT_PICO_THRESHOLDS): PicoAnalysis {
   return {
-    comparator: analyzeComparators(trials),
-    endpoint: analyzeEndpoints(trials),
+    comparator: analyzeComparators(trials, thresholds),
+    endpoint: analyzeEndpoints(trials, thresholds),
     totalTrials: trials.length,
+    thresholds,
   };
 }
 
@@ -591,6 +800,77 @@ export function analyzeSingleTrialPico(trial: Trial): PicoAnalysis {
   return analyzePico([trial]);
 }
 
+// ============= SENSITIVITY ANALYSIS =============
+
+export interface PicoSensitivityScenario {
+  label: string;
+  thresholds: PicoThresholds;
+}
+
+export interface PicoSensitivityRow {
+  line: string;
+  /** Conclusion label under each scenario, in scenario order */
+  values: string[];
+  /** True when at least one scenario reaches a different conclusion */
+  flips: boolean;
+}
+
+/** Alternative values tried for each threshold when testing robustness */
+export const SENSITIVITY_STEPS: Record<keyof PicoThresholds, number[]> = {
+  predominant: [0.40, 0.50, 0.60],
+  relevant: [0.10, 0.20, 0.30],
+  consistencyHigh: [0.65, 0.75, 0.85],
+  consistencyModerate: [0.30, 0.40, 0.50],
+};
+
+export const THRESHOLD_NAMES: Record<keyof PicoThresholds, string> = {
+  predominant: 'Predominante',
+  relevant: 'Relevante',
+  consistencyHigh: 'Consistencia alta',
+  consistencyModerate: 'Consistencia moderada',
+};
+
+export function formatThreshold(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Builds one scenario per step for a single threshold, keeping the others
+ * at their base values
+ */
+export function buildSensitivityScenarios(
+  base: PicoThresholds,
+  key: keyof PicoThresholds,
+  steps: number[] = SENSITIVITY_STEPS[key]
+): PicoSensitivityScenario[] {
+  return steps.map((value) => ({
+    label: `${THRESHOLD_NAMES[key]} ${formatThreshold(value)}`,
+    thresholds: { ...base, [key]: value },
+  }));
+}
+
+/**
+ * Re-runs the PICO reading under each scenario and reports, per
+ * threshold-dependent conclusion, whether it holds across all of them
+ */
+export function runPicoSensitivity(trials: Trial[], scenarios: PicoSensitivityScenario[]): PicoSensitivityRow[] {
+  const analyses = scenarios.map((scenario) => analyzePico(trials, scenario.thresholds));
+
+  const lines: { line: string; value: (analysis: PicoAnalysis) => string }[] = [
+    { line: 'Comparador predominante', value: (a) => COMPARATOR_LABELS[a.comparator.predominantComparator] },
+    { line: 'Diseños add-on sobre SOC', value: (a) => ADDON_LABELS[a.comparator.addOnDesigns] },
+    { line: 'Endpoint primario dominante', value: (a) => ENDPOINT_LABELS[a.endpoint.dominantPrimaryEndpoint] },
+    { line: 'Uso de endpoints subrogados', value: (a) => SURROGATE_LABELS[a.endpoint.surrogateUsage] },
+    { line: 'PROs (calidad de vida)', value: (a) => PRO_LABELS[a.endpoint.prosPresence] },
+    { line: 'Consistencia de endpoints entre ensayos', value: (a) => CONSISTENCY_LABELS[a.endpoint.endpointConsistency] },
+  ];
+
+  return lines.map(({ line, value }) => {
+    const values = analyses.map(value);
+    return { line, values, flips: new Set(values).size > 1 };
+  });
+}
+
 // ============= LABEL HELPERS =============
 
 export const COMPARATOR_LABELS: Record<ComparatorAnalysis['predominantComparator'], string> = {
@@ -0,0 +1,89 @@
+/**
+ * Advanced boolean queries: nested AND/OR groups of field terms.
+ * trials-search validates the tree and compiles it to ClinicalTrials.gov
+ * Essie syntax (supabase/functions/_shared/queryBuilder.ts); the limits and
+ * field list here mirror that module.
+ */
+
+import type { FilterOption } from './searchFilters';
+
+export type QueryField = 'intervention' | 'condition' | 'title' | 'eligibility' | 'sponsor' | 'outcome';
+
+export const QUERY_FIELDS: (FilterOption & { value: QueryField })[] = [
+  { value: 'intervention', label: 'Intervention' },
+  { value: 'condition', label: 'Condition' },
+  { value: 'title', label: 'Title' },
+  { value: 'eligibility', label: 'Eligibility criteria' },
+  { value: 'sponsor', label: 'Sponsor / collaborator' },
+  { value: 'outcome', label: 'Outcome measure' },
+];
+
+/** Nesting levels below the root group */
+export const MAX_QUERY_DEPTH = 4;
+export const MAX_QUERY_TERMS = 30;
+
+export interface QueryTerm {
+  type: 'term';
+  field: QueryField;
+  value: string;
+  negate?: boolean;
+}
+
+export interface QueryGroup {
+  type: 'group';
+  op: 'AND' | 'OR';
+  negate?: boolean;
+  children: QueryNode[];
+}
+
+export type QueryNode = QueryTerm | QueryGroup;
+
+export function newQueryTerm(field: QueryField = 'intervention'): QueryTerm {
+  return { type: 'term', field, value: '' };
+}
+
+export function newQueryGroup(op: QueryGroup['op'] = 'AND'): QueryGroup {
+  return { type: 'group', op, children: [newQueryTerm()] };
+}
+
+export function countQueryTerms(node: QueryNode): number {
+  return node.type === 'term' ? 1 : node.children.reduce((sum, child) => sum + countQueryTerms(child), 0);
+}
+
+/**
+ * Drops blank terms and the groups left empty by that, so a half-filled
+ * builder still submits; null when nothing is left.
+ */
+export function pruneQuery(node: QueryNode): QueryNode | null {
+  if (node.type === 'term') {
+    return node.value.trim() ? { ...node, value: node.value.trim() } : null;
+  }
+  const children = node.children.map(pruneQuery).filter((child): child is QueryNode => child !== null);
+  return children.length > 0 ? { ...node, children } : null;
+}
+
+/** Structural check for query trees read back from URLs and saved searches */
+export function isQueryNode(value: unknown): value is QueryNode {
+  if (typeof value !== 'object' || value === null) return false;
+  const node = value as Record<string, unknown>;
+  if (node.type === 'term') {
+    return QUERY_FIELDS.some((f) => f.value === node.field) && typeof node.value === 'string';
+  }
+  return node.type === 'group'
+    && (node.op === 'AND' || node.op === 'OR')
+    && Array.isArray(node.children)
+    && node.children.every(isQueryNode);
+}
+
+/** Compact label, e.g. `intervention: pembrolizumab AND (condition: NSCLC OR NOT title: pediatric)` */
+export function describeQuery(node: QueryNode, nested = false): string {
+  let text: string;
+  if (node.type === 'term') {
+    text = `${node.field}: ${node.value}`;
+  } else {
+    const parts = node.children.map((child) => describeQuery(child, true));
+    text = parts.join(` ${node.op} `);
+    if ((nested || node.negate) && parts.length > 1) text = `(${text})`;
+  }
+  return node.negate ? `NOT ${text}` : text;
+}
@@ -0,0 +1,62 @@
+/**
+ * Display helpers for posted trial results (see PostedResults in lib/api.ts;
+ * the normalizer is supabase/functions/_shared/results.ts).
+ */
+
+import type { GroupCount, ResultMeasurement, StatisticalAnalysis } from './api';
+
+export const OUTCOME_TYPE_LABELS: Record<string, string> = {
+  PRIMARY: 'Primary',
+  SECONDARY: 'Secondary',
+  OTHER_PRE_SPECIFIED: 'Other pre-specified',
+  POST_HOC: 'Post hoc',
+};
+
+/** "COUNT_OF_PARTICIPANTS" → "Count of participants", "CONFIDENCE_INTERVAL_95" → "95% confidence interval" */
+export function formatResultEnum(value: string): string {
+  if (!value) return '';
+  const ci = value.match(/^CONFIDENCE_INTERVAL_(\d+)$/);
+  if (ci) return `${ci[1]}% confidence interval`;
+  const words = value.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** The count reported for a group, or null */
+export function countForGroup(counts: GroupCount[], groupId: string): number | null {
+  return counts.find((c) => c.groupId === groupId)?.count ?? null;
+}
+
+/**
+ * "12.4 (3.1)" for SD/SE, "12.4 (10.2 to 14.9)" for CIs and ranges, and
+ * "18 (42.9%)" for counts when the registry asks for a percentage of the
+ * group's participants
+ */
+export function formatMeasurement(m: ResultMeasurement, options: { calculatePct?: boolean; denom?: number | null } = {}): string {
+  const value = m.text || '—';
+  if (m.spread !== null) return `${value} (${m.spread})`;
+  if (m.lowerLimit !== null || m.upperLimit !== null) {
+    return `${value} (${m.lowerLimit ?? 'NA'} to ${m.upperLimit ?? 'NA'})`;
+  }
+  if (options.calculatePct && m.value !== null && options.denom) {
+    return `${value} (${((m.value / options.denom) * 100).toFixed(1)}%)`;
+  }
+  return value;
+}
+
+/** "Hazard Ratio (HR) 0.72 (95% CI 0.60 to 0.87)"; null when nothing was estimated */
+export function formatEstimate(a: StatisticalAnalysis): string | null {
+  if (a.paramValue === null) return null;
+  const label = a.paramType || 'Estimate';
+  const hasCi = a.ciLowerLimit !== null || a.ciUpperLimit !== null;
+  const ci = hasCi
+    ? ` (${a.ciPct ?? 95}% CI ${a.ciLowerLimit ?? 'NA'} to ${a.ciUpperLimit ?? 'NA'})`
+    : '';
+  return `${label} ${a.paramValue}${ci}`;
+}
+
+/** "p = 0.03", "p < 0.001"; null when no p-value was reported */
+export function formatPValue(a: StatisticalAnalysis): string | null {
+  const text = a.pValue.trim();
+  if (!text) return null;
+  return /^[<>≤≥=]/.test(text) ? `p ${text.replace(/^([<>≤≥]=?|=)\s*/, '$1 ')}` : `p = ${text}`;
+}
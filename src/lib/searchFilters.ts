@@ -0,0 +1,56 @@
+/**
+ * Options of the structured search filters. Values are the lower-case form of
+ * the ClinicalTrials.gov enum values; trials-search validates against the
+ * same lists.
+ */
+
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+export const SPONSOR_CLASSES: FilterOption[] = [
+  { value: "industry", label: "Industry" },
+  { value: "nih", label: "NIH" },
+  { value: "other", label: "Other (academic, etc.)" },
+];
+
+export const ALLOCATIONS: FilterOption[] = [
+  { value: "randomized", label: "Randomized" },
+  { value: "non_randomized", label: "Non-randomized" },
+];
+
+export const MASKINGS: FilterOption[] = [
+  { value: "none", label: "None (open label)" },
+  { value: "single", label: "Single" },
+  { value: "double", label: "Double" },
+  { value: "triple", label: "Triple" },
+  { value: "quadruple", label: "Quadruple" },
+];
+
+export const INTERVENTION_TYPES: FilterOption[] = [
+  { value: "drug", label: "Drug" },
+  { value: "biological", label: "Biological" },
+  { value: "device", label: "Device" },
+  { value: "procedure", label: "Procedure" },
+  { value: "radiation", label: "Radiation" },
+  { value: "behavioral", label: "Behavioral" },
+  { value: "genetic", label: "Genetic" },
+  { value: "dietary_supplement", label: "Dietary supplement" },
+  { value: "combination_product", label: "Combination product" },
+  { value: "diagnostic_test", label: "Diagnostic test" },
+  { value: "other", label: "Other" },
+];
+
+export const AGE_GROUPS: FilterOption[] = [
+  { value: "child", label: "Child (birth–17)" },
+  { value: "adult", label: "Adult (18–64)" },
+  { value: "older_adult", label: "Older adult (65+)" },
+];
+
+export const SEXES: FilterOption[] = [
+  { value: "female", label: "Female" },
+  { value: "male", label: "Male" },
+];
+
+export const optionValues = (options: FilterOption[]) => options.map((o) => o.value);
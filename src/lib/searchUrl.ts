@@ -0,0 +1,243 @@
+/**
+ * SearchParams <-> URL query string
+ * Used both for shareable /?drug=… deep links and for the trials-search call
+ */
+
+import type { SearchHistoryEntry, SearchMode, SearchParams } from './api';
+import {
+  AGE_GROUPS,
+  ALLOCATIONS,
+  INTERVENTION_TYPES,
+  MASKINGS,
+  optionValues,
+  SEXES,
+  SPONSOR_CLASSES,
+} from './searchFilters';
+import { describeQuery, isQueryNode, QueryNode } from './queryBuilder';
+
+const SEARCH_MODES: SearchMode[] = ['drug', 'condition', 'combined', 'ids', 'class', 'advanced'];
+const PHASE_VALUES = ['early_1', '1', '2', '3', '4'];
+const STATUS_VALUES = [
+  'recruiting',
+  'active_not_recruiting',
+  'completed',
+  'not_yet_recruiting',
+  'terminated',
+  'withdrawn',
+  'suspended',
+];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Date range params besides minDate/maxDate (last update) */
+export const DATE_RANGE_KEYS = [
+  'startFrom', 'startTo',
+  'primaryCompletionFrom', 'primaryCompletionTo',
+  'completionFrom', 'completionTo',
+  'firstPostedFrom', 'firstPostedTo',
+] as const;
+const MAX_RESULTS_LIMIT = 500;
+
+export const NCT_ID_PATTERN = /^NCT\d{8}$/;
+export const MAX_BATCH_IDS = 500;
+
+/**
+ * Splits pasted text (newlines, commas, semicolons, spaces) into upper-cased,
+ * de-duplicated NCT IDs; tokens that do not match NCT_ID_PATTERN are
+ * returned separately so the form can point at them.
+ */
+export function parseNctIdList(text: string): { ids: string[]; invalid: string[] } {
+  const tokens = text.split(/[\s,;|]+/).map(t => t.trim().toUpperCase()).filter(Boolean);
+  const ids = Array.from(new Set(tokens.filter(t => NCT_ID_PATTERN.test(t))));
+  const invalid = Array.from(new Set(tokens.filter(t => !NCT_ID_PATTERN.test(t))));
+  return { ids, invalid };
+}
+
+/**
+ * Serializes every set field of `params`. Phases and statuses are repeated
+ * keys (`phase=2&phase=3`), matching what trials-search reads with getAll().
+ * A batch lookup only carries its ID list (`searchMode=ids&ids=NCT…,NCT…`);
+ * an advanced query tree is written as JSON (`advancedQuery={…}`).
+ */
+export function searchParamsToQuery(params: SearchParams): URLSearchParams {
+  const query = new URLSearchParams();
+
+  if (params.searchMode) query.set('searchMode', params.searchMode);
+  if (params.searchMode === 'ids') {
+    if (params.nctIds?.length) query.set('ids', params.nctIds.join(','));
+    return query;
+  }
+
+  if (params.drug) query.set('drug', params.drug);
+  if (params.drugClass) query.set('drugClass', params.drugClass);
+  if (params.advancedQuery) query.set('advancedQuery', JSON.stringify(params.advancedQuery));
+  if (params.condition) query.set('condition', params.condition);
+  if (params.biomarker) query.set('biomarker', params.biomarker);
+  if (params.studyType) query.set('studyType', params.studyType);
+  if (params.minDate) query.set('minDate', params.minDate);
+  if (params.maxDate) query.set('maxDate', params.maxDate);
+  if (params.maxResults) query.set('maxResults', params.maxResults.toString());
+  if (params.exhaustive) query.set('exhaustive', 'true');
+  DATE_RANGE_KEYS.forEach(key => {
+    const value = params[key];
+    if (value) query.set(key, value);
+  });
+  if (params.country) query.set('country', params.country);
+  if (params.minEnrollment !== undefined) query.set('minEnrollment', params.minEnrollment.toString());
+  if (params.maxEnrollment !== undefined) query.set('maxEnrollment', params.maxEnrollment.toString());
+  if (params.allocation) query.set('allocation', params.allocation);
+  if (params.sex) query.set('sex', params.sex);
+  if (params.healthyVolunteers) query.set('healthyVolunteers', 'true');
+  if (params.hasResults) query.set('hasResults', 'true');
+  if (params.includeNarrower) query.set('includeNarrower', 'true');
+  // Expansion is on by default, so only the opt-out is written
+  if (params.expandSynonyms === false) query.set('expandSynonyms', 'false');
+
+  params.phase?.forEach(p => query.append('phase', p));
+  params.status?.forEach(s => query.append('status', s));
+  params.sponsorClass?.forEach(c => query.append('sponsorClass', c));
+  params.masking?.forEach(m => query.append('masking', m));
+  params.interventionType?.forEach(t => query.append('interventionType', t));
+  params.ageGroup?.forEach(a => query.append('ageGroup', a));
+
+  return query;
+}
+
+/**
+ * Parses a URL query string back into SearchParams. Unknown or malformed
+ * values are dropped rather than rejected, so an edited link still runs the
+ * closest valid search. Returns null when neither drug nor condition is set
+ * (a class search needs its class instead, an advanced search a well-formed
+ * query tree and a batch lookup at least one valid NCT ID).
+ */
+export function queryToSearchParams(query: URLSearchParams): SearchParams | null {
+  const text = (key: string) => query.get(key)?.trim() || undefined;
+  const date = (key: string) => {
+    const value = text(key);
+    return value && DATE_PATTERN.test(value) ? value : undefined;
+  };
+  const oneOf = (key: string, allowed: string[]) => {
+    const value = query.get(key);
+    return value && allowed.includes(value) ? value : undefined;
+  };
+  const listOf = (key: string, allowed: string[]) => {
+    const values = query.getAll(key).filter(v => allowed.includes(v));
+    return values.length > 0 ? values : undefined;
+  };
+  const count = (key: string) => {
+    const value = parseInt(query.get(key) || '', 10);
+    return value >= 0 ? value : undefined;
+  };
+
+  const mode = query.get('searchMode') as SearchMode | null;
+  if (mode === 'ids') {
+    const nctIds = parseNctIdList(query.get('ids') || '').ids.slice(0, MAX_BATCH_IDS);
+    return nctIds.length > 0 ? { searchMode: 'ids', nctIds } : null;
+  }
+
+  const drugClass = mode === 'class' ? text('drugClass') : undefined;
+  const advancedQuery = mode === 'advanced' ? parseQueryTree(query.get('advancedQuery')) : undefined;
+  const drug = mode === 'class' || mode === 'advanced' ? undefined : text('drug');
+  const condition = mode === 'advanced' ? undefined : text('condition');
+  const hasSubject = mode === 'advanced' ? !!advancedQuery : mode === 'class' ? !!drugClass : !!(drug || condition);
+  if (!hasSubject) return null;
+
+  const phase = query.getAll('phase').filter(p => PHASE_VALUES.includes(p));
+  const status = query.getAll('status').filter(s => STATUS_VALUES.includes(s));
+  const maxResults = parseInt(query.get('maxResults') || '', 10);
+
+  return {
+    drug,
+    drugClass,
+    advancedQuery,
+    condition,
+    biomarker: text('biomarker'),
+    phase: phase.length > 0 ? phase : undefined,
+    status: status.length > 0 ? status : undefined,
+    studyType: text('studyType'),
+    minDate: date('minDate'),
+    maxDate: date('maxDate'),
+    ...Object.fromEntries(DATE_RANGE_KEYS.map(key => [key, date(key)])),
+    sponsorClass: listOf('sponsorClass', optionValues(SPONSOR_CLASSES)),
+    country: text('country'),
+    minEnrollment: count('minEnrollment'),
+    maxEnrollment: count('maxEnrollment'),
+    allocation: oneOf('allocation', optionValues(ALLOCATIONS)),
+    masking: listOf('masking', optionValues(MASKINGS)),
+    interventionType: listOf('interventionType', optionValues(INTERVENTION_TYPES)),
+    ageGroup: listOf('ageGroup', optionValues(AGE_GROUPS)),
+    sex: oneOf('sex', optionValues(SEXES)),
+    healthyVolunteers: query.get('healthyVolunteers') === 'true' || undefined,
+    hasResults: query.get('hasResults') === 'true' || undefined,
+    includeNarrower: query.get('includeNarrower') === 'true' || undefined,
+    expandSynonyms: query.get('expandSynonyms') === 'false' ? false : undefined,
+    maxResults: maxResults > 0 ? Math.min(maxResults, MAX_RESULTS_LIMIT) : undefined,
+    exhaustive: query.get('exhaustive') === 'true' || undefined,
+    searchMode: mode && SEARCH_MODES.includes(mode) ? mode : undefined,
+  };
+}
+
+/**
+ * SearchParams for a logged search (history page), or null when the log row
+ * cannot be re-run. Goes through the URL form so the same normalization
+ * applies as for a shared link.
+ */
+export function historyEntryToSearchParams(entry: SearchHistoryEntry): SearchParams | null {
+  const params = {
+    ...entry.filters,
+    drug: entry.drug || undefined,
+    condition: entry.condition || undefined,
+    biomarker: entry.biomarker || undefined,
+  } as SearchParams;
+  return queryToSearchParams(searchParamsToQuery(params));
+}
+
+function parseQueryTree(json: string | null): QueryNode | undefined {
+  if (!json) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return isQueryNode(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Router state carried by links from a results page to a trial page */
+export interface SearchLinkState {
+  fromSearch: string;
+}
+
+/**
+ * Target for "Back to Search": the results the user came from when known,
+ * the empty search page otherwise
+ */
+export function backToSearchHref(state: unknown): string {
+  const fromSearch = (state as SearchLinkState | null)?.fromSearch;
+  return fromSearch ? `/${fromSearch}` : '/';
+}
+
+/** Short human-readable label for a search, e.g. "pembrolizumab · NSCLC · Phase 3" */
+export function describeSearchParams(params: SearchParams): string {
+  if (params.searchMode === 'ids') {
+    const count = params.nctIds?.length || 0;
+    return `${count} NCT ID${count !== 1 ? 's' : ''}`;
+  }
+  const parts = [
+    params.drug,
+    params.drugClass,
+    params.advancedQuery && describeQuery(params.advancedQuery),
+    params.condition,
+    params.biomarker,
+  ].filter(Boolean) as string[];
+  if (params.phase?.length) {
+    parts.push(`Phase ${params.phase.map(p => (p === 'early_1' ? 'early 1' : p)).join('/')}`);
+  }
+  if (params.status?.length) {
+    parts.push(params.status.map(s => s.replace(/_/g, ' ')).join(', '));
+  }
+  return parts.join(' · ');
+}
+
+/** Router state set by "Re-run" on /searches so the new run is recorded */
+export interface SavedSearchLinkState {
+  savedSearchId: string;
+}
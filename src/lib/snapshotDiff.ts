@@ -0,0 +1,211 @@
+/**
+ * Search snapshot diffing
+ * Compares two runs of the same saved search: which trials are new, which
+ * disappeared and which changed status, phase, enrollment or primary endpoints
+ */
+
+import type { SearchResult, Trial } from './api';
+
+// ============= TYPES =============
+
+/** The per-trial fields a snapshot keeps; enough to detect meaningful changes */
+export interface TrialSnapshot {
+  nctId: string;
+  briefTitle: string;
+  overallStatus: string;
+  phase: string;
+  enrollmentCount: number | null;
+  primaryEndpoints: string[];
+}
+
+export interface SearchSnapshot {
+  runAt: string;
+  totalCount: number;
+  trials: TrialSnapshot[];
+}
+
+export type SnapshotField = 'overallStatus' | 'phase' | 'enrollmentCount' | 'primaryEndpoints';
+
+export interface FieldChange {
+  field: SnapshotField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface ChangedTrial {
+  nctId: string;
+  briefTitle: string;
+  changes: FieldChange[];
+}
+
+export interface SnapshotDiff {
+  previousRunAt: string;
+  currentRunAt: string;
+  added: TrialSnapshot[];
+  removed: TrialSnapshot[];
+  changed: ChangedTrial[];
+  unchangedCount: number;
+  /**
+   * True when either run did not load every matching trial. "Removed" then
+   * also covers trials that merely fell outside the loaded pages.
+   */
+  partial: boolean;
+}
+
+/** One flat row per change, for the JSON/CSV change log */
+export interface ChangeLogEntry {
+  change: 'added' | 'removed' | 'changed';
+  nct_id: string;
+  title: string;
+  field: string;
+  before: string;
+  after: string;
+}
+
+// ============= SNAPSHOTS =============
+
+const FIELD_LABELS: Record<SnapshotField, string> = {
+  overallStatus: 'Status',
+  phase: 'Phase',
+  enrollmentCount: 'Enrollment',
+  primaryEndpoints: 'Primary endpoints',
+};
+
+const normalizeMeasure = (measure: string) => measure.trim().replace(/\s+/g, ' ');
+
+// Must match the caps of trialSnapshotSchema in the saved-searches function
+const MAX_SNAPSHOT_TEXT = 1000;
+const MAX_SNAPSHOT_ENDPOINTS = 50;
+
+export function toTrialSnapshot(trial: Trial): TrialSnapshot {
+  return {
+    nctId: trial.nctId,
+    briefTitle: trial.briefTitle.slice(0, MAX_SNAPSHOT_TEXT),
+    overallStatus: trial.overallStatus || '',
+    phase: trial.phase || '',
+    enrollmentCount: trial.enrollmentCount ?? null,
+    primaryEndpoints: (trial.primaryOutcomes || [])
+      .map((o) => normalizeMeasure(o.measure).slice(0, MAX_SNAPSHOT_TEXT))
+      .filter(Boolean)
+      .slice(0, MAX_SNAPSHOT_ENDPOINTS),
+  };
+}
+
+/**
+ * Stamped with the time the snapshot is taken, not the server trace: a
+ * cached response may carry the trace of an earlier run
+ */
+export function toSearchSnapshot(result: SearchResult, maxTrials = Number.POSITIVE_INFINITY): SearchSnapshot {
+  return {
+    runAt: new Date().toISOString(),
+    totalCount: result.totalCount,
+    trials: result.trials.slice(0, maxTrials).map(toTrialSnapshot),
+  };
+}
+
+// ============= DIFF =============
+
+function formatField(snapshot: TrialSnapshot, field: SnapshotField): string {
+  switch (field) {
+    case 'overallStatus': return snapshot.overallStatus.replace(/_/g, ' ');
+    case 'phase': return snapshot.phase;
+    case 'enrollmentCount': return snapshot.enrollmentCount?.toString() ?? '';
+    case 'primaryEndpoints': return snapshot.primaryEndpoints.join(' | ');
+  }
+}
+
+function fieldsDiffer(before: TrialSnapshot, after: TrialSnapshot, field: SnapshotField): boolean {
+  if (field === 'primaryEndpoints') {
+    // Order of outcomes in the registry record is not meaningful
+    const a = [...before.primaryEndpoints].map((m) => m.toLowerCase()).sort();
+    const b = [...after.primaryEndpoints].map((m) => m.toLowerCase()).sort();
+    return a.length !== b.length || a.some((m, i) => m !== b[i]);
+  }
+  return before[field] !== after[field];
+}
+
+const isComplete = (snapshot: SearchSnapshot) => snapshot.trials.length >= snapshot.totalCount;
+
+/**
+ * Diffs `current` against `previous`. Added/removed are keyed on NCT ID;
+ * changed trials list every tracked field whose value differs.
+ */
+export function diffSnapshots(previous: SearchSnapshot, current: SearchSnapshot): SnapshotDiff {
+  const previousById = new Map(previous.trials.map((t) => [t.nctId, t]));
+  const currentIds = new Set(current.trials.map((t) => t.nctId));
+
+  const added: TrialSnapshot[] = [];
+  const changed: ChangedTrial[] = [];
+  let unchangedCount = 0;
+
+  for (const trial of current.trials) {
+    const before = previousById.get(trial.nctId);
+    if (!before) {
+      added.push(trial);
+      continue;
+    }
+
+    const changes = (Object.keys(FIELD_LABELS) as SnapshotField[])
+      .filter((field) => fieldsDiffer(before, trial, field))
+      .map((field) => ({
+        field,
+        label: FIELD_LABELS[field],
+        before: formatField(before, field),
+        after: formatField(trial, field),
+      }));
+
+    if (changes.length > 0) {
+      changed.push({ nctId: trial.nctId, briefTitle: trial.briefTitle, changes });
+    } else {
+      unchangedCount++;
+    }
+  }
+
+  const removed = previous.trials.filter((t) => !currentIds.has(t.nctId));
+
+  return {
+    previousRunAt: previous.runAt,
+    currentRunAt: current.runAt,
+    added,
+    removed,
+    changed,
+    unchangedCount,
+    partial: !isComplete(previous) || !isComplete(current),
+  };
+}
+
+export function hasChanges(diff: SnapshotDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+export function diffToChangeLog(diff: SnapshotDiff): ChangeLogEntry[] {
+  return [
+    ...diff.added.map((t) => ({
+      change: 'added' as const,
+      nct_id: t.nctId,
+      title: t.briefTitle,
+      field: '',
+      before: '',
+      after: '',
+    })),
+    ...diff.removed.map((t) => ({
+      change: 'removed' as const,
+      nct_id: t.nctId,
+      title: t.briefTitle,
+      field: '',
+      before: '',
+      after: '',
+    })),
+    ...diff.changed.flatMap((t) =>
+      t.changes.map((c) => ({
+        change: 'changed' as const,
+        nct_id: t.nctId,
+        title: t.briefTitle,
+        field: c.label,
+        before: c.before,
+        after: c.after,
+      }))
+    ),
+  ];
+}
@@ -0,0 +1,167 @@
+/**
+ * Trial Comparison Utilities
+ * Aligns several trials field-by-field for side-by-side review
+ */
+
+import { TrialDetail, Arm, Outcome } from './api';
+
+// ============= TYPES =============
+
+export interface ComparisonRow {
+  field: string;
+  /** One value per trial, in the same order as the trials passed in */
+  values: string[];
+  /** True when at least two trials hold different values */
+  differs: boolean;
+}
+
+export interface ComparisonSection {
+  title: string;
+  rows: ComparisonRow[];
+}
+
+// ============= LIMITS =============
+
+export const MIN_COMPARE_TRIALS = 2;
+export const MAX_COMPARE_TRIALS = 8;
+
+const NCT_ID_PATTERN = /^NCT\d{8}$/;
+
+/**
+ * Parses a comma/space separated list of NCT IDs (as found in ?ids=),
+ * upper-casing, de-duplicating and dropping anything malformed
+ */
+export function parseCompareIds(raw: string | null): { ids: string[]; invalid: string[] } {
+  const tokens = (raw || '')
+    .split(/[\s,;]+/)
+    .map((t) => t.trim().toUpperCase())
+    .filter(Boolean);
+
+  const ids: string[] = [];
+  const invalid: string[] = [];
+  for (const token of tokens) {
+    if (!NCT_ID_PATTERN.test(token)) {
+      invalid.push(token);
+    } else if (!ids.includes(token)) {
+      ids.push(token);
+    }
+  }
+  return { ids, invalid };
+}
+
+// ============= FORMATTERS =============
+
+function formatArm(arm: Arm): string {
+  const role = arm.isControl ? (arm.controlType || 'Control') : (arm.controlType || arm.type || 'Arm');
+  const interventions = arm.interventions?.length ? `: ${arm.interventions.join(' + ')}` : '';
+  return `${arm.label} [${role}]${interventions}`;
+}
+
+function formatOutcome(outcome: Outcome): string {
+  const timeFrame = outcome.timeFrame ? ` (${outcome.timeFrame})` : '';
+  return `[${outcome.classification || 'Other'}] ${outcome.measure}${timeFrame}`;
+}
+
+/** Sorted, de-duplicated list so that order alone never counts as a difference */
+function distinctList(values: (string | undefined | null)[]): string {
+  const unique = Array.from(new Set(values.filter((v): v is string => !!v)));
+  return unique.sort().join('; ');
+}
+
+function formatBoolean(value: boolean | undefined): string {
+  if (value === undefined) return '';
+  return value ? 'Yes' : 'No';
+}
+
+function row(field: string, trials: TrialDetail[], getValue: (trial: TrialDetail) => string | undefined | null): ComparisonRow {
+  const values = trials.map((trial) => getValue(trial) || '');
+  const normalized = new Set(values.map((v) => v.trim().toLowerCase()));
+  return { field, values, differs: trials.length > 1 && normalized.size > 1 };
+}
+
+// ============= MAIN EXPORT =============
+
+/**
+ * Builds the aligned comparison tables (design, arms, endpoints, eligibility,
+ * enrollment, dates) for the given trials
+ */
+export function buildTrialComparison(trials: TrialDetail[]): ComparisonSection[] {
+  return [
+    {
+      title: 'Design',
+      rows: [
+        row('Phase', trials, (t) => t.phase),
+        row('Status', trials, (t) => t.overallStatus?.replace(/_/g, ' ')),
+        row('Study type', trials, (t) => t.studyType),
+        row('Lead sponsor', trials, (t) => t.leadSponsor),
+        row('Conditions', trials, (t) => distinctList(t.conditions || [])),
+      ],
+    },
+    {
+      title: 'Arms',
+      rows: [
+        row('Number of arms', trials, (t) => String(t.arms?.length ?? 0)),
+        row('Control types', trials, (t) => distinctList((t.arms || []).filter((a) => a.isControl).map((a) => a.controlType || 'Unspecified'))),
+        row('Active comparator', trials, (t) => formatBoolean((t.arms || []).some((a) => a.controlType === 'Active Comparator'))),
+        row('Add-on design', trials, (t) => formatBoolean((t.arms || []).some((a) => a.isAddOn))),
+        row('Arms', trials, (t) => (t.arms || []).map(formatArm).join('\n')),
+      ],
+    },
+    {
+      title: 'Primary endpoints',
+      rows: [
+        row('Classifications', trials, (t) => distinctList((t.primaryOutcomes || []).map((o) => o.classification || 'Other'))),
+        row('Measures', trials, (t) => (t.primaryOutcomes || []).map(formatOutcome).join('\n')),
+      ],
+    },
+    {
+      title: 'Secondary endpoints',
+      rows: [
+        row('Classifications', trials, (t) => distinctList((t.secondaryOutcomes || []).map((o) => o.classification || 'Other'))),
+        row('Count', trials, (t) => String(t.secondaryOutcomes?.length ?? 0)),
+        row('Measures', trials, (t) => (t.secondaryOutcomes || []).map(formatOutcome).join('\n')),
+      ],
+    },
+    {
+      title: 'Eligibility',
+      rows: [
+        row('Sex', trials, (t) => t.sex),
+        row('Minimum age', trials, (t) => t.minimumAge),
+        row('Maximum age', trials, (t) => t.maximumAge),
+        row('Healthy volunteers', trials, (t) => formatBoolean(t.healthyVolunteers)),
+        row('Criteria', trials, (t) => t.eligibilityCriteria),
+      ],
+    },
+    {
+      title: 'Enrollment',
+      rows: [
+        row('Enrollment', trials, (t) => t.enrollmentCount?.toLocaleString()),
+        row('Enrollment type', trials, (t) => t.enrollmentType),
+      ],
+    },
+    {
+      title: 'Dates',
+      rows: [
+        row('Start date', trials, (t) => t.startDate),
+        row('Completion date', trials, (t) => t.completionDate),
+        row('Last update', trials, (t) => t.lastUpdatePostDate),
+      ],
+    },
+  ];
+}
+
+/**
+ * Flattens the comparison into one CSV row per field, one column per trial
+ */
+export function comparisonToCsvRows(trials: TrialDetail[], sections: ComparisonSection[]): Record<string, string>[] {
+  return sections.flatMap((section) =>
+    section.rows.map((r) => {
+      const entry: Record<string, string> = { Section: section.title, Field: r.field };
+      trials.forEach((trial, i) => {
+        entry[trial.nctId] = r.values[i];
+      });
+      entry.Differs = r.differs ? 'Yes' : 'No';
+      return entry;
+    })
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  ArrowLeft,
+  ExternalLink,
+  FileSpreadsheet,
+  FileText,
+  Loader2,
+  AlertCircle,
+  Columns3,
+  X,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { getTrialDetail, TrialDetail, exportToCSV } from "@/lib/api";
+import {
+  buildTrialComparison,
+  comparisonToCsvRows,
+  parseCompareIds,
+  MIN_COMPARE_TRIALS,
+  MAX_COMPARE_TRIALS,
+} from "@/lib/trialComparison";
+import { generateComparisonPdfReport } from "@/lib/pdfReport";
+import { useToast } from "@/hooks/use-toast";
+
+interface FailedTrial {
+  nctId: string;
+  message: string;
+}
+
+export default function ComparePage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { ids, invalid } = useMemo(() => parseCompareIds(searchParams.get("ids")), [searchParams]);
+  const idsKey = ids.join(",");
+
+  const [trials, setTrials] = useState<TrialDetail[]>([]);
+  const [failed, setFailed] = useState<FailedTrial[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+  const [idsInput, setIdsInput] = useState(ids.join(", "));
+  const { toast } = useToast();
+
+  const tooFew = ids.length < MIN_COMPARE_TRIALS;
+  const tooMany = ids.length > MAX_COMPARE_TRIALS;
+
+  useEffect(() => {
+    const requested = idsKey ? idsKey.split(",") : [];
+    setIdsInput(requested.join(", "));
+    if (requested.length < MIN_COMPARE_TRIALS || requested.length > MAX_COMPARE_TRIALS) {
+      // A fetch cancelled by this change would otherwise leave the spinner up
+      setTrials([]);
+      setFailed([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchTrials = async () => {
+      setIsLoading(true);
+      const results = await Promise.allSettled(requested.map((id) => getTrialDetail(id)));
+      if (cancelled) return;
+
+      const loaded: TrialDetail[] = [];
+      const errors: FailedTrial[] = [];
+      results.forEach((result, i) => {
+        if (result.status === "fulfilled") {
+          loaded.push(result.value);
+        } else {
+          errors.push({
+            nctId: requested[i],
+            message: result.reason instanceof Error ? result.reason.message : "Failed to get trial details",
+          });
+        }
+      });
+
+      setTrials(loaded);
+      setFailed(errors);
+      setIsLoading(false);
+
+      if (errors.length > 0) {
+        toast({
+          variant: "destructive",
+          title: "Some trials could not be loaded",
+          description: errors.map((e) => e.nctId).join(", "),
+        });
+      }
+    };
+
+    fetchTrials();
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey, toast]);
+
+  const sections = useMemo(() => buildTrialComparison(trials), [trials]);
+  const differenceCount = sections.reduce((sum, s) => sum + s.rows.filter((r) => r.differs).length, 0);
+  const canCompare = trials.length >= MIN_COMPARE_TRIALS;
+
+  const updateIds = (next: string[]) => {
+    if (next.length === 0) {
+      setSearchParams({});
+    } else {
+      setSearchParams({ ids: next.join(",") });
+    }
+  };
+
+  const handleApplyIds = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateIds(parseCompareIds(idsInput).ids);
+  };
+
+  const handleExportCSV = () => {
+    exportToCSV(comparisonToCsvRows(trials, sections), `trial_comparison_${new Date().toISOString().split("T")[0]}`);
+  };
+
+  const handleExportPdf = () => {
+    generateComparisonPdfReport({ trials, sections });
+    toast({
+      title: "PDF generated",
+      description: "Comparison report downloaded",
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="container py-8 flex-1">
+        <Link to="/">
+          <Button variant="ghost" className="mb-6">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Search
+          </Button>
+        </Link>
+
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold mb-2 flex items-center gap-3">
+            <Columns3 className="h-7 w-7 text-primary" />
+            Compare Trials
+          </h1>
+          <p className="text-muted-foreground">
+            Side-by-side view of {MIN_COMPARE_TRIALS}–{MAX_COMPARE_TRIALS} trials. Rows where the trials differ are highlighted.
+          </p>
+        </div>
+
+        {/* Trial selection */}
+        <form onSubmit={handleApplyIds} className="flex flex-col sm:flex-row gap-2 mb-6">
+          <Input
+            value={idsInput}
+            onChange={(e) => setIdsInput(e.target.value)}
+            placeholder="NCT01234567, NCT07654321"
+            className="font-mono"
+          />
+          <Button type="submit" variant="outline">Compare</Button>
+        </form>
+
+        {invalid.length > 0 && (
+          <p className="text-sm text-destructive mb-4">
+            Ignored invalid IDs: {invalid.join(", ")}
+          </p>
+        )}
+
+        {(tooFew || tooMany) && (
+          <div className="text-center py-12">
+            <AlertCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-lg text-muted-foreground">
+              {tooMany
+                ? `You can compare up to ${MAX_COMPARE_TRIALS} trials at a time (${ids.length} given).`
+                : `Enter at least ${MIN_COMPARE_TRIALS} NCT IDs to compare.`}
+            </p>
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="py-12 flex flex-col items-center justify-center">
+            <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
+            <p className="text-lg text-muted-foreground">Loading {ids.length} trials...</p>
+          </div>
+        )}
+
+        {!isLoading && failed.length > 0 && (
+          <Card className="mb-6 border-destructive/50">
+            <CardContent className="p-4 space-y-1">
+              {failed.map((f) => (
+                <p key={f.nctId} className="text-sm">
+                  <span className="font-mono font-medium">{f.nctId}</span>
+                  <span className="text-muted-foreground"> — {f.message}</span>
+                </p>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {!isLoading && !tooFew && !tooMany && !canCompare && trials.length > 0 && (
+          <p className="text-center text-muted-foreground py-8">
+            At least {MIN_COMPARE_TRIALS} trials must load to show a comparison.
+          </p>
+        )}
+
+        {!isLoading && canCompare && (
+          <div className="space-y-6 animate-fade-in">
+            {/* Toolbar */}
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Switch id="differences-only" checked={differencesOnly} onCheckedChange={setDifferencesOnly} />
+                <Label htmlFor="differences-only" className="text-sm">
+                  Show differences only
+                </Label>
+                <Badge variant="outline">{differenceCount} differing field{differenceCount !== 1 ? "s" : ""}</Badge>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" onClick={handleExportPdf} className="gap-2">
+                  <FileText className="h-4 w-4" />
+                  Export PDF
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleExportCSV}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Export CSV
+                </Button>
+              </div>
+            </div>
+
+            {sections.map((section) => {
+              const rows = differencesOnly ? section.rows.filter((r) => r.differs) : section.rows;
+              if (rows.length === 0) return null;
+
+              return (
+                <Card key={section.title}>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">{section.title}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="overflow-x-auto">
+                    <table className="w-full text-sm border-collapse">
+                      <thead>
+                        <tr className="border-b border-border">
+                          <th className="text-left font-medium text-muted-foreground p-2 w-[160px] min-w-[140px]">Field</th>
+                          {trials.map((trial) => (
+                            <th key={trial.nctId} className="text-left font-medium p-2 min-w-[200px] align-top">
+                              <div className="flex items-center gap-1">
+                                <Link to={`/trial/${trial.nctId}`} className="font-mono text-primary hover:underline">
+                                  {trial.nctId}
+                                </Link>
+                                <a
+                                  href={`https://clinicaltrials.gov/study/${trial.nctId}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-muted-foreground hover:text-foreground"
+                                >
+                                  <ExternalLink className="h-3 w-3" />
+                                </a>
+                                <button
+                                  onClick={() => updateIds(ids.filter((id) => id !== trial.nctId))}
+                                  className="ml-auto text-muted-foreground hover:text-destructive"
+                                  title="Remove from comparison"
+                                >
+                                  <X className="h-3.5 w-3.5" />
+                                </button>
+                              </div>
+                              <p className="text-xs font-normal text-muted-foreground line-clamp-2 mt-1">
+                                {trial.briefTitle}
+                              </p>
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rows.map((row) => (
+                          <tr
+                            key={row.field}
+                            className={`border-b border-border/50 last:border-b-0 ${row.differs ? "bg-amber-50 dark:bg-amber-950/20" : ""}`}
+                          >
+                            <td className="p-2 font-medium text-muted-foreground align-top">
+                              {row.field}
+                            </td>
+                            {row.values.map((value, i) => (
+                              <td key={trials[i].nctId} className="p-2 align-top">
+                                {value ? (
+                                  <div className={`whitespace-pre-line ${row.field === "Criteria" ? "max-h-64 overflow-y-auto text-xs" : ""}`}>
+                                    {value}
+                                  </div>
+                                ) : (
+                                  <span className="text-muted-foreground">—</span>
+                                )}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertCircle, ArrowLeft, Bell, CheckCheck, Eye, Loader2, Pause, Play, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { WebhookChannelCard } from "@/components/WebhookChannelCard";
+import {
+  deleteWatch,
+  getInbox,
+  InboxData,
+  markNotificationsRead,
+  setWatchActive,
+  Watch,
+  WatchEventType,
+  WatchNotification,
+} from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+const EVENT_LABELS: Record<WatchEventType, string> = {
+  new_trial: "New trial",
+  trial_removed: "No longer matching",
+  status_changed: "Status",
+  outcomes_changed: "Outcomes",
+  arms_changed: "Arms",
+  record_updated: "Updated",
+};
+
+const EVENT_STYLES: Partial<Record<WatchEventType, string>> = {
+  new_trial: "border-green-500/40 text-green-700 dark:text-green-400",
+  trial_removed: "border-destructive/40 text-destructive",
+  status_changed: "border-amber-500/40 text-amber-700 dark:text-amber-400",
+};
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : "Never");
+
+function NotificationItem({ notification, onMarkRead }: {
+  notification: WatchNotification;
+  onMarkRead: () => void;
+}) {
+  const unread = !notification.readAt;
+  const briefTitle = typeof notification.details.briefTitle === "string" ? notification.details.briefTitle : null;
+
+  return (
+    <div className={`rounded-lg border p-4 space-y-1 ${unread ? "border-primary/30 bg-primary/5" : "border-border"}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className={EVENT_STYLES[notification.eventType] || ""}>
+          {EVENT_LABELS[notification.eventType] || notification.eventType}
+        </Badge>
+        <span className="text-xs text-muted-foreground">{notification.watchLabel}</span>
+        <span className="text-xs text-muted-foreground ml-auto">{formatDateTime(notification.createdAt)}</span>
+      </div>
+      <p className="text-sm font-medium">{notification.title}</p>
+      {briefTitle && <p className="text-xs text-muted-foreground truncate" title={briefTitle}>{briefTitle}</p>}
+      <div className="flex flex-wrap items-center gap-3 pt-1 text-xs">
+        {notification.nctId && (
+          <Link to={`/trial/${notification.nctId}`} className="text-primary hover:underline">
+            View {notification.nctId}
+          </Link>
+        )}
+        {unread && (
+          <button onClick={onMarkRead} className="text-muted-foreground hover:text-foreground">
+            Mark as read
+          </button>
+        )}
+        {notification.deliveryError && (
+          <span className="text-destructive" title={notification.deliveryError}>Webhook delivery failed</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function InboxPage() {
+  const [inbox, setInbox] = useState<InboxData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busyWatchId, setBusyWatchId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    getInbox()
+      .then((data) => {
+        if (!cancelled) setInbox(data);
+      })
+      .catch((error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : "Failed to load inbox");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const unreadCount = inbox?.notifications.filter((n) => !n.readAt).length ?? 0;
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error instanceof Error ? error.message : "Please try again.",
+    });
+  };
+
+  const handleMarkRead = async (ids?: string[]) => {
+    const now = new Date().toISOString();
+    try {
+      await markNotificationsRead(ids);
+      setInbox((prev) => prev && {
+        ...prev,
+        notifications: prev.notifications.map((n) => (!ids || ids.includes(n.id)) && !n.readAt ? { ...n, readAt: now } : n),
+      });
+    } catch (error) {
+      reportError("Could not mark as read", error);
+    }
+  };
+
+  const updateWatch = async (watch: Watch, action: () => Promise<Watch | null>, failureTitle: string) => {
+    setBusyWatchId(watch.id);
+    try {
+      const updated = await action();
+      setInbox((prev) => prev && {
+        ...prev,
+        watches: updated
+          ? prev.watches.map((w) => (w.id === watch.id ? updated : w))
+          : prev.watches.filter((w) => w.id !== watch.id),
+      });
+    } catch (error) {
+      reportError(failureTitle, error);
+    } finally {
+      setBusyWatchId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="container py-8 flex-1">
+        <Link to="/">
+          <Button variant="ghost" className="mb-6">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Search
+          </Button>
+        </Link>
+
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold mb-2 flex items-center gap-3">
+            <Bell className="h-7 w-7 text-primary" />
+            Inbox
+            {unreadCount > 0 && <Badge>{unreadCount} unread</Badge>}
+          </h1>
+          <p className="text-muted-foreground">
+            Changes detected in your watched searches and trials. Watches are re-checked against ClinicalTrials.gov
+            on a schedule.
+          </p>
+        </div>
+
+        {loadError ? (
+          <div className="text-center py-12">
+            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <p className="text-muted-foreground">{loadError}</p>
+          </div>
+        ) : !inbox ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground gap-2">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading inbox...
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_340px] items-start">
+            <Tabs defaultValue="notifications">
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <TabsList>
+                  <TabsTrigger value="notifications">Notifications ({inbox.notifications.length})</TabsTrigger>
+                  <TabsTrigger value="watches">Watches ({inbox.watches.length})</TabsTrigger>
+                </TabsList>
+                {unreadCount > 0 && (
+                  <Button variant="outline" size="sm" className="gap-2" onClick={() => handleMarkRead()}>
+                    <CheckCheck className="h-4 w-4" />
+                    Mark all read
+                  </Button>
+                )}
+              </div>
+
+              <TabsContent value="notifications" className="space-y-3">
+                {inbox.notifications.length === 0 ? (
+                  <div className="text-center py-12">
+                    <p className="text-lg text-muted-foreground">No notifications yet.</p>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Watch a saved search or a trial; changes show up here after the next scheduled check.
+                    </p>
+                  </div>
+                ) : (
+                  inbox.notifications.map((notification) => (
+                    <NotificationItem
+                      key={notification.id}
+                      notification={notification}
+                      onMarkRead={() => handleMarkRead([notification.id])}
+                    />
+                  ))
+                )}
+              </TabsContent>
+
+              <TabsContent value="watches" className="space-y-3">
+                {inbox.watches.length === 0 ? (
+                  <div className="text-center py-12">
+                    <p className="text-lg text-muted-foreground">Nothing watched yet.</p>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Use "Watch" on a saved search under <Link to="/searches" className="underline">My searches</Link>{" "}
+                      or "Watch trial" on a trial page.
+                    </p>
+                  </div>
+                ) : (
+                  inbox.watches.map((watch) => {
+                    const isBusy = busyWatchId === watch.id;
+                    return (
+                      <Card key={watch.id} className={watch.active ? "" : "opacity-70"}>
+                        <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                          <div className="min-w-0 space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Eye className="h-4 w-4 text-primary shrink-0" />
+                              <span className="font-medium truncate" title={watch.label}>{watch.label}</span>
+                              <Badge variant="outline" className="text-xs">
+                                {watch.kind === "search" ? "Search" : watch.nctId}
+                              </Badge>
+                              {!watch.active && <Badge variant="secondary" className="text-xs">Paused</Badge>}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              Last checked: {formatDateTime(watch.lastCheckedAt)} · every {watch.checkIntervalHours} h
+                            </p>
+                            {watch.lastError && (
+                              <p className="text-xs text-destructive">Last check failed: {watch.lastError}</p>
+                            )}
+                          </div>
+                          <div className="flex gap-2 shrink-0">
+                            {isBusy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground self-center" />}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              disabled={isBusy}
+                              onClick={() => updateWatch(watch, () => setWatchActive(watch.id, !watch.active), "Could not update watch")}
+                            >
+                              {watch.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                              {watch.active ? "Pause" : "Resume"}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-2 text-muted-foreground hover:text-destructive"
+                              disabled={isBusy}
+                              onClick={() => updateWatch(watch, async () => {
+                                await deleteWatch(watch.id);
+                                return null;
+                              }, "Could not remove watch")}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              Remove
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })
+                )}
+              </TabsContent>
+            </Tabs>
+
+            <WebhookChannelCard
+              channel={inbox.channel}
+              onChannelChange={(channel) => setInbox((prev) => prev && { ...prev, channel })}
+            />
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,34 +1,139 @@
-import { useState, useRef } from "react";
-import { Search, Database, FileSpreadsheet, FlaskConical } from "lucide-react";
+import { useState, useRef, useEffect, useCallback } from "react";
+import { useLocation, useSearchParams } from "react-router-dom";
+import { Search, Database, FileSpreadsheet, FlaskConical, AlertCircle, X } from "lucide-react";
 import { SearchForm } from "@/components/SearchForm";
 import { TrialResultsList } from "@/components/TrialResultsList";
 import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
-import { searchTrials, searchTrialsNextPage, SearchParams, SearchResult } from "@/lib/api";
+import { SaveSearchDialog } from "@/components/SaveSearchDialog";
+import { DrugSynonymsDialog } from "@/components/DrugSynonymsDialog";
+import { SnapshotDiffPanel } from "@/components/SnapshotDiffPanel";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  recordSavedSearchRun,
+  searchResultToSnapshot,
+  searchTrials,
+  searchTrialsNextPage,
+  streamAllTrials,
+  SearchParams,
+  SearchProgress,
+  SearchResult,
+  Trial,
+} from "@/lib/api";
+import { queryToSearchParams, searchParamsToQuery, SavedSearchLinkState } from "@/lib/searchUrl";
+import { diffSnapshots, SnapshotDiff } from "@/lib/snapshotDiff";
 import { useToast } from "@/hooks/use-toast";
 
 const Index = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
   const [results, setResults] = useState<SearchResult | null>(null);
+  // The search request the shown results came from
+  const [resultsRequestId, setResultsRequestId] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [snapshotDiff, setSnapshotDiff] = useState<SnapshotDiff | null>(null);
+  const [streamProgress, setStreamProgress] = useState<SearchProgress | null>(null);
   const lastSearchParams = useRef<SearchParams | null>(null);
+  const searchRequestId = useRef(0);
+  const streamAbort = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
-  const handleSearch = async (params: SearchParams) => {
+  // The URL is the source of truth for the current search, so links can be
+  // shared and back/forward replays the previous search
+  const queryKey = searchParams.toString();
+  const urlSearch = queryToSearchParams(new URLSearchParams(queryKey));
+
+  // Set when arriving from "Re-run" on /searches: the fresh results are
+  // written back to that saved search
+  const savedSearchId = useRef<string | null>(null);
+  savedSearchId.current = (location.state as SavedSearchLinkState | null)?.savedSearchId ?? null;
+
+  // Exhaustive searches render each streamed page as it arrives. The final
+  // result keeps the provisional trace's timestamp, so the results list (keyed
+  // on it) keeps its refinements when the stream completes. Cancelling keeps
+  // the trials retrieved so far.
+  const streamSearch = useCallback(async (params: SearchParams, requestId: number): Promise<SearchResult> => {
+    const controller = new AbortController();
+    streamAbort.current = controller;
+    const timestamp = new Date().toISOString();
+    const partial = (trials: Trial[], totalCount: number): SearchResult => ({
+      totalCount,
+      trials,
+      nextPageToken: null,
+      trace: { query: { ...params }, timestamp, searchMode: params.searchMode, dataSourceCalls: [], exhaustive: true },
+    });
+
+    let loaded: Trial[] = [];
+    let totalCount = 0;
+    setStreamProgress({ loaded: 0, totalCount: 0 });
+
+    try {
+      const data = await streamAllTrials(params, (trials, progress) => {
+        if (requestId !== searchRequestId.current) return;
+        loaded = [...loaded, ...trials];
+        totalCount = progress.totalCount;
+        setStreamProgress(progress);
+        setResultsRequestId(requestId);
+        setResults(partial(loaded, totalCount));
+      }, controller.signal);
+      return { ...data, trace: { ...data.trace, timestamp } };
+    } catch (error) {
+      if (controller.signal.aborted && requestId === searchRequestId.current) {
+        const result = partial(loaded, totalCount);
+        return { ...result, trace: { ...result.trace, truncated: true } };
+      }
+      throw error;
+    } finally {
+      if (streamAbort.current === controller) streamAbort.current = null;
+    }
+  }, []);
+
+  const runSearch = useCallback(async (params: SearchParams, savedSearchIdToUpdate: string | null) => {
+    const requestId = ++searchRequestId.current;
+    streamAbort.current?.abort();
     setIsLoading(true);
+    // Drops any "Load more" still running for the previous results
+    setIsLoadingMore(false);
+    setSnapshotDiff(null);
+    setStreamProgress(null);
     lastSearchParams.current = params;
 
     try {
-      const data = await searchTrials(params);
+      const data = params.exhaustive && params.searchMode !== 'ids'
+        ? await streamSearch(params, requestId)
+        : await searchTrials(params);
+      // A newer search (e.g. browser back) superseded this one
+      if (requestId !== searchRequestId.current) return;
+      setResultsRequestId(requestId);
       setResults(data);
 
+      if (savedSearchIdToUpdate) {
+        const snapshot = searchResultToSnapshot(data);
+        recordSavedSearchRun(savedSearchIdToUpdate, snapshot)
+          .then(({ previousSnapshot }) => {
+            if (previousSnapshot && requestId === searchRequestId.current) {
+              setSnapshotDiff(diffSnapshots(previousSnapshot, snapshot));
+            }
+          })
+          .catch((error) => console.error('Saved search update error:', error));
+      }
+
       if (data.trials.length === 0) {
         toast({
           title: "No results found",
           description: "Try adjusting your search criteria.",
         });
+      } else if (data.trace.truncated) {
+        toast({
+          title: "Not all trials were retrieved",
+          description: `Showing ${data.trials.length.toLocaleString()} of ${data.totalCount.toLocaleString()} matching trials.`,
+        });
       }
     } catch (error: any) {
+      if (requestId !== searchRequestId.current) return;
       console.error('Search error:', error);
       toast({
         variant: "destructive",
@@ -36,18 +141,51 @@ const Index = () => {
         description: error.message || "An error occurred while searching trials.",
       });
     } finally {
+      if (requestId === searchRequestId.current) {
+        setIsLoading(false);
+        setStreamProgress(null);
+      }
+    }
+  }, [toast, streamSearch]);
+
+  // Stop a running stream when leaving the page
+  useEffect(() => () => streamAbort.current?.abort(), []);
+
+  useEffect(() => {
+    const params = queryToSearchParams(new URLSearchParams(queryKey));
+    if (params) {
+      runSearch(params, savedSearchId.current);
+    } else {
+      searchRequestId.current++;
+      streamAbort.current?.abort();
+      lastSearchParams.current = null;
+      setResults(null);
+      setSnapshotDiff(null);
       setIsLoading(false);
     }
+  }, [queryKey, runSearch]);
+
+  const handleSearch = (params: SearchParams) => {
+    const nextQuery = searchParamsToQuery(params).toString();
+    if (nextQuery === queryKey) {
+      // Same URL: navigating would be a no-op, so re-run explicitly
+      runSearch(params, savedSearchId.current);
+    } else {
+      setSearchParams(nextQuery);
+    }
   };
 
   const handleLoadMore = async () => {
     if (!results?.nextPageToken || !lastSearchParams.current) return;
+    const requestId = searchRequestId.current;
     setIsLoadingMore(true);
 
     try {
       const moreData = await searchTrialsNextPage(lastSearchParams.current, results.nextPageToken);
+      // A newer search started while this page loaded; it belongs to the old results
+      if (requestId !== searchRequestId.current) return;
       setResults(prev => {
-        if (!prev) return moreData;
+        if (!prev || requestId !== searchRequestId.current) return prev;
         return {
           totalCount: prev.totalCount,
           trials: [...prev.trials, ...moreData.trials],
@@ -62,6 +200,7 @@ const Index = () => {
         };
       });
     } catch (error: any) {
+      if (requestId !== searchRequestId.current) return;
       console.error('Load more error:', error);
       toast({
         variant: "destructive",
@@ -69,7 +208,7 @@ const Index = () => {
         description: error.message || "An error occurred loading more trials.",
       });
     } finally {
-      setIsLoadingMore(false);
+      if (requestId === searchRequestId.current) setIsLoadingMore(false);
     }
   };
 
@@ -125,19 +264,73 @@ const Index = () => {
             <Search className="h-5 w-5" />
             Search Clinical Trials
           </h2>
-          <SearchForm onSearch={handleSearch} isLoading={isLoading} />
+          <SearchForm
+            key={queryKey}
+            onSearch={handleSearch}
+            isLoading={isLoading}
+            initialValues={urlSearch}
+          />
         </div>
 
+        {/* Exhaustive search progress */}
+        {streamProgress && (
+          <div className="glass-card rounded-xl p-4 mb-8 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm">
+                {streamProgress.totalCount > 0
+                  ? <>Retrieving all matches: <strong>{streamProgress.loaded.toLocaleString()}</strong> of {streamProgress.totalCount.toLocaleString()} trials…</>
+                  : "Retrieving all matches…"}
+              </p>
+              <Button variant="outline" size="sm" className="gap-1.5" onClick={() => streamAbort.current?.abort()}>
+                <X className="h-4 w-4" />
+                Cancel
+              </Button>
+            </div>
+            <Progress
+              value={streamProgress.totalCount > 0 ? Math.min(100, (streamProgress.loaded / streamProgress.totalCount) * 100) : 0}
+              className="h-2"
+            />
+          </div>
+        )}
+
         {/* Results */}
         {results && (
-          <div className="animate-fade-in">
+          <div className="animate-fade-in space-y-6">
+            {results.unknownIds && results.unknownIds.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>
+                  {results.unknownIds.length} NCT ID{results.unknownIds.length !== 1 ? "s" : ""} not found on ClinicalTrials.gov
+                </AlertTitle>
+                <AlertDescription className="font-mono text-xs break-words">
+                  {results.unknownIds.join(", ")}
+                </AlertDescription>
+              </Alert>
+            )}
+            {snapshotDiff && (
+              <SnapshotDiffPanel diff={snapshotDiff} onDismiss={() => setSnapshotDiff(null)} />
+            )}
+            {/* Keyed on the search request so refinements reset on a new search (even a cached
+                re-run of the same one) but survive "Load more" */}
             <TrialResultsList
+              key={resultsRequestId}
               trials={results.trials}
               totalCount={results.totalCount}
               trace={results.trace}
               nextPageToken={results.nextPageToken}
               onLoadMore={handleLoadMore}
               isLoadingMore={isLoadingMore}
+              actions={lastSearchParams.current && (
+                <>
+                  {lastSearchParams.current.drug && (
+                    <DrugSynonymsDialog
+                      drug={lastSearchParams.current.drug}
+                      onSynonymsChange={() => lastSearchParams.current && runSearch(lastSearchParams.current, null)}
+                    />
+                  )}
+                  <SaveSearchDialog params={lastSearchParams.current} result={results} />
+                </>
+              )}
             />
           </div>
         )}
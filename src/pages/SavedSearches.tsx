@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Bookmark, Copy, Eye, EyeOff, Loader2, Pencil, Play, Trash2, AlertCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import {
+  deleteSavedSearch,
+  duplicateSavedSearch,
+  listSavedSearches,
+  renameSavedSearch,
+  SavedSearch,
+} from "@/lib/api";
+import { describeSearchParams, searchParamsToQuery, SavedSearchLinkState } from "@/lib/searchUrl";
+import { useToast } from "@/hooks/use-toast";
+import { useWatches } from "@/hooks/use-watches";
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : "Never");
+
+export default function SavedSearchesPage() {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<SavedSearch | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { findWatch, toggleWatch } = useWatches();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listSavedSearches()
+      .then((data) => {
+        if (!cancelled) setSearches(data);
+      })
+      .catch((error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : "Failed to load saved searches");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Runs an action on one saved search, with a per-row busy state and a toast on failure
+  const withBusy = async (id: string, title: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title,
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRerun = (search: SavedSearch) => {
+    const state: SavedSearchLinkState = { savedSearchId: search.id };
+    navigate(`/?${searchParamsToQuery(search.params).toString()}`, { state });
+  };
+
+  const handleRename = (id: string, name: string) => {
+    const trimmed = name.trim();
+    const current = searches.find((s) => s.id === id);
+    setEditing(null);
+    if (!trimmed || trimmed === current?.name) return;
+
+    withBusy(id, "Could not rename search", async () => {
+      const updated = await renameSavedSearch(id, trimmed);
+      setSearches((prev) => prev.map((s) => (s.id === id ? updated : s)));
+    });
+  };
+
+  const handleDuplicate = (search: SavedSearch) => {
+    withBusy(search.id, "Could not duplicate search", async () => {
+      const copy = await duplicateSavedSearch(search.id);
+      setSearches((prev) => [copy, ...prev]);
+    });
+  };
+
+  const handleToggleWatch = (search: SavedSearch) => {
+    withBusy(search.id, "Could not update watch", async () => {
+      const watching = await toggleWatch({ kind: "search", savedSearchId: search.id });
+      toast({
+        title: watching ? "Watching search" : "Stopped watching",
+        description: watching
+          ? "It will be re-run on a schedule; changes appear in your inbox."
+          : `"${search.name}" is no longer checked for changes.`,
+      });
+    });
+  };
+
+  const handleDelete = (search: SavedSearch) => {
+    setPendingDelete(null);
+    withBusy(search.id, "Could not delete search", async () => {
+      await deleteSavedSearch(search.id);
+      setSearches((prev) => prev.filter((s) => s.id !== search.id));
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="container py-8 flex-1">
+        <Link to="/">
+          <Button variant="ghost" className="mb-6">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Search
+          </Button>
+        </Link>
+
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold mb-2 flex items-center gap-3">
+            <Bookmark className="h-7 w-7 text-primary" />
+            My Searches
+            {!isLoading && <Badge variant="outline">{searches.length}</Badge>}
+          </h1>
+          <p className="text-muted-foreground">
+            Named searches saved from this browser, with the trials each one returned on its last run.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground gap-2">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading saved searches...
+          </div>
+        ) : loadError ? (
+          <div className="text-center py-12">
+            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <p className="text-muted-foreground">{loadError}</p>
+          </div>
+        ) : searches.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-lg text-muted-foreground">No saved searches yet.</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Run a search and use "Save search" above the results to keep it here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {searches.map((search) => {
+              const isBusy = busyId === search.id;
+              const isEditing = editing?.id === search.id;
+              const isWatched = !!findWatch({ kind: "search", savedSearchId: search.id });
+              return (
+                <Card key={search.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                      <div className="min-w-0 flex-1 space-y-1">
+                        {isEditing ? (
+                          <form
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              // Saving happens on blur, so Enter and clicking away behave the same
+                              e.currentTarget.querySelector("input")?.blur();
+                            }}
+                          >
+                            <Input
+                              value={editing.name}
+                              maxLength={120}
+                              autoFocus
+                              onChange={(e) => setEditing({ id: search.id, name: e.target.value })}
+                              onBlur={() => handleRename(search.id, editing.name)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Escape") setEditing(null);
+                              }}
+                              className="h-9"
+                            />
+                          </form>
+                        ) : (
+                          <CardTitle className="text-lg truncate" title={search.name}>
+                            {search.name}
+                          </CardTitle>
+                        )}
+                        <p className="text-sm text-muted-foreground truncate">
+                          {describeSearchParams(search.params) || "No parameters"}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap gap-2 items-center">
+                        {isBusy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                        <Button size="sm" className="gap-2" onClick={() => handleRerun(search)}>
+                          <Play className="h-4 w-4" />
+                          Re-run
+                        </Button>
+                        <Button
+                          variant={isWatched ? "secondary" : "outline"}
+                          size="sm"
+                          className="gap-2"
+                          disabled={isBusy}
+                          onClick={() => handleToggleWatch(search)}
+                        >
+                          {isWatched ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                          {isWatched ? "Unwatch" : "Watch"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          disabled={isBusy}
+                          onClick={() => setEditing({ id: search.id, name: search.name })}
+                        >
+                          <Pencil className="h-4 w-4" />
+                          Rename
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          disabled={isBusy}
+                          onClick={() => handleDuplicate(search)}
+                        >
+                          <Copy className="h-4 w-4" />
+                          Duplicate
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-2 text-muted-foreground hover:text-destructive"
+                          disabled={isBusy}
+                          onClick={() => setPendingDelete(search)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+                    <span>
+                      Last run: <span className="text-foreground">{formatDateTime(search.lastRunAt)}</span>
+                    </span>
+                    <span>
+                      Results:{" "}
+                      <span className="text-foreground">
+                        {search.totalCount?.toLocaleString() ?? "—"} found, {search.nctIds.length} NCT IDs stored
+                      </span>
+                    </span>
+                    <span>Saved: {formatDateTime(search.createdAt)}</span>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete saved search?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" and its stored results will be removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingDelete && handleDelete(pendingDelete)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { AlertCircle, ArrowLeft, History, Loader2, Play, Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { SaveSearchDialog } from "@/components/SaveSearchDialog";
+import { listSearchHistory, SearchHistoryEntry, SearchMode } from "@/lib/api";
+import { describeSearchParams, historyEntryToSearchParams, searchParamsToQuery } from "@/lib/searchUrl";
+
+const MODE_LABELS: Partial<Record<SearchMode, string>> = {
+  drug: "Drug",
+  condition: "Condition",
+  combined: "Drug + condition",
+  ids: "NCT ID list",
+  class: "Drug class",
+  advanced: "Advanced",
+};
+
+const ALL_MODES = "all";
+
+// Shown by describeSearchParams or the mode badge; the rest are listed as filters
+const SUBJECT_KEYS = ["searchMode", "drug", "drugClass", "advancedQuery", "ids", "condition", "biomarker", "phase", "status", "exhaustive"];
+
+/** Remaining filters as "key: value" labels, multi-valued ones joined */
+function filterLabels(query: URLSearchParams): string[] {
+  const keys = Array.from(new Set(query.keys())).filter((key) => !SUBJECT_KEYS.includes(key));
+  return keys.map((key) => `${key}: ${query.getAll(key).join(", ")}`);
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+export default function SearchHistoryPage() {
+  const [entries, setEntries] = useState<SearchHistoryEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filterText, setFilterText] = useState("");
+  const [appliedText, setAppliedText] = useState("");
+  const [mode, setMode] = useState<string>(ALL_MODES);
+  const navigate = useNavigate();
+
+  // Wait for a pause in typing before querying
+  useEffect(() => {
+    const timer = window.setTimeout(() => setAppliedText(filterText.trim()), 300);
+    return () => window.clearTimeout(timer);
+  }, [filterText]);
+
+  const searchMode = mode === ALL_MODES ? undefined : (mode as SearchMode);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadError(null);
+
+    listSearchHistory({ q: appliedText || undefined, searchMode })
+      .then((data) => {
+        if (cancelled) return;
+        setEntries(data.entries);
+        setNextCursor(data.nextCursor);
+      })
+      .catch((error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : "Failed to load search history");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appliedText, searchMode]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const data = await listSearchHistory({ q: appliedText || undefined, searchMode, before: nextCursor });
+      setEntries((prev) => [...prev, ...data.entries]);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "Failed to load search history");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="container py-8 flex-1">
+        <Link to="/">
+          <Button variant="ghost" className="mb-6">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Search
+          </Button>
+        </Link>
+
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold mb-2 flex items-center gap-3">
+            <History className="h-7 w-7 text-primary" />
+            Search History
+          </h1>
+          <p className="text-muted-foreground">
+            Searches run from this browser, newest first. Re-run one or keep it as a named search.
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={filterText}
+              onChange={(e) => setFilterText(e.target.value)}
+              placeholder="Filter by drug, class, condition or biomarker"
+              maxLength={200}
+              className="pl-9"
+            />
+          </div>
+          <Select value={mode} onValueChange={setMode}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_MODES}>All search modes</SelectItem>
+              {Object.entries(MODE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground gap-2">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading search history...
+          </div>
+        ) : loadError && entries.length === 0 ? (
+          <div className="text-center py-12">
+            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <p className="text-muted-foreground">{loadError}</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-lg text-muted-foreground">
+              {appliedText || searchMode ? "No searches match these filters." : "No searches yet."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {entries.map((entry) => {
+              const params = historyEntryToSearchParams(entry);
+              const query = params ? searchParamsToQuery(params) : null;
+              const entryMode = params?.searchMode || "combined";
+              const filters = query ? filterLabels(query) : [];
+              return (
+                <Card key={entry.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                      <div className="min-w-0 flex-1 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <CardTitle className="text-base truncate">
+                            {params ? describeSearchParams(params) : "Search without a drug or condition"}
+                          </CardTitle>
+                          <Badge variant="outline" className="shrink-0">{MODE_LABELS[entryMode] || entryMode}</Badge>
+                          {params?.exhaustive && <Badge variant="secondary" className="shrink-0">All matches</Badge>}
+                        </div>
+                        {filters.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {filters.map((label) => (
+                              <Badge key={label} variant="secondary" className="font-normal">
+                                {label}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      {params && (
+                        <div className="flex flex-wrap gap-2 items-center">
+                          <Button size="sm" className="gap-2" onClick={() => navigate(`/?${query!.toString()}`)}>
+                            <Play className="h-4 w-4" />
+                            Re-run
+                          </Button>
+                          <SaveSearchDialog params={params} />
+                        </div>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+                    <span>
+                      Run: <span className="text-foreground">{new Date(entry.createdAt).toLocaleString()}</span>
+                    </span>
+                    <span>
+                      Results: <span className="text-foreground">{entry.resultCount?.toLocaleString() ?? "—"}</span>
+                    </span>
+                    {entry.durationMs !== null && <span>Took {formatDuration(entry.durationMs)}</span>}
+                    {entry.traceId && <span className="font-mono">Trace {entry.traceId}</span>}
+                  </CardContent>
+                </Card>
+              );
+            })}
+
+            {nextCursor && (
+              <div className="flex flex-col items-center gap-2 py-4">
+                {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+                <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore} className="min-w-[200px]">
+                  {isLoadingMore ? (
+                    <span className="flex items-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Loading...
+                    </span>
+                  ) : (
+                    "Load older searches"
+                  )}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Columns3, FileJson, FileSpreadsheet, ListChecks, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { TrialCard } from "@/components/TrialCard";
+import { PicoQuickReading } from "@/components/PicoQuickReading";
+import { EligibilityMatrix } from "@/components/EligibilityMatrix";
+import { ExternalAIAnalysisDrawer } from "@/components/ExternalAIAnalysisDrawer";
+import { exportToCSV, exportToJSON, generatePicoSummary, trialsToCsvRows } from "@/lib/api";
+import { analyzePico } from "@/lib/picoAnalysis";
+import { MIN_COMPARE_TRIALS, MAX_COMPARE_TRIALS } from "@/lib/trialComparison";
+import { useSelectionBasket } from "@/hooks/use-selection-basket";
+
+export default function SelectionPage() {
+  const { trials, count, clear } = useSelectionBasket();
+  const picoAnalysis = useMemo(() => analyzePico(trials), [trials]);
+
+  const canCompare = count >= MIN_COMPARE_TRIALS && count <= MAX_COMPARE_TRIALS;
+  const compareHref = `/compare?ids=${trials.map((t) => t.nctId).join(",")}`;
+
+  const handleGenerateNarrative = async (mode: 'basic' | 'advanced'): Promise<string> => {
+    const result = await generatePicoSummary({ mode, analysis: picoAnalysis });
+    return result.summaryText;
+  };
+
+  const handleExportCSV = () => {
+    exportToCSV(trialsToCsvRows(trials), `trials_selection_${new Date().toISOString().split("T")[0]}`);
+  };
+
+  const handleExportJSON = () => {
+    exportToJSON(trials, `trials_selection_${new Date().toISOString().split("T")[0]}`);
+  };
+
+  const getJsonPayload = () => ({
+    data: trials,
+    trace: {
+      timestamp: new Date().toISOString(),
+      dataSourceCalls: [],
+      source: "selection_basket",
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="container py-8 flex-1">
+        <Link to="/">
+          <Button variant="ghost" className="mb-6">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Search
+          </Button>
+        </Link>
+
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold mb-2 flex items-center gap-3">
+              <ListChecks className="h-7 w-7 text-primary" />
+              Selected Trials
+              <Badge variant="outline">{count}</Badge>
+            </h1>
+            <p className="text-muted-foreground">
+              Your working set, collected across searches. It is kept in this browser.
+            </p>
+          </div>
+          {count > 0 && (
+            <div className="flex flex-wrap gap-2 items-center">
+              {canCompare ? (
+                <Link to={compareHref}>
+                  <Button size="sm" className="gap-2">
+                    <Columns3 className="h-4 w-4" />
+                    Compare
+                  </Button>
+                </Link>
+              ) : (
+                <Button size="sm" className="gap-2" disabled title={`Select ${MIN_COMPARE_TRIALS}–${MAX_COMPARE_TRIALS} trials to compare`}>
+                  <Columns3 className="h-4 w-4" />
+                  Compare
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleExportCSV}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExportJSON}>
+                <FileJson className="h-4 w-4 mr-2" />
+                Export JSON
+              </Button>
+              <ExternalAIAnalysisDrawer source="trial_json" getPayload={getJsonPayload} disabled={count === 0} />
+              <Button variant="ghost" size="sm" onClick={clear} className="gap-2 text-muted-foreground hover:text-destructive">
+                <Trash2 className="h-4 w-4" />
+                Clear
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {count === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-lg text-muted-foreground">No trials selected yet.</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Tick the checkbox on any trial card in your search results to add it here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <PicoQuickReading
+              analysis={picoAnalysis}
+              onGenerateNarrative={handleGenerateNarrative}
+              showContributingTrials={true}
+            />
+
+            <EligibilityMatrix trials={trials} exportName="trials_selection" />
+
+            <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+              {trials.map((trial) => (
+                <TrialCard key={trial.nctId} trial={trial} />
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
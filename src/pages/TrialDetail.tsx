@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { useParams, Link } from "react-router-dom";
+import { useParams, useLocation, Link } from "react-router-dom";
 import {
   ArrowLeft,
   ExternalLink,
@@ -12,6 +12,8 @@ import {
   FileText,
   Loader2,
   AlertCircle,
+  Eye,
+  EyeOff,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -22,12 +24,16 @@ import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
 import { ComparatorTab } from "@/components/ComparatorTab";
 import { EndpointsTab } from "@/components/EndpointsTab";
+import { EligibilityTab } from "@/components/EligibilityTab";
+import { ResultsTab } from "@/components/ResultsTab";
 import { PublicationsTab } from "@/components/PublicationsTab";
 import { PicoQuickReading } from "@/components/PicoQuickReading";
 import { getTrialDetail, TrialDetail as TrialDetailType, exportToCSV, exportToJSON, generatePicoSummary } from "@/lib/api";
 import { analyzeSingleTrialPico, PicoAnalysis } from "@/lib/picoAnalysis";
 import { generateTrialPdfReport } from "@/lib/pdfReport";
+import { backToSearchHref } from "@/lib/searchUrl";
 import { useToast } from "@/hooks/use-toast";
+import { useWatches } from "@/hooks/use-watches";
 
 function getStatusVariant(status: string): "recruiting" | "completed" | "terminated" | "active" | "default" {
   const normalizedStatus = status.toLowerCase().replace(/_/g, " ");
@@ -81,13 +87,18 @@ function formatDate(dateString: string): string {
 
 export default function TrialDetailPage() {
   const { nctId } = useParams<{ nctId: string }>();
+  const location = useLocation();
+  const backHref = backToSearchHref(location.state);
   const [trial, setTrial] = useState<TrialDetailType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [picoAnalysis, setPicoAnalysis] = useState<PicoAnalysis | null>(null);
   const [picoNarrative, setPicoNarrative] = useState<string | null>(null);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
+  const [isTogglingWatch, setIsTogglingWatch] = useState(false);
   const { toast } = useToast();
+  const { isLoaded: watchesLoaded, findWatch, toggleWatch } = useWatches();
+  const isWatched = !!nctId && !!findWatch({ kind: "trial", nctId });
 
   useEffect(() => {
     if (!nctId) return;
@@ -133,6 +144,28 @@ export default function TrialDetailPage() {
     return result.summaryText;
   };
 
+  const handleToggleWatch = async () => {
+    if (!trial) return;
+    setIsTogglingWatch(true);
+    try {
+      const watching = await toggleWatch({ kind: "trial", nctId: trial.nctId, label: trial.briefTitle.slice(0, 300) });
+      toast({
+        title: watching ? "Watching trial" : "Stopped watching",
+        description: watching
+          ? "Status, outcome and arm changes will appear in your inbox."
+          : `${trial.nctId} is no longer checked for changes.`,
+      });
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Could not update watch",
+        description: err instanceof Error ? err.message : "Please try again.",
+      });
+    } finally {
+      setIsTogglingWatch(false);
+    }
+  };
+
   const handleExportPdf = () => {
     if (!trial) return;
     generateTrialPdfReport({
@@ -201,7 +234,7 @@ export default function TrialDetailPage() {
       <div className="min-h-screen bg-background flex flex-col">
         <Header />
         <div className="container py-12 flex-1">
-          <Link to="/">
+          <Link to={backHref}>
             <Button variant="ghost" className="mb-6">
               <ArrowLeft className="h-4 w-4 mr-2" />
               Back to Search
@@ -211,7 +244,7 @@ export default function TrialDetailPage() {
             <AlertCircle className="h-16 w-16 text-destructive mx-auto mb-4" />
             <h2 className="text-2xl font-bold mb-2">Error Loading Trial</h2>
             <p className="text-muted-foreground mb-6">{error || "Trial not found"}</p>
-            <Link to="/">
+            <Link to={backHref}>
               <Button>Return to Search</Button>
             </Link>
           </div>
@@ -227,7 +260,7 @@ export default function TrialDetailPage() {
 
       <main className="container py-8 flex-1">
         {/* Back navigation */}
-        <Link to="/">
+        <Link to={backHref}>
           <Button variant="ghost" className="mb-6">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Search
@@ -301,6 +334,11 @@ export default function TrialDetailPage() {
               ))}
             </div>
           )}
+          {trial.conditionMeshTerms && trial.conditionMeshTerms.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-2" title={trial.conditionMeshAncestors?.join(", ")}>
+              MeSH: {trial.conditionMeshTerms.join(", ")}
+            </p>
+          )}
         </div>
 
         {/* Export Actions */}
@@ -321,6 +359,16 @@ export default function TrialDetailPage() {
             <FileJson className="h-4 w-4 mr-2" />
             Export Full JSON
           </Button>
+          <Button
+            variant={isWatched ? "secondary" : "outline"}
+            size="sm"
+            onClick={handleToggleWatch}
+            disabled={!watchesLoaded || isTogglingWatch}
+            className="gap-2"
+          >
+            {isWatched ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            {isWatched ? "Unwatch trial" : "Watch trial"}
+          </Button>
         </div>
 
         {/* PICO Quick Reading - Primary view */}
@@ -345,9 +393,11 @@ export default function TrialDetailPage() {
               </p>
               
               <Tabs defaultValue="comparators" className="animate-fade-in">
-                <TabsList className="grid w-full grid-cols-3 mb-6">
+                <TabsList className="grid w-full grid-cols-5 mb-6">
                   <TabsTrigger value="comparators">Comparadores</TabsTrigger>
                   <TabsTrigger value="endpoints">Endpoints</TabsTrigger>
+                  <TabsTrigger value="eligibility">Elegibilidad</TabsTrigger>
+                  <TabsTrigger value="results">Resultados</TabsTrigger>
                   <TabsTrigger value="publications">Publicaciones</TabsTrigger>
                 </TabsList>
 
@@ -368,6 +418,23 @@ export default function TrialDetailPage() {
                   />
                 </TabsContent>
 
+                <TabsContent value="eligibility">
+                  <EligibilityTab
+                    profile={trial.eligibilityProfile}
+                    criteria={trial.eligibilityCriteria}
+                    sex={trial.sex}
+                    healthyVolunteers={trial.healthyVolunteers}
+                  />
+                </TabsContent>
+
+                <TabsContent value="results">
+                  <ResultsTab
+                    nctId={trial.nctId}
+                    results={trial.results}
+                    resultsFirstPostDate={trial.resultsFirstPostDate}
+                  />
+                </TabsContent>
+
                 <TabsContent value="publications">
                   <PublicationsTab nctId={trial.nctId} />
                 </TabsContent>
@@ -395,6 +462,9 @@ export default function TrialDetailPage() {
           <div className="text-xs text-muted-foreground border-t border-border pt-4 mt-8">
             <p>Data fetched at {new Date(trial.trace.timestamp).toLocaleString()}</p>
             <p>Source: {trial.trace.dataSourceCalls.map((call) => call.source).join(", ")}</p>
+            {trial.trace.classifierVersion && (
+              <p>Endpoint/comparator classifier: v{trial.trace.classifierVersion}</p>
+            )}
           </div>
         )}
       </main>
@@ -0,0 +1,240 @@
+/**
+ * Shared endpoint and control-arm classification for all Edge Functions.
+ *
+ * trials-search and trial-detail both run every arm and outcome through this
+ * module, so search results and the detail view carry identical endpoint
+ * classes, control types and add-on flags.
+ *
+ * Bump CLASSIFIER_VERSION whenever a rule changes: it is part of the cache
+ * keys (so stale classifications are never served) and is echoed in the
+ * trace of every response for reproducibility.
+ */
+
+export const CLASSIFIER_VERSION = '1.0.0';
+
+export type EndpointClass =
+  | 'OS' | 'PFS' | 'DFS' | 'EFS' | 'RFS'
+  | 'ORR' | 'CR' | 'pCR' | 'CBR' | 'DCR'
+  | 'DOR' | 'TTP' | 'TTF' | 'MRD'
+  | 'QoL/PRO' | 'Safety' | 'Biomarker' | 'PK/PD' | 'Resource Use' | 'Other';
+
+export type ControlType =
+  | 'Placebo'
+  | 'Sham'
+  | 'No Intervention'
+  | 'Active Comparator'
+  | 'Standard of Care'
+  | 'Experimental';
+
+/** Arm group as returned by ClinicalTrials.gov API v2 (armsInterventionsModule.armGroups). */
+export interface RawArmGroup {
+  label?: string;
+  type?: string;
+  description?: string;
+  interventionNames?: string[];
+}
+
+/** Outcome as returned by ClinicalTrials.gov API v2 (outcomesModule.*Outcomes). */
+export interface RawOutcome {
+  measure?: string;
+  timeFrame?: string;
+  description?: string;
+}
+
+export interface ClassifiedArm {
+  label: string;
+  type: string;
+  description: string;
+  interventions: string[];
+  isControl: boolean;
+  controlType: ControlType | null;
+  isAddOn: boolean;
+}
+
+export interface ClassifiedOutcome {
+  measure: string;
+  timeFrame: string;
+  description: string;
+  classification: EndpointClass;
+}
+
+// ---------------------------------------------------------------------------
+// Endpoints
+// ---------------------------------------------------------------------------
+
+/** Classify an outcome measure title — comprehensive HTA-grade classification. */
+export function classifyEndpoint(measure: string): EndpointClass {
+  const m = measure.toLowerCase();
+
+  // Hard clinical endpoints
+  if (m.includes('overall survival') || m === 'os' || /\bos\b/.test(m)) {
+    return 'OS';
+  }
+
+  // Progression/disease-free survival family
+  if (m.includes('progression-free') || m.includes('progression free') || /\bpfs\b/.test(m)) {
+    return 'PFS';
+  }
+  if (m.includes('disease-free') || m.includes('disease free') || /\bdfs\b/.test(m)) {
+    return 'DFS';
+  }
+  if (m.includes('event-free') || m.includes('event free') || /\befs\b/.test(m)) {
+    return 'EFS';
+  }
+  if (m.includes('relapse-free') || m.includes('relapse free') || m.includes('recurrence-free') || m.includes('recurrence free') || /\brfs\b/.test(m)) {
+    return 'RFS';
+  }
+
+  // Response rate endpoints
+  if (m.includes('objective response') || m.includes('overall response rate') || /\borr\b/.test(m)) {
+    return 'ORR';
+  }
+  if (m.includes('complete response') || m.includes('complete remission') || /\bcr\b/.test(m) || /\bcri\b/.test(m)) {
+    return 'CR';
+  }
+  if (m.includes('pathologic complete') || m.includes('pathological complete') || /\bpcr\b/.test(m)) {
+    return 'pCR';
+  }
+  if (m.includes('clinical benefit') || /\bcbr\b/.test(m)) {
+    return 'CBR';
+  }
+  if (m.includes('disease control') || /\bdcr\b/.test(m)) {
+    return 'DCR';
+  }
+
+  // Duration/time-to-event endpoints
+  if (m.includes('duration of response') || /\bdor\b/.test(m)) {
+    return 'DOR';
+  }
+  if (m.includes('time to progression') || /\bttp\b/.test(m)) {
+    return 'TTP';
+  }
+  if (m.includes('time to treatment failure') || m.includes('time to next treatment') || /\bttf\b/.test(m) || /\bttnt\b/.test(m)) {
+    return 'TTF';
+  }
+  if (m.includes('time to') && !m.includes('time to progression') && !m.includes('time to treatment') && !m.includes('time to next')) {
+    return 'TTP';
+  }
+
+  // Minimal residual disease
+  if (m.includes('minimal residual') || m.includes('measurable residual') || /\bmrd\b/.test(m)) {
+    return 'MRD';
+  }
+
+  // PRO / QoL — detect by instrument name or general terms
+  if (m.includes('quality of life') || m.includes('qol') || m.includes('hrqol') ||
+      m.includes('patient reported') || m.includes('patient-reported') || /\bpro\b/.test(m) ||
+      m.includes('eortc') || m.includes('qlq') || m.includes('fact-') || m.includes('eq-5d') || m.includes('eq5d') ||
+      m.includes('sf-36') || m.includes('sf36') || m.includes('sf-12') ||
+      m.includes('promis') || m.includes('euroqol') || m.includes('bpi') || m.includes('brief pain') ||
+      m.includes('mdasi') || m.includes('fisi') || m.includes('symptom burden') ||
+      m.includes('health utility') || m.includes('global health status')) {
+    return 'QoL/PRO';
+  }
+
+  // Safety
+  if (m.includes('adverse event') || m.includes('safety') || m.includes('toxicity') ||
+      m.includes('tolerability') || m.includes('side effect') || m.includes('dose limiting') ||
+      m.includes('dose-limiting') || m.includes('maximum tolerated') || m.includes('mtd') ||
+      m.includes('teae') || m.includes('treatment-emergent') || m.includes('treatment emergent') ||
+      m.includes('incidence of') || m.includes('aesi')) {
+    return 'Safety';
+  }
+
+  // Biomarker
+  if (m.includes('biomarker') || m.includes('marker level') || m.includes('expression') ||
+      m.includes('ctdna') || m.includes('circulating tumor') || m.includes('pd-l1') ||
+      m.includes('her2') || m.includes('egfr') || m.includes('alk') || m.includes('braf') ||
+      m.includes('tmb') || m.includes('tumor mutational') || m.includes('microsatellite')) {
+    return 'Biomarker';
+  }
+
+  // Pharmacokinetics / Pharmacodynamics
+  if (m.includes('pharmacokinetic') || m.includes('pharmacodynamic') || /\bpk\b/.test(m) || /\bpd\b/.test(m) ||
+      m.includes('auc') || m.includes('cmax') || m.includes('trough') || m.includes('clearance') ||
+      m.includes('half-life') || m.includes('bioavailability')) {
+    return 'PK/PD';
+  }
+
+  // Resource use / Health economics
+  if (m.includes('cost') || m.includes('resource') || m.includes('hospitalization') || m.includes('hospitalisation') ||
+      m.includes('healthcare utilization') || m.includes('healthcare utilisation') || m.includes('length of stay') ||
+      m.includes('readmission') || m.includes('emergency department') || m.includes('icu') ||
+      m.includes('qaly') || m.includes('icer') || m.includes('cost-effectiveness')) {
+    return 'Resource Use';
+  }
+
+  return 'Other';
+}
+
+export function classifyOutcome(outcome: RawOutcome): ClassifiedOutcome {
+  return {
+    measure: outcome.measure || '',
+    timeFrame: outcome.timeFrame || '',
+    description: outcome.description || '',
+    classification: classifyEndpoint(outcome.measure || ''),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Arms
+// ---------------------------------------------------------------------------
+
+const SOC_PATTERNS = [
+  'standard of care', 'soc', 'best supportive care', 'best available therapy',
+  'usual care', 'routine care', "investigator's choice", "physician's choice",
+  'standard treatment', 'standard therapy', 'current standard',
+];
+
+const ADD_ON_PATTERNS = [
+  'add-on', 'addon', 'plus', '+ ', 'in combination', 'added to',
+  'on top of', 'adjunct', 'background therapy', 'plus standard',
+  'combination with', 'concomitant', 'combined with', 'together with',
+  'in addition to', 'supplemented with', 'co-administered', 'coadministered',
+  'backbone', 'base therapy', 'underlying therapy',
+];
+
+/**
+ * Derive the control type from the registered arm type, falling back to
+ * hints in the arm label and description.
+ */
+export function classifyControlType(arm: RawArmGroup): ControlType | null {
+  const armType = arm.type?.toLowerCase() || '';
+
+  if (armType.includes('placebo')) return 'Placebo';
+  if (armType.includes('sham')) return 'Sham';
+  if (armType.includes('no intervention') || armType.includes('no_intervention')) return 'No Intervention';
+  if (armType.includes('active_comparator') || armType.includes('active comparator')) return 'Active Comparator';
+  if (armType.includes('experimental')) return 'Experimental';
+
+  const text = `${arm.description || ''} ${arm.label || ''}`.toLowerCase();
+  if (text.includes('placebo')) return 'Placebo';
+  if (SOC_PATTERNS.some((p) => text.includes(p))) return 'Standard of Care';
+  if (text.includes('active comparator') || text.includes('active control')) return 'Active Comparator';
+
+  return null;
+}
+
+export function isControlArm(arm: RawArmGroup): boolean {
+  const armType = arm.type?.toLowerCase() || '';
+  return armType.includes('comparator') || armType.includes('placebo') || armType.includes('sham') ||
+    armType.includes('no_intervention') || armType.includes('no intervention') || armType.includes('control');
+}
+
+/** True when the arm describes a therapy added on top of a background regimen. */
+export function detectAddOnDesign(arm: RawArmGroup): boolean {
+  const text = `${arm.description || ''} ${arm.label || ''}`.toLowerCase();
+  return ADD_ON_PATTERNS.some((p) => text.includes(p));
+}
+
+export function classifyArm(arm: RawArmGroup): ClassifiedArm {
+  return {
+    label: arm.label || '',
+    type: arm.type || '',
+    description: arm.description || '',
+    interventions: arm.interventionNames || [],
+    isControl: isControlArm(arm),
+    controlType: classifyControlType(arm),
+    isAddOn: detectAddOnDesign(arm),
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * Shared ClinicalTrials.gov API v2 helpers.
+ *
+ * Query building and the study → Trial transform used by trials-search,
+ * kept here so background jobs (watch-runner) query the registry exactly
+ * the way an interactive search does.
+ */
+
+import { classifyArm, classifyOutcome } from './classification.ts';
+import type { RawArmGroup, RawOutcome } from './classification.ts';
+import { summarizeEligibility } from './eligibility.ts';
+import type { EligibilityFields } from './eligibility.ts';
+
+export const CT_GOV_STUDIES_URL = 'https://clinicaltrials.gov/api/v2/studies';
+
+/** ClinicalTrials.gov API max page size */
+export const CT_GOV_PAGE_SIZE = 100;
+
+/** Search filters as accepted by trials-search (client-side SearchParams) */
+export interface StudySearchFilters {
+  drug?: string;
+  /** Other names of `drug`, ORed into the intervention clause (see drugSynonyms.ts) */
+  drugSynonyms?: string[];
+  /** Class search: every member drug and synonym, ORed (see drugClasses.ts) */
+  drugClassTerms?: string[];
+  condition?: string;
+  /** Also match trials whose MeSH condition terms, or their ancestors, equal `condition` */
+  includeNarrower?: boolean;
+  biomarker?: string;
+  phase?: string[];
+  status?: string[];
+  studyType?: string;
+  /** Last update posted date range (YYYY-MM-DD) */
+  minDate?: string;
+  maxDate?: string;
+  /** Further date ranges (YYYY-MM-DD), see DATE_RANGE_FIELDS */
+  startFrom?: string;
+  startTo?: string;
+  primaryCompletionFrom?: string;
+  primaryCompletionTo?: string;
+  completionFrom?: string;
+  completionTo?: string;
+  firstPostedFrom?: string;
+  firstPostedTo?: string;
+  /** industry | nih | other */
+  sponsorClass?: string[];
+  country?: string;
+  minEnrollment?: number;
+  maxEnrollment?: number;
+  /** randomized | non_randomized */
+  allocation?: string;
+  /** none | single | double | triple | quadruple */
+  masking?: string[];
+  /** drug | biological | device | … (lower-case CT.gov InterventionType) */
+  interventionType?: string[];
+  /** child | adult | older_adult */
+  ageGroup?: string[];
+  /** Trials enrolling this sex (female | male); "all" trials always match */
+  sex?: string;
+  healthyVolunteers?: boolean;
+  hasResults?: boolean;
+  /** Restricts the search to these registry IDs (batch lookup) */
+  nctIds?: string[];
+  /** Compiled advanced query (see queryBuilder.ts), ANDed with the other clauses */
+  compiledQuery?: string;
+}
+
+const PHASE_MAPPING: Record<string, string> = {
+  '1': 'Phase 1', '2': 'Phase 2', '3': 'Phase 3', '4': 'Phase 4',
+  'early_1': 'Early Phase 1', 'na': 'Not Applicable',
+};
+
+const STATUS_MAPPING: Record<string, string> = {
+  'recruiting': 'RECRUITING', 'active_not_recruiting': 'ACTIVE_NOT_RECRUITING',
+  'completed': 'COMPLETED', 'terminated': 'TERMINATED', 'withdrawn': 'WITHDRAWN',
+  'suspended': 'SUSPENDED', 'not_yet_recruiting': 'NOT_YET_RECRUITING',
+  'enrolling_by_invitation': 'ENROLLING_BY_INVITATION',
+};
+
+/** Date range filters: `<key>From` / `<key>To` search params → CT.gov date field */
+export const DATE_RANGE_FIELDS = {
+  start: 'StartDate',
+  primaryCompletion: 'PrimaryCompletionDate',
+  completion: 'CompletionDate',
+  firstPosted: 'StudyFirstPostDate',
+} as const;
+
+export interface DateFilter {
+  /** ClinicalTrials.gov field the range applies to */
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * Every date range in use, named by the CT.gov field it filters on. Recorded
+ * in search traces so a search can be reproduced outside the app.
+ */
+export function getDateFilters(filters: StudySearchFilters): DateFilter[] {
+  const ranges: DateFilter[] = [];
+  if (filters.minDate || filters.maxDate) {
+    ranges.push({ field: 'LastUpdatePostDate', from: filters.minDate || null, to: filters.maxDate || null });
+  }
+  for (const [key, field] of Object.entries(DATE_RANGE_FIELDS)) {
+    const from = filters[`${key}From` as keyof StudySearchFilters] as string | undefined;
+    const to = filters[`${key}To` as keyof StudySearchFilters] as string | undefined;
+    if (from || to) ranges.push({ field, from: from || null, to: to || null });
+  }
+  return ranges;
+}
+
+/**
+ * `AREA[field]VALUE` for one value, an OR group for several. Our filter
+ * values are the lower-case form of the CT.gov enum values.
+ */
+function areaAnyOf(field: string, values: string[]): string {
+  const parts = values.map((v) => `AREA[${field}]${v.toUpperCase()}`);
+  return parts.length > 1 ? `(${parts.join(' OR ')})` : parts[0];
+}
+
+/** Like areaAnyOf for free-text values: each term quoted, case kept */
+function areaAnyOfTerms(field: string, terms: string[]): string {
+  const parts = terms.map((t) => `AREA[${field}]"${t.replace(/"/g, '')}"`);
+  return parts.length > 1 ? `(${parts.join(' OR ')})` : parts[0];
+}
+
+/** Fields requested for search results (everything transformStudy reads) */
+export const SEARCH_FIELDS = [
+  'NCTId', 'BriefTitle', 'OfficialTitle', 'Phase', 'OverallStatus',
+  'LeadSponsorName', 'LastUpdatePostDate', 'StartDate', 'CompletionDate',
+  'EnrollmentCount', 'Condition', 'InterventionName', 'InterventionType',
+  'ArmGroupLabel', 'ArmGroupType', 'ArmGroupDescription', 'ArmGroupInterventionName',
+  'PrimaryOutcomeMeasure', 'PrimaryOutcomeTimeFrame', 'SecondaryOutcomeMeasure',
+  'SecondaryOutcomeTimeFrame', 'StudyType', 'BriefSummary',
+  'ConditionMeshTerm', 'ConditionAncestorTerm',
+  'EligibilityCriteria', 'MinimumAge', 'MaximumAge',
+];
+
+/**
+ * Build the studies endpoint URL for a search, with all filters applied.
+ */
+export function buildStudiesUrl(filters: StudySearchFilters, pageSize: number, pageToken?: string): URL {
+  const {
+    drug, drugSynonyms = [], drugClassTerms = [], condition, includeNarrower, biomarker, phase = [], status = [], studyType, minDate, maxDate,
+    sponsorClass = [], country, minEnrollment, maxEnrollment, allocation, masking = [],
+    interventionType = [], ageGroup = [], sex, healthyVolunteers, hasResults, nctIds = [], compiledQuery,
+  } = filters;
+
+  const queryParts: string[] = [];
+
+  if (drug && drug.trim()) {
+    // Synonyms are quoted so code names like MK-3475 match as one term
+    const names = [drug, ...drugSynonyms.map((s) => `"${s.replace(/"/g, '')}"`)];
+    const drugQueries = names.map((name) => `AREA[InterventionName]${name}`);
+    queryParts.push(drugQueries.length > 1 ? `(${drugQueries.join(' OR ')})` : drugQueries[0]);
+  }
+
+  if (drugClassTerms.length > 0) {
+    queryParts.push(areaAnyOfTerms('InterventionName', drugClassTerms));
+  }
+
+  if (condition && condition.trim()) {
+    // Narrower terms: a trial registered as "HER2-positive breast cancer" is
+    // indexed under MeSH "Breast Neoplasms" as an ancestor term
+    queryParts.push(includeNarrower
+      ? `(AREA[Condition]${condition} OR AREA[ConditionMeshTerm]${condition} OR AREA[ConditionAncestorTerm]${condition})`
+      : `AREA[Condition]${condition}`);
+  }
+
+  if (compiledQuery) {
+    queryParts.push(`(${compiledQuery})`);
+  }
+
+  if (biomarker && biomarker.trim()) {
+    queryParts.push(`AREA[EligibilityCriteria]${biomarker}`);
+  }
+
+  // Phase filter
+  if (phase.length > 0) {
+    const phaseQueries = phase.map((p) => `AREA[Phase]"${PHASE_MAPPING[p] || p}"`);
+    queryParts.push(phaseQueries.length > 1 ? `(${phaseQueries.join(' OR ')})` : phaseQueries[0]);
+  }
+
+  if (sponsorClass.length > 0) {
+    queryParts.push(areaAnyOf('LeadSponsorClass', sponsorClass));
+  }
+
+  if (country && country.trim()) {
+    queryParts.push(`AREA[LocationCountry]"${country.replace(/"/g, '').trim()}"`);
+  }
+
+  if (minEnrollment !== undefined || maxEnrollment !== undefined) {
+    queryParts.push(`AREA[EnrollmentCount]RANGE[${minEnrollment ?? 'MIN'}, ${maxEnrollment ?? 'MAX'}]`);
+  }
+
+  if (allocation) {
+    queryParts.push(areaAnyOf('DesignAllocation', [allocation]));
+  }
+
+  if (masking.length > 0) {
+    queryParts.push(areaAnyOf('DesignMasking', masking));
+  }
+
+  if (interventionType.length > 0) {
+    queryParts.push(areaAnyOf('InterventionType', interventionType));
+  }
+
+  if (ageGroup.length > 0) {
+    queryParts.push(areaAnyOf('StdAge', ageGroup));
+  }
+
+  if (sex) {
+    queryParts.push(areaAnyOf('Sex', [sex, 'all']));
+  }
+
+  if (healthyVolunteers) {
+    queryParts.push('AREA[HealthyVolunteers]true');
+  }
+
+  // Last update date keeps using filter.lastUpdatePostDate (below)
+  for (const range of getDateFilters(filters)) {
+    if (range.field === 'LastUpdatePostDate') continue;
+    queryParts.push(`AREA[${range.field}]RANGE[${range.from || 'MIN'}, ${range.to || 'MAX'}]`);
+  }
+
+  const apiUrl = new URL(CT_GOV_STUDIES_URL);
+  // A batch lookup may carry no query at all
+  if (queryParts.length > 0) {
+    apiUrl.searchParams.set('query.term', queryParts.join(' AND '));
+  }
+  apiUrl.searchParams.set('pageSize', pageSize.toString());
+
+  if (pageToken) {
+    apiUrl.searchParams.set('pageToken', pageToken);
+  }
+
+  // Status filter
+  if (status.length > 0) {
+    apiUrl.searchParams.set('filter.overallStatus', status.map((s) => STATUS_MAPPING[s] || s).join(','));
+  }
+
+  if (nctIds.length > 0) {
+    apiUrl.searchParams.set('filter.ids', nctIds.join(','));
+  }
+
+  if (studyType) {
+    apiUrl.searchParams.set('filter.studyType', studyType.toUpperCase());
+  }
+
+  if (minDate || maxDate) {
+    apiUrl.searchParams.set('filter.lastUpdatePostDate', `${minDate || 'MIN'}:${maxDate || 'MAX'}`);
+  }
+
+  if (hasResults) {
+    apiUrl.searchParams.set('aggFilters', 'results:with');
+  }
+
+  apiUrl.searchParams.set('fields', SEARCH_FIELDS.join(','));
+
+  return apiUrl;
+}
+
+interface MeshEntry {
+  id?: string;
+  term?: string;
+}
+
+/**
+ * MeSH terms ClinicalTrials.gov derived for a study's conditions, and their
+ * ancestors in the MeSH tree (e.g. "Breast Neoplasms" → "Neoplasms by Site").
+ */
+export function extractConditionMesh(study: {
+  derivedSection?: { conditionBrowseModule?: { meshes?: MeshEntry[]; ancestors?: MeshEntry[] } };
+}): { conditionMeshTerms: string[]; conditionMeshAncestors: string[] } {
+  const browse = study.derivedSection?.conditionBrowseModule || {};
+  const terms = (entries: MeshEntry[] | undefined) =>
+    (entries || []).map((e) => e.term).filter((term): term is string => !!term);
+  return {
+    conditionMeshTerms: terms(browse.meshes),
+    conditionMeshAncestors: terms(browse.ancestors),
+  };
+}
+
+interface RawIntervention {
+  type?: string;
+  name?: string;
+  description?: string;
+}
+
+/** Study as returned by ClinicalTrials.gov API v2 (only the fields read here) */
+interface RawStudy {
+  protocolSection?: {
+    identificationModule?: { nctId?: string; briefTitle?: string; officialTitle?: string };
+    statusModule?: {
+      overallStatus?: string;
+      lastUpdatePostDateStruct?: { date?: string };
+      startDateStruct?: { date?: string };
+      completionDateStruct?: { date?: string };
+    };
+    sponsorCollaboratorsModule?: { leadSponsor?: { name?: string } };
+    designModule?: { phases?: string[]; studyType?: string; enrollmentInfo?: { count?: number } };
+    armsInterventionsModule?: { armGroups?: RawArmGroup[]; interventions?: RawIntervention[] };
+    outcomesModule?: { primaryOutcomes?: RawOutcome[]; secondaryOutcomes?: RawOutcome[] };
+    conditionsModule?: { conditions?: string[] };
+    descriptionModule?: { briefSummary?: string };
+    eligibilityModule?: EligibilityFields;
+  };
+  derivedSection?: { conditionBrowseModule?: { meshes?: MeshEntry[]; ancestors?: MeshEntry[] } };
+}
+
+/**
+ * Transform a single API v2 study into our Trial format.
+ */
+export function transformStudy(study: RawStudy) {
+  const protocol = study.protocolSection || {};
+  const identification = protocol.identificationModule || {};
+  const statusMod = protocol.statusModule || {};
+  const sponsor = protocol.sponsorCollaboratorsModule || {};
+  const design = protocol.designModule || {};
+  const armsModule = protocol.armsInterventionsModule || {};
+  const outcomes = protocol.outcomesModule || {};
+  const conditions = protocol.conditionsModule || {};
+  const description = protocol.descriptionModule || {};
+  const eligibility = protocol.eligibilityModule || {};
+
+  return {
+    nctId: identification.nctId || '',
+    briefTitle: identification.briefTitle || '',
+    officialTitle: identification.officialTitle || '',
+    phase: design.phases?.join(', ') || 'N/A',
+    overallStatus: statusMod.overallStatus || 'Unknown',
+    leadSponsor: sponsor.leadSponsor?.name || 'Unknown',
+    lastUpdatePostDate: statusMod.lastUpdatePostDateStruct?.date || '',
+    startDate: statusMod.startDateStruct?.date || '',
+    completionDate: statusMod.completionDateStruct?.date || '',
+    enrollmentCount: design.enrollmentInfo?.count || null,
+    conditions: conditions.conditions || [],
+    ...extractConditionMesh(study),
+    studyType: design.studyType || '',
+    briefSummary: description.briefSummary || '',
+    arms: (armsModule.armGroups || []).map(classifyArm),
+    interventions: (armsModule.interventions || []).map((int) => ({
+      name: int.name || '', type: int.type || '', description: int.description || '',
+    })),
+    primaryOutcomes: (outcomes.primaryOutcomes || []).map(classifyOutcome),
+    secondaryOutcomes: (outcomes.secondaryOutcomes || []).map(classifyOutcome),
+    eligibility: summarizeEligibility(eligibility),
+  };
+}
+
+export type TransformedStudy = ReturnType<typeof transformStudy>;
@@ -0,0 +1,176 @@
+/**
+ * Pluggable delivery channels for watch notifications.
+ *
+ * Every channel kind implements `DeliveryChannel`; add a kind by adding an
+ * entry to CHANNELS (and to the `kind` check in the migration). The webhook
+ * channel POSTs JSON to public http(s) URLs only: loopback, link-local,
+ * private and internal hosts are refused so a stored URL cannot be used to
+ * probe the deployment's own network. Set WEBHOOK_ALLOW_PRIVATE_HOSTS=true
+ * to deliver to a local receiver such as http://host.docker.internal:8787/
+ * during development.
+ */
+
+import { fetchWithTimeout } from './fetchWithTimeout.ts';
+
+export type ChannelKind = 'webhook';
+
+export interface ChannelConfig {
+  id: string;
+  kind: ChannelKind;
+  url: string;
+  /** Optional shared secret; webhook bodies are then signed with HMAC-SHA256 */
+  secret: string | null;
+}
+
+export interface NotificationPayload {
+  id: string;
+  watchId: string | null;
+  watchLabel: string;
+  eventType: string;
+  nctId: string | null;
+  title: string;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface DeliveryChannel {
+  deliver(config: ChannelConfig, notifications: NotificationPayload[]): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Thrown, before any request is made, for a URL the webhook may not reach */
+export class WebhookTargetError extends Error {
+  constructor() {
+    super('Webhook URL must point to a public http(s) host');
+    this.name = 'WebhookTargetError';
+  }
+}
+
+const allowPrivateHosts = () => Deno.env.get('WEBHOOK_ALLOW_PRIVATE_HOSTS') === 'true';
+
+/** Unspecified, loopback, private, CGNAT, link-local, benchmarking, multicast and reserved */
+function isPrivateIPv4(ip: string): boolean {
+  const parts = ip.split('.').map(Number);
+  if (parts.length !== 4 || parts.some((p) => !Number.isInteger(p) || p < 0 || p > 255)) return false;
+  const [a, b] = parts;
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+/** Unspecified, loopback, unique-local, link-local and IPv4-mapped private addresses */
+function isPrivateIPv6(ip: string): boolean {
+  const addr = ip.toLowerCase();
+  if (addr === '::' || addr === '::1') return true;
+  // URL() writes ::ffff:127.0.0.1 as ::ffff:7f00:1
+  const mapped = addr.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const [hi, lo] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    return isPrivateIPv4(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+  }
+  const dotted = addr.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return isPrivateIPv4(dotted[1]);
+  return /^f[cd]/.test(addr) || /^fe[89ab]/.test(addr);
+}
+
+const isPrivateAddress = (ip: string) => (ip.includes(':') ? isPrivateIPv6(ip) : isPrivateIPv4(ip));
+
+/**
+ * Throws WebhookTargetError unless `url` is http(s) on a public host. Host
+ * names are resolved too, so a public name pointing at 127.0.0.1 is refused.
+ */
+export async function assertWebhookTarget(url: string): Promise<void> {
+  if (allowPrivateHosts()) return;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookTargetError();
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new WebhookTargetError();
+
+  // URL() normalizes IP literals (2130706433, 0x7f.1 → 127.0.0.1); IPv6 keeps its brackets
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (/^[\d.]+$/.test(host) || host.includes(':')) {
+    if (isPrivateAddress(host)) throw new WebhookTargetError();
+    return;
+  }
+
+  // Single-label names (kong, db...) only resolve inside the deployment's network
+  if (!host.includes('.') || /\.(?:localhost|local|internal|localdomain|home\.arpa)$/.test(host)) {
+    throw new WebhookTargetError();
+  }
+
+  const resolve = async (type: 'A' | 'AAAA') => await Deno.resolveDns(host, type);
+  const lookups = await Promise.allSettled([resolve('A'), resolve('AAAA')]);
+  const addresses = lookups.flatMap((r) => (r.status === 'fulfilled' ? r.value : []));
+  // Unresolvable names fail at fetch time anyway
+  if (addresses.some(isPrivateAddress)) throw new WebhookTargetError();
+}
+
+async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+const webhookChannel: DeliveryChannel = {
+  async deliver(config, notifications) {
+    const body = JSON.stringify({
+      source: 'trial-compass',
+      sentAt: new Date().toISOString(),
+      notifications,
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.secret) {
+      headers['X-Trial-Compass-Signature'] = `sha256=${await hmacSha256Hex(config.secret, body)}`;
+    }
+
+    await assertWebhookTarget(config.url);
+
+    // Redirects are not followed: they could lead to a host the check refused
+    const response = await fetchWithTimeout(config.url, {
+      method: 'POST',
+      headers,
+      body,
+      redirect: 'manual',
+      timeoutMs: WEBHOOK_TIMEOUT_MS,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  },
+};
+
+const CHANNELS: Record<ChannelKind, DeliveryChannel> = {
+  webhook: webhookChannel,
+};
+
+/**
+ * Deliver notifications through one configured channel.
+ * Throws on failure so the caller can record the error per notification.
+ */
+export async function deliverNotifications(
+  config: ChannelConfig,
+  notifications: NotificationPayload[],
+): Promise<void> {
+  if (notifications.length === 0) return;
+  const channel = CHANNELS[config.kind];
+  if (!channel) {
+    throw new Error(`Unknown delivery channel: ${config.kind}`);
+  }
+  await channel.deliver(config, notifications);
+}
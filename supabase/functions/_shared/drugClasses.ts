@@ -0,0 +1,169 @@
+/**
+ * Drug-class taxonomy for class searches ("all PD-1 inhibitors").
+ *
+ * A class is a named list of member drugs (INNs). Built-in classes are
+ * ATC-like groupings seeded here; users extend them, or define new classes,
+ * through the `drug_class_members` table (managed via drug-classes). A class
+ * search ORs every member and its synonyms (see drugSynonyms.ts).
+ */
+
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { expandDrugSynonyms, normalizeDrugKey } from './drugSynonyms.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/** Cap on intervention terms in one class query */
+export const MAX_CLASS_TERMS = 80;
+
+interface SeedDrugClass {
+  name: string;
+  /** ATC level-4 code where the class maps onto one */
+  atcCode?: string;
+  members: string[];
+}
+
+export const SEED_DRUG_CLASSES: SeedDrugClass[] = [
+  {
+    name: 'PD-1 inhibitors',
+    atcCode: 'L01FF',
+    members: ['pembrolizumab', 'nivolumab', 'cemiplimab', 'dostarlimab', 'tislelizumab', 'toripalimab', 'sintilimab', 'camrelizumab'],
+  },
+  { name: 'PD-L1 inhibitors', atcCode: 'L01FF', members: ['atezolizumab', 'durvalumab', 'avelumab'] },
+  { name: 'CTLA-4 inhibitors', members: ['ipilimumab', 'tremelimumab'] },
+  { name: 'EGFR tyrosine kinase inhibitors', atcCode: 'L01EB', members: ['osimertinib', 'gefitinib', 'erlotinib', 'afatinib', 'dacomitinib'] },
+  { name: 'CDK4/6 inhibitors', atcCode: 'L01EF', members: ['palbociclib', 'ribociclib', 'abemaciclib'] },
+  { name: 'PARP inhibitors', atcCode: 'L01XK', members: ['olaparib', 'niraparib', 'rucaparib', 'talazoparib'] },
+  { name: 'KRAS G12C inhibitors', members: ['sotorasib', 'adagrasib'] },
+  {
+    name: 'HER2-directed therapies',
+    members: ['trastuzumab', 'pertuzumab', 'trastuzumab deruxtecan', 'trastuzumab emtansine', 'tucatinib', 'neratinib', 'lapatinib'],
+  },
+  { name: 'Anti-VEGF antibodies', atcCode: 'L01FG', members: ['bevacizumab', 'ramucirumab'] },
+  { name: 'Androgen receptor inhibitors', atcCode: 'L02BB', members: ['enzalutamide', 'apalutamide', 'darolutamide'] },
+  { name: 'Anti-CD38 antibodies', atcCode: 'L01FC', members: ['daratumumab', 'isatuximab'] },
+  { name: 'GLP-1 receptor agonists', atcCode: 'A10BJ', members: ['semaglutide', 'liraglutide', 'dulaglutide', 'exenatide', 'tirzepatide'] },
+  { name: 'TNF-alpha inhibitors', atcCode: 'L04AB', members: ['adalimumab', 'infliximab', 'etanercept', 'certolizumab pegol', 'golimumab'] },
+  { name: 'IL-4/IL-13 inhibitors', members: ['dupilumab', 'tralokinumab', 'lebrikizumab'] },
+];
+
+export interface DrugClassMember {
+  name: string;
+  builtIn: boolean;
+  /** drug_class_members row id for user-added members */
+  id?: string;
+  ownerId?: string | null;
+}
+
+export interface DrugClass {
+  /** normalizeDrugKey(name) */
+  key: string;
+  name: string;
+  atcCode: string | null;
+  builtIn: boolean;
+  members: DrugClassMember[];
+}
+
+interface StoredClassMember {
+  id: string;
+  class_name: string;
+  drug: string;
+  owner_id: string | null;
+}
+
+/** Built-in classes merged with user additions, sorted by name */
+export async function listDrugClasses(supabase: SupabaseClient): Promise<DrugClass[]> {
+  const { data, error } = await supabase
+    .from('drug_class_members')
+    .select('id, class_name, drug, owner_id')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const classes = new Map<string, DrugClass>();
+  for (const seed of SEED_DRUG_CLASSES) {
+    classes.set(normalizeDrugKey(seed.name), {
+      key: normalizeDrugKey(seed.name),
+      name: seed.name,
+      atcCode: seed.atcCode || null,
+      builtIn: true,
+      members: seed.members.map((name) => ({ name, builtIn: true })),
+    });
+  }
+
+  for (const row of (data || []) as StoredClassMember[]) {
+    const key = normalizeDrugKey(row.class_name);
+    if (!classes.has(key)) {
+      classes.set(key, { key, name: row.class_name.trim(), atcCode: null, builtIn: false, members: [] });
+    }
+    const drugClass = classes.get(key)!;
+    if (drugClass.members.some((m) => normalizeDrugKey(m.name) === normalizeDrugKey(row.drug))) continue;
+    drugClass.members.push({ name: row.drug.trim(), builtIn: false, id: row.id, ownerId: row.owner_id });
+  }
+
+  return Array.from(classes.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Looks a class up by name (case and punctuation ignored) */
+export async function findDrugClass(supabase: SupabaseClient, name: string): Promise<DrugClass | null> {
+  const key = normalizeDrugKey(name);
+  if (!key) return null;
+  const classes = await listDrugClasses(supabase);
+  return classes.find((c) => c.key === key) || null;
+}
+
+/**
+ * Every member of the class together with its synonyms, as
+ * member name → names to search for (member first).
+ */
+export async function expandDrugClass(supabase: SupabaseClient, drugClass: DrugClass): Promise<Map<string, string[]>> {
+  const expanded = await Promise.all(
+    drugClass.members.map(async (member) => [member.name, [member.name, ...await expandDrugSynonyms(supabase, member.name)]] as const)
+  );
+  return new Map(expanded);
+}
+
+/** Flattened, de-duplicated search terms for an expanded class, capped at MAX_CLASS_TERMS */
+export function drugClassTerms(expanded: Map<string, string[]>): string[] {
+  const seen = new Set<string>();
+  const terms: string[] = [];
+  // Members first so the cap only drops synonyms
+  const ordered = [...Array.from(expanded.keys()), ...Array.from(expanded.values()).flat()];
+  for (const term of ordered) {
+    const key = normalizeDrugKey(term);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    terms.push(term);
+  }
+  return terms.slice(0, MAX_CLASS_TERMS);
+}
+
+/**
+ * Class members a trial's interventions mention, matching on normalized
+ * names so "Pembrolizumab 200 mg IV" counts for pembrolizumab. Names shorter
+ * than four characters are ignored to avoid accidental substring hits. When
+ * one intervention matches several members, a member whose name is part of
+ * a longer matching one is dropped: "trastuzumab deruxtecan" counts for
+ * trastuzumab deruxtecan, not for trastuzumab as well.
+ */
+export function matchClassMembers(interventionNames: string[], expanded: Map<string, string[]>): string[] {
+  const interventionKeys = interventionNames.map(normalizeDrugKey).filter(Boolean);
+  const memberKeys = Array.from(expanded, ([member, names]) => ({
+    member,
+    keys: names.map(normalizeDrugKey).filter((key) => key.length >= 4),
+  }));
+
+  const matched = new Set<string>();
+  for (const ik of interventionKeys) {
+    // Each matching member with the longest of its names found in this intervention
+    const hits = memberKeys.flatMap(({ member, keys }) => {
+      const key = keys.filter((k) => ik.includes(k)).sort((a, b) => b.length - a.length)[0];
+      return key ? [{ member, key }] : [];
+    });
+    for (const hit of hits) {
+      if (!hits.some((other) => other.key.length > hit.key.length && other.key.includes(hit.key))) {
+        matched.add(hit.member);
+      }
+    }
+  }
+  return memberKeys.map(({ member }) => member).filter((member) => matched.has(member));
+}
@@ -0,0 +1,152 @@
+/**
+ * Drug synonym / code-name expansion for intervention searches.
+ *
+ * Registrations name the same product differently (INN, brand, sponsor code),
+ * so a drug search ORs every known synonym into the InterventionName clause.
+ * Synonyms come from a built-in seed list plus user-added pairs stored in the
+ * `drug_synonyms` table (shared by all users, managed via drug-synonyms).
+ */
+
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/** Cap on expanded terms, keeps the CT.gov query string reasonable */
+export const MAX_DRUG_SYNONYMS = 20;
+
+/** Built-in groups of equivalent names (INN first, then brands and codes) */
+export const SEED_SYNONYM_GROUPS: string[][] = [
+  ['pembrolizumab', 'Keytruda', 'MK-3475', 'lambrolizumab', 'SCH 900475'],
+  ['nivolumab', 'Opdivo', 'BMS-936558', 'MDX-1106', 'ONO-4538'],
+  ['atezolizumab', 'Tecentriq', 'MPDL3280A', 'RG7446'],
+  ['durvalumab', 'Imfinzi', 'MEDI4736'],
+  ['avelumab', 'Bavencio', 'MSB0010718C'],
+  ['cemiplimab', 'Libtayo', 'REGN2810'],
+  ['ipilimumab', 'Yervoy', 'MDX-010', 'BMS-734016'],
+  ['trastuzumab', 'Herceptin'],
+  ['trastuzumab deruxtecan', 'Enhertu', 'DS-8201a', 'T-DXd'],
+  ['trastuzumab emtansine', 'Kadcyla', 'T-DM1'],
+  ['pertuzumab', 'Perjeta', 'RO4368451'],
+  ['bevacizumab', 'Avastin'],
+  ['osimertinib', 'Tagrisso', 'AZD9291'],
+  ['olaparib', 'Lynparza', 'AZD2281'],
+  ['palbociclib', 'Ibrance', 'PD-0332991'],
+  ['ribociclib', 'Kisqali', 'LEE011'],
+  ['abemaciclib', 'Verzenio', 'LY2835219'],
+  ['sotorasib', 'Lumakras', 'AMG 510'],
+  ['adagrasib', 'Krazati', 'MRTX849'],
+  ['enzalutamide', 'Xtandi', 'MDV3100'],
+  ['lenalidomide', 'Revlimid', 'CC-5013'],
+  ['daratumumab', 'Darzalex'],
+  ['semaglutide', 'Ozempic', 'Wegovy', 'Rybelsus', 'NN9535'],
+  ['tirzepatide', 'Mounjaro', 'Zepbound', 'LY3298176'],
+  ['adalimumab', 'Humira', 'D2E7'],
+  ['dupilumab', 'Dupixent', 'REGN668', 'SAR231893'],
+];
+
+/** Lookup key: case, spaces and punctuation ignored ("MK-3475" = "mk 3475") */
+export function normalizeDrugKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** The seed group containing `drug`, or null */
+export function findSeedGroup(drug: string): string[] | null {
+  const key = normalizeDrugKey(drug);
+  if (!key) return null;
+  return SEED_SYNONYM_GROUPS.find((group) => group.some((name) => normalizeDrugKey(name) === key)) || null;
+}
+
+export interface StoredSynonym {
+  id: string;
+  term: string;
+  synonym: string;
+  owner_id: string | null;
+  created_at: string;
+}
+
+/**
+ * User-added pairs touching any of the given names, in either direction
+ * (a pair "pembrolizumab ↔ pembro" applies to searches for either name).
+ */
+export async function loadStoredSynonyms(supabase: SupabaseClient, names: string[]): Promise<StoredSynonym[]> {
+  const keys = Array.from(new Set(names.map(normalizeDrugKey).filter(Boolean)));
+  if (keys.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('drug_synonyms')
+    .select('id, term, synonym, owner_id, created_at')
+    .or(`term_key.in.(${keys.join(',')}),synonym_key.in.(${keys.join(',')})`)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as StoredSynonym[];
+}
+
+/**
+ * Every other name `drug` is known by, seed synonyms first. The searched name
+ * itself is not included. Capped at MAX_DRUG_SYNONYMS.
+ */
+export async function expandDrugSynonyms(supabase: SupabaseClient, drug: string): Promise<string[]> {
+  const seed = findSeedGroup(drug) || [];
+  const stored = await loadStoredSynonyms(supabase, [drug, ...seed]);
+
+  const seen = new Set([normalizeDrugKey(drug)]);
+  const synonyms: string[] = [];
+  for (const name of [...seed, ...stored.flatMap((row) => [row.term, row.synonym])]) {
+    const key = normalizeDrugKey(name);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    synonyms.push(name.trim());
+  }
+
+  return synonyms.slice(0, MAX_DRUG_SYNONYMS);
+}
+
+export interface DrugNameSuggestion {
+  name: string;
+  /** Other names in its synonym group(s), for display next to the suggestion */
+  synonyms: string[];
+}
+
+/**
+ * Dictionary names (built-in and user-added) starting with `prefix`, for
+ * typeahead. Synonyms listed with each name come from the seed group and
+ * the stored pairs matched here, not a full expansion.
+ */
+export async function suggestDrugNames(supabase: SupabaseClient, prefix: string, limit: number): Promise<DrugNameSuggestion[]> {
+  const key = normalizeDrugKey(prefix);
+  if (!key) return [];
+
+  // Keys are alphanumeric, so they are safe inside the PostgREST filter
+  const { data, error } = await supabase
+    .from('drug_synonyms')
+    .select('id, term, synonym, owner_id, created_at')
+    .or(`term_key.like.${key}*,synonym_key.like.${key}*`)
+    .limit(50);
+
+  if (error) throw error;
+  const stored = (data || []) as StoredSynonym[];
+
+  const suggestions = new Map<string, DrugNameSuggestion>();
+  const add = (name: string, others: string[]) => {
+    const nameKey = normalizeDrugKey(name);
+    if (!nameKey.startsWith(key)) return;
+    const entry = suggestions.get(nameKey) || { name: name.trim(), synonyms: [] };
+    for (const other of others) {
+      const otherKey = normalizeDrugKey(other);
+      if (otherKey === nameKey || entry.synonyms.some((s) => normalizeDrugKey(s) === otherKey)) continue;
+      entry.synonyms.push(other.trim());
+    }
+    suggestions.set(nameKey, entry);
+  };
+
+  for (const group of SEED_SYNONYM_GROUPS) {
+    for (const name of group) add(name, group);
+  }
+  for (const row of stored) {
+    add(row.term, [row.synonym]);
+    add(row.synonym, [row.term]);
+  }
+
+  return Array.from(suggestions.values()).slice(0, limit);
+}
@@ -0,0 +1,410 @@
+/**
+ * Structured reading of ClinicalTrials.gov eligibility criteria.
+ *
+ * The registry stores criteria as one free-text field, usually Markdown-ish
+ * "Inclusion Criteria:" / "Exclusion Criteria:" sections of bullets. This
+ * module splits it into criteria and pulls out the features reviewers screen
+ * on first (age, performance status, prior lines, biomarkers, brain
+ * metastases, organ function). Extraction is rule-based and conservative: a
+ * feature is null or empty when no rule matched, never guessed.
+ *
+ * Bump ELIGIBILITY_PARSER_VERSION whenever a rule changes; it is part of the
+ * trial-detail, trials-search and trials-batch cache keys.
+ */
+
+export const ELIGIBILITY_PARSER_VERSION = '1.0.2';
+
+export interface EligibilityCriterion {
+  text: string;
+  /** 0 for top-level bullets, 1 for bullets nested under another */
+  level: number;
+}
+
+export interface PerformanceStatusRange {
+  scale: 'ECOG' | 'Karnofsky';
+  min: number;
+  max: number;
+  text: string;
+}
+
+export interface PriorLinesRequirement {
+  /** Fewest prior lines of therapy required; null when only a maximum is set */
+  min: number | null;
+  /** Most prior lines allowed; 0 for treatment-naive populations */
+  max: number | null;
+  text: string;
+}
+
+export interface BiomarkerRequirement {
+  marker: string;
+  status: 'positive' | 'negative' | 'mentioned';
+  text: string;
+}
+
+export type BrainMetastasesPolicy = 'excluded' | 'treated_allowed' | 'allowed';
+
+export type OrganSystem = 'hematologic' | 'hepatic' | 'renal' | 'cardiac';
+
+export interface OrganFunctionRequirement {
+  system: OrganSystem;
+  text: string;
+}
+
+export interface EligibilityProfile {
+  inclusion: EligibilityCriterion[];
+  exclusion: EligibilityCriterion[];
+  /** Criteria outside any recognized section (e.g. unstructured text) */
+  other: EligibilityCriterion[];
+  minAgeYears: number | null;
+  maxAgeYears: number | null;
+  performanceStatus: PerformanceStatusRange[];
+  priorLines: PriorLinesRequirement | null;
+  biomarkers: BiomarkerRequirement[];
+  brainMetastases: { policy: BrainMetastasesPolicy; text: string } | null;
+  organFunction: OrganFunctionRequirement[];
+  parserVersion: string;
+}
+
+/** The extracted features without the criteria lists, as attached to search results */
+export type EligibilitySummary = Omit<EligibilityProfile, 'inclusion' | 'exclusion' | 'other'>;
+
+/** Criteria text and structured age fields of the eligibility module */
+export interface EligibilityFields {
+  eligibilityCriteria?: string;
+  minimumAge?: string;
+  maximumAge?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Sections and bullets
+// ---------------------------------------------------------------------------
+
+type Section = 'inclusion' | 'exclusion' | 'other';
+
+const INCLUSION_HEADER = /^(?:key\s+|main\s+|general\s+)?inclusion\s+criteria\b[^a-z]*$/i;
+const EXCLUSION_HEADER = /^(?:key\s+|main\s+|general\s+)?exclusion\s+criteria\b[^a-z]*$/i;
+const BULLET = /^(\s*)(?:[*\-•●◦▪·]|\d{1,2}[.)]|[a-z][.)])\s+/i;
+
+/** Splits the criteria text into inclusion, exclusion and unsectioned criteria */
+export function splitCriteria(text: string): Pick<EligibilityProfile, 'inclusion' | 'exclusion' | 'other'> {
+  const sections: Record<Section, EligibilityCriterion[]> = { inclusion: [], exclusion: [], other: [] };
+  let section: Section = 'other';
+  let current: EligibilityCriterion | null = null;
+  // Indentation of the first bullet in the section counts as top level
+  let baseIndent: number | null = null;
+
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.replace(/\\([<>*_\-.])/g, '$1');
+    const trimmed = line.trim();
+    if (!trimmed) {
+      current = null;
+      continue;
+    }
+
+    const header = trimmed.replace(/[*_#]/g, '').trim();
+    if (INCLUSION_HEADER.test(header) || EXCLUSION_HEADER.test(header)) {
+      section = INCLUSION_HEADER.test(header) ? 'inclusion' : 'exclusion';
+      current = null;
+      baseIndent = null;
+      continue;
+    }
+
+    const bullet = BULLET.exec(line);
+    if (bullet) {
+      const indent = bullet[1].replace(/\t/g, '    ').length;
+      if (baseIndent === null) baseIndent = indent;
+      current = { text: line.slice(bullet[0].length).trim(), level: indent > baseIndent ? 1 : 0 };
+      sections[section].push(current);
+    } else if (current && /^\s/.test(line)) {
+      // Indented continuation of the previous bullet
+      current.text = `${current.text} ${trimmed}`;
+    } else {
+      current = { text: trimmed, level: 0 };
+      sections[section].push(current);
+    }
+  }
+
+  return sections;
+}
+
+// ---------------------------------------------------------------------------
+// Feature rules
+// ---------------------------------------------------------------------------
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  single: 1, first: 1, second: 2, third: 3, fourth: 4,
+};
+
+const toNumber = (value: string): number | null => {
+  const lower = value.toLowerCase();
+  if (lower in NUMBER_WORDS) return NUMBER_WORDS[lower];
+  const n = parseInt(value, 10);
+  return Number.isNaN(n) ? null : n;
+};
+
+/** "18 Years", "6 Months", "2 Weeks" → years (fractional below one year) */
+export function ageFieldToYears(value: string | undefined): number | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(year|month|week|day)s?\b/i.exec(value || '');
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  const perYear: Record<string, number> = { year: 1, month: 12, week: 52, day: 365 };
+  return Math.round((n / perYear[match[2].toLowerCase()]) * 100) / 100;
+}
+
+/** Age bounds stated in the text, for records without the structured fields */
+function ageFromText(criteria: EligibilityCriterion[]): { min: number | null; max: number | null } {
+  for (const { text } of criteria) {
+    if (!/\bage[ds]?\b|years? old|years of age/i.test(text)) continue;
+    const range = /(\d{1,3})\s*(?:-|–|to|and)\s*(\d{1,3})\s*years/i.exec(text);
+    if (range) return { min: parseInt(range[1], 10), max: parseInt(range[2], 10) };
+    const min = /(?:≥|>=|at least|aged|age)\s*(\d{1,3})\s*years/i.exec(text)
+      || /(\d{1,3})\s*years(?:\s+of\s+age)?\s+(?:or|and)\s+(?:older|above|over)/i.exec(text);
+    if (min) return { min: parseInt(min[1], 10), max: null };
+  }
+  return { min: null, max: null };
+}
+
+// WHO is matched case-sensitively so the pronoun "who" is not read as the scale
+const PS_SCALE = /\b(?:ECOG|Ecog|Zubrod|zubrod)\b|\bWHO\b/;
+const PS_KEYWORD = /performance\s+status|\bPS\b/i;
+// A score right after the scale name: "ECOG 0-1", "ECOG ≤ 2", "ECOG PS of 0 or 1"
+const PS_SCORE_FOLLOWS = /^\s*(?:PS\s*)?(?:of\s*)?(?:[≤<]=?\s*)?[0-4]\b/i;
+
+/** ECOG-style bounds read from text that starts at the scale name or keyword */
+function readPerformanceBounds(window: string): [number, number] | null {
+  const range = /\b([0-4])\s*(?:-|–|to)\s*([0-4])\b/.exec(window);
+  if (range) return [parseInt(range[1], 10), parseInt(range[2], 10)];
+  const atMost = /(?:≤|<=|=<|less than or equal to|no (?:greater|higher|more) than|maximum(?: of)?|up to)\s*([0-4])\b/i.exec(window);
+  if (atMost) return [0, parseInt(atMost[1], 10)];
+  const below = /(?:<|less than)\s*([1-4])\b/i.exec(window);
+  if (below) return [0, parseInt(below[1], 10) - 1];
+  // Only explicit lists ("0 or 1", "0, 1 or 2"), never stray digits
+  const listed = /\b[0-4](?:\s*(?:,|or|and|\/)\s*[0-4]\b)+/.exec(window);
+  if (listed) {
+    const scores = (listed[0].match(/[0-4]/g) || []).map(Number);
+    return [Math.min(...scores), Math.max(...scores)];
+  }
+  return null;
+}
+
+/** Allowed performance-status range from inclusion criteria (ECOG/WHO/Zubrod and Karnofsky) */
+function performanceStatus(criteria: EligibilityCriterion[]): PerformanceStatusRange[] {
+  const found: PerformanceStatusRange[] = [];
+
+  // First criterion that names the scale as a performance status and gives bounds
+  for (const { text } of criteria) {
+    const scale = PS_SCALE.exec(text);
+    if (!scale) continue;
+    const afterScale = text.slice(scale.index + scale[0].length);
+    const near = text.slice(Math.max(0, scale.index - 40), scale.index + scale[0].length + 40);
+    if (!PS_KEYWORD.test(near) && !PS_SCORE_FOLLOWS.test(afterScale)) continue;
+
+    // Only read numbers close to the scale name or the "performance status" keyword
+    const keyword = PS_KEYWORD.exec(text);
+    const bounds = readPerformanceBounds(afterScale.slice(0, 80))
+      || (keyword ? readPerformanceBounds(text.slice(keyword.index + keyword[0].length).slice(0, 80)) : null);
+    if (bounds) {
+      found.push({ scale: 'ECOG', min: bounds[0], max: bounds[1], text });
+      break;
+    }
+  }
+
+  const karnofsky = criteria.find((c) => /\b(?:Karnofsky|KPS)\b/i.test(c.text));
+  if (karnofsky) {
+    const tail = karnofsky.text.slice(karnofsky.text.search(/\b(?:Karnofsky|KPS)\b/i)).slice(0, 80);
+    const score = /\b(\d{2,3})\s*%?/.exec(tail);
+    if (score && parseInt(score[1], 10) <= 100) {
+      found.push({ scale: 'Karnofsky', min: parseInt(score[1], 10), max: 100, text: karnofsky.text });
+    }
+  }
+
+  return found;
+}
+
+const LINE_NUMBER = '(\\d|zero|one|two|three|four|five|six|single|first|second|third|fourth)';
+const LINES_OF = '(?:prior\\s+|previous\\s+|systemic\\s+)*(?:lines?|regimens?)';
+
+// "Untreated" counts only when it refers to the disease or therapy, not to
+// brain metastases or other lesions ("untreated, asymptomatic brain metastases")
+const TREATMENT_NAIVE = new RegExp([
+  '(?:treatment|therapy|chemotherapy|chemo)[- ]na[iï]ve',
+  'no prior (?:systemic |anti-?cancer )?(?:therapy|treatment|chemotherapy)',
+  '\\buntreated\\b(?![^.;]{0,40}(?:metastas[ie]s|lesions?|brain|cns|spinal cord))',
+].join('|'), 'i');
+
+/** Required or allowed number of prior lines of therapy */
+function priorLines(inclusion: EligibilityCriterion[], exclusion: EligibilityCriterion[]): PriorLinesRequirement | null {
+  let min: number | null = null;
+  let max: number | null = null;
+  let text = '';
+
+  const note = (criterion: EligibilityCriterion) => {
+    text = text ? `${text}\n${criterion.text}` : criterion.text;
+  };
+
+  for (const criterion of inclusion) {
+    const t = criterion.text;
+    if (!BRAIN_METS.test(t) && TREATMENT_NAIVE.test(t)) {
+      min = 0;
+      max = 0;
+      note(criterion);
+      break;
+    }
+    if (!/\blines?\b|\bregimens?\b/i.test(t)) continue;
+
+    const between = new RegExp(`${LINE_NUMBER}\\s*(?:-|–|to)\\s*${LINE_NUMBER}\\s+${LINES_OF}`, 'i').exec(t);
+    const atLeast = new RegExp(`(?:at least|≥|>=|minimum of)\\s*${LINE_NUMBER}\\s+${LINES_OF}`, 'i').exec(t)
+      || new RegExp(`${LINE_NUMBER}\\s+or more\\s+${LINES_OF}`, 'i').exec(t);
+    const atMost = new RegExp(`(?:no more than|not more than|up to|at most|maximum of|≤|<=)\\s*${LINE_NUMBER}\\s+${LINES_OF}`, 'i').exec(t);
+    const exactly = new RegExp(`(?:received|had)\\s+(?:exactly\\s+)?${LINE_NUMBER}\\s+${LINES_OF}`, 'i').exec(t);
+
+    if (between) {
+      min = toNumber(between[1]);
+      max = toNumber(between[2]);
+    } else {
+      if (atLeast) min = toNumber(atLeast[1]);
+      if (atMost) max = toNumber(atMost[1]);
+      if (!atLeast && !atMost && exactly) min = max = toNumber(exactly[1]);
+    }
+    if (between || atLeast || atMost || exactly) {
+      note(criterion);
+      // The first criterion that states a count wins; later ones are usually sub-cases
+      break;
+    }
+  }
+
+  // "More than two prior lines" in the exclusions caps the count
+  for (const criterion of exclusion) {
+    const over = new RegExp(`(?:more than|>|greater than)\\s*${LINE_NUMBER}\\s+${LINES_OF}`, 'i').exec(criterion.text);
+    if (over && max === null) {
+      max = toNumber(over[1]);
+      note(criterion);
+    }
+  }
+
+  return min === null && max === null ? null : { min, max, text };
+}
+
+/** Markers matched in inclusion criteria; short all-caps names are case-sensitive */
+const BIOMARKERS: { marker: string; pattern: RegExp }[] = [
+  // Case-sensitive so eGFR (the renal lab value) is not read as EGFR
+  { marker: 'EGFR', pattern: /\bEGFR\b/ },
+  { marker: 'ALK', pattern: /\bALK\b/ },
+  { marker: 'ROS1', pattern: /\bROS-?1\b/i },
+  { marker: 'BRAF', pattern: /\bBRAF\b/i },
+  { marker: 'KRAS', pattern: /\bKRAS\b/i },
+  { marker: 'NRAS', pattern: /\bNRAS\b/i },
+  { marker: 'HER2', pattern: /\b(?:HER-?2|ERBB2)\b/i },
+  { marker: 'PD-L1', pattern: /\bPD-?L1\b/i },
+  { marker: 'MSI-H/dMMR', pattern: /\bMSI-?H\b|\bdMMR\b|mismatch repair/i },
+  { marker: 'TMB', pattern: /\bTMB\b|tumou?r mutational burden/i },
+  { marker: 'BRCA', pattern: /\bg?BRCA[12]?\b/i },
+  { marker: 'HRD', pattern: /\bHRD\b|homologous recombination/i },
+  { marker: 'NTRK', pattern: /\bNTRK[123]?\b/i },
+  { marker: 'RET', pattern: /\bRET\b/ },
+  { marker: 'MET', pattern: /\bMET\b(?=[^.;]{0,30}(?:amplif|exon|mutat|overexpress))|\bc-MET\b/ },
+  { marker: 'FGFR', pattern: /\bFGFR[1-4]?\b/i },
+  { marker: 'IDH', pattern: /\bIDH[12]?\b/i },
+  { marker: 'PIK3CA', pattern: /\bPIK3CA\b/i },
+  { marker: 'ESR1', pattern: /\bESR1\b/i },
+  { marker: 'FLT3', pattern: /\bFLT3\b/i },
+  { marker: 'NPM1', pattern: /\bNPM1\b/i },
+  { marker: 'BCR-ABL', pattern: /\bBCR[-:/]?ABL1?\b|philadelphia chromosome/i },
+  { marker: 'CD19', pattern: /\bCD19\b/i },
+  { marker: 'CD20', pattern: /\bCD20\b/i },
+  { marker: 'Hormone receptor', pattern: /\b(?:HR|ER|PR)(?=[+-])|\b(?:[Hh]ormone|[Ee]strogen|[Oo]estrogen|[Pp]rogesterone) receptor/ },
+  { marker: 'Claudin 18.2', pattern: /\bclaudin[- ]?18\.?2\b|\bCLDN18\.?2\b/i },
+];
+
+const POSITIVE = /positiv|\+|mutat|amplif|fusion|rearrange|overexpress|high|≥|>=|express|alteration|deficien|harbou?r|activating|exon/i;
+const NEGATIVE = /negativ|wild[- ]?type|\bwt\b|-(?!\w)|absence|without|no known|not (?:have|harbou?r)/i;
+
+function biomarkers(inclusion: EligibilityCriterion[]): BiomarkerRequirement[] {
+  const found = new Map<string, BiomarkerRequirement>();
+  for (const criterion of inclusion) {
+    for (const { marker, pattern } of BIOMARKERS) {
+      if (found.has(marker)) continue;
+      const match = pattern.exec(criterion.text);
+      if (!match) continue;
+      // The status is whichever qualifier comes first right after the marker name
+      const context = criterion.text.slice(match.index + match[0].length, match.index + match[0].length + 40);
+      const positive = context.search(POSITIVE);
+      const negative = context.search(NEGATIVE);
+      const status = negative >= 0 && (positive < 0 || negative < positive) ? 'negative'
+        : positive >= 0 ? 'positive'
+        : 'mentioned';
+      found.set(marker, { marker, status, text: criterion.text });
+    }
+  }
+  return Array.from(found.values());
+}
+
+const BRAIN_METS = /\b(?:brain|cns|central nervous system|cerebral|intracranial)\s+metasta|leptomeningeal/i;
+// Words that limit an exclusion to active disease, so treated metastases are allowed
+const ACTIVE_ONLY = /untreated|active|symptomatic|unstable|progressi|uncontrolled|require[sd]? (?:steroid|corticosteroid)|not (?:been )?(?:treated|stable)/i;
+
+function brainMetastases(inclusion: EligibilityCriterion[], exclusion: EligibilityCriterion[]): EligibilityProfile['brainMetastases'] {
+  const excluded = exclusion.find((c) => BRAIN_METS.test(c.text));
+  if (excluded) {
+    return { policy: ACTIVE_ONLY.test(excluded.text) ? 'treated_allowed' : 'excluded', text: excluded.text };
+  }
+  const included = inclusion.find((c) => BRAIN_METS.test(c.text));
+  if (included) {
+    return { policy: /stable|treated|asymptomatic/i.test(included.text) ? 'treated_allowed' : 'allowed', text: included.text };
+  }
+  return null;
+}
+
+const ORGAN_PATTERNS: Record<OrganSystem, RegExp> = {
+  hematologic: /\bANC\b|neutrophil|platelet|ha?emoglobin|bone marrow function|ha?ematologic/i,
+  hepatic: /bilirubin|\bAST\b|\bALT\b|\bSGOT\b|\bSGPT\b|transaminase|hepatic function|liver function/i,
+  // Case-sensitive so EGFR (the gene) is not read as eGFR
+  renal: /[Cc]reatinine|\bCrCl\b|\be?GFR\b|[Gg]lomerular|[Rr]enal function|[Kk]idney function/,
+  cardiac: /\bLVEF\b|ejection fraction|\bQTc\b|cardiac function/i,
+};
+
+function organFunction(inclusion: EligibilityCriterion[]): OrganFunctionRequirement[] {
+  const found: OrganFunctionRequirement[] = [];
+  for (const criterion of inclusion) {
+    for (const system of Object.keys(ORGAN_PATTERNS) as OrganSystem[]) {
+      if (ORGAN_PATTERNS[system].test(criterion.text)) found.push({ system, text: criterion.text });
+    }
+  }
+  return found;
+}
+
+// ---------------------------------------------------------------------------
+// Profile
+// ---------------------------------------------------------------------------
+
+/** Parses a study's eligibility module into an EligibilityProfile */
+export function parseEligibility(fields: EligibilityFields): EligibilityProfile {
+  const { inclusion, exclusion, other } = splitCriteria(fields.eligibilityCriteria || '');
+  // Unsectioned text is screened like inclusion criteria
+  const positive = inclusion.length > 0 ? inclusion : other;
+
+  const textAge = ageFromText(positive);
+  const minAge = ageFieldToYears(fields.minimumAge);
+  const maxAge = ageFieldToYears(fields.maximumAge);
+
+  return {
+    inclusion,
+    exclusion,
+    other,
+    minAgeYears: minAge ?? textAge.min,
+    maxAgeYears: maxAge ?? (minAge === null ? textAge.max : null),
+    performanceStatus: performanceStatus(positive),
+    priorLines: priorLines(positive, exclusion),
+    biomarkers: biomarkers(positive),
+    brainMetastases: brainMetastases(positive, exclusion),
+    organFunction: organFunction(positive),
+    parserVersion: ELIGIBILITY_PARSER_VERSION,
+  };
+}
+
+/** parseEligibility without the criteria lists, small enough to ship with every search result */
+export function summarizeEligibility(fields: EligibilityFields): EligibilitySummary {
+  const { inclusion: _inclusion, exclusion: _exclusion, other: _other, ...summary } = parseEligibility(fields);
+  return summary;
+}
@@ -18,3 +18,98 @@ export {
 } from './errors.ts';
 export { fetchWithTimeout } from './fetchWithTimeout.ts';
 export type { FetchWithTimeoutOptions } from './fetchWithTimeout.ts';
+export {
+  CLASSIFIER_VERSION,
+  classifyEndpoint,
+  classifyOutcome,
+  classifyArm,
+  classifyControlType,
+  isControlArm,
+  detectAddOnDesign,
+} from './classification.ts';
+export type {
+  EndpointClass,
+  ControlType,
+  RawArmGroup,
+  RawOutcome,
+  ClassifiedArm,
+  ClassifiedOutcome,
+} from './classification.ts';
+export {
+  CT_GOV_STUDIES_URL,
+  CT_GOV_PAGE_SIZE,
+  SEARCH_FIELDS,
+  DATE_RANGE_FIELDS,
+  buildStudiesUrl,
+  getDateFilters,
+  transformStudy,
+  extractConditionMesh,
+} from './ctgov.ts';
+export type { StudySearchFilters, TransformedStudy, DateFilter } from './ctgov.ts';
+export {
+  SEED_SYNONYM_GROUPS,
+  MAX_DRUG_SYNONYMS,
+  normalizeDrugKey,
+  findSeedGroup,
+  loadStoredSynonyms,
+  expandDrugSynonyms,
+  suggestDrugNames,
+} from './drugSynonyms.ts';
+export type { StoredSynonym, DrugNameSuggestion } from './drugSynonyms.ts';
+export {
+  SEED_DRUG_CLASSES,
+  MAX_CLASS_TERMS,
+  listDrugClasses,
+  findDrugClass,
+  expandDrugClass,
+  drugClassTerms,
+  matchClassMembers,
+} from './drugClasses.ts';
+export type { DrugClass, DrugClassMember } from './drugClasses.ts';
+export {
+  QUERY_FIELD_AREAS,
+  MAX_QUERY_DEPTH,
+  MAX_QUERY_TERMS,
+  escapeEssiePhrase,
+  validateQuery,
+  compileQuery,
+} from './queryBuilder.ts';
+export type { QueryField, QueryNode, QueryTerm, QueryGroup } from './queryBuilder.ts';
+export {
+  ELIGIBILITY_PARSER_VERSION,
+  splitCriteria,
+  ageFieldToYears,
+  parseEligibility,
+  summarizeEligibility,
+} from './eligibility.ts';
+export type {
+  EligibilityCriterion,
+  EligibilityFields,
+  EligibilityProfile,
+  EligibilitySummary,
+  PerformanceStatusRange,
+  PriorLinesRequirement,
+  BiomarkerRequirement,
+  BrainMetastasesPolicy,
+  OrganSystem,
+  OrganFunctionRequirement,
+} from './eligibility.ts';
+export { RESULTS_NORMALIZER_VERSION, parseResultNumber, normalizeResults } from './results.ts';
+export type {
+  RawResultsSection,
+  ResultGroup,
+  GroupCount,
+  ParticipantFlowPeriod,
+  ParticipantFlow,
+  ResultMeasurement,
+  ResultClass,
+  ResultMeasure,
+  BaselineCharacteristics,
+  StatisticalAnalysis,
+  OutcomeMeasureResult,
+  PostedResults,
+} from './results.ts';
+export { toWatchedTrialState, diffWatchedTrials, nextWatchedState } from './watchDiff.ts';
+export type { WatchedTrialState, WatchEvent, WatchEventType } from './watchDiff.ts';
+export { deliverNotifications, assertWebhookTarget, WebhookTargetError } from './delivery.ts';
+export type { ChannelKind, ChannelConfig, NotificationPayload, DeliveryChannel } from './delivery.ts';
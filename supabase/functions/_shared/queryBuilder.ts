@@ -0,0 +1,135 @@
+/**
+ * Advanced boolean queries for trials-search.
+ *
+ * The client sends a tree of AND/OR groups over search fields (see
+ * src/lib/queryBuilder.ts); it is validated here and compiled to
+ * ClinicalTrials.gov Essie `AREA[...]` syntax. User text is only ever
+ * emitted as a quoted phrase, so it cannot inject operators.
+ */
+
+/** Registry fields each builder field searches (ORed) */
+export const QUERY_FIELD_AREAS = {
+  intervention: ['InterventionName', 'InterventionOtherName'],
+  condition: ['Condition'],
+  title: ['BriefTitle', 'OfficialTitle'],
+  eligibility: ['EligibilityCriteria'],
+  sponsor: ['LeadSponsorName', 'CollaboratorName'],
+  outcome: ['PrimaryOutcomeMeasure', 'SecondaryOutcomeMeasure'],
+} as const;
+
+export type QueryField = keyof typeof QUERY_FIELD_AREAS;
+
+/** Nesting levels below the root group */
+export const MAX_QUERY_DEPTH = 4;
+export const MAX_QUERY_TERMS = 30;
+const MAX_TERM_LENGTH = 200;
+
+export interface QueryTerm {
+  type: 'term';
+  field: QueryField;
+  value: string;
+  negate?: boolean;
+}
+
+export interface QueryGroup {
+  type: 'group';
+  op: 'AND' | 'OR';
+  negate?: boolean;
+  children: QueryNode[];
+}
+
+export type QueryNode = QueryTerm | QueryGroup;
+
+/**
+ * Quotes a value as an Essie phrase. Essie has no escape character, so
+ * quotes and backslashes are replaced rather than escaped.
+ */
+export function escapeEssiePhrase(value: string): string {
+  const cleaned = value
+    .replace(/["\\]/g, ' ')
+    .replace(/\p{Cc}/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned ? `"${cleaned}"` : '';
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates untrusted JSON as a QueryNode. Returns a normalized copy (unknown
+ * properties dropped) or the problems found, each prefixed with its path.
+ */
+export function validateQuery(input: unknown): { query: QueryNode | null; errors: string[] } {
+  const errors: string[] = [];
+  let termCount = 0;
+
+  const visit = (node: unknown, path: string, depth: number): QueryNode | null => {
+    if (!isRecord(node)) {
+      errors.push(`${path}: expected a term or group`);
+      return null;
+    }
+    if (node.negate !== undefined && typeof node.negate !== 'boolean') {
+      errors.push(`${path}.negate: expected a boolean`);
+    }
+    const negate = node.negate === true ? { negate: true } : {};
+
+    if (node.type === 'term') {
+      termCount++;
+      if (typeof node.field !== 'string' || !Object.keys(QUERY_FIELD_AREAS).includes(node.field)) {
+        errors.push(`${path}.field: must be one of ${Object.keys(QUERY_FIELD_AREAS).join(', ')}`);
+        return null;
+      }
+      if (typeof node.value !== 'string' || !escapeEssiePhrase(node.value)) {
+        errors.push(`${path}.value: is required`);
+        return null;
+      }
+      if (node.value.length > MAX_TERM_LENGTH) {
+        errors.push(`${path}.value: must be at most ${MAX_TERM_LENGTH} characters`);
+        return null;
+      }
+      return { type: 'term', field: node.field as QueryField, value: node.value.trim(), ...negate };
+    }
+
+    if (node.type === 'group') {
+      if (node.op !== 'AND' && node.op !== 'OR') {
+        errors.push(`${path}.op: must be AND or OR`);
+        return null;
+      }
+      if (depth > MAX_QUERY_DEPTH) {
+        errors.push(`${path}: groups can be nested at most ${MAX_QUERY_DEPTH} levels deep`);
+        return null;
+      }
+      if (!Array.isArray(node.children) || node.children.length === 0) {
+        errors.push(`${path}.children: a group needs at least one term`);
+        return null;
+      }
+      const children = node.children.map((child, i) => visit(child, `${path}.children.${i}`, depth + 1));
+      if (children.some((child) => child === null)) return null;
+      return { type: 'group', op: node.op, children: children as QueryNode[], ...negate };
+    }
+
+    errors.push(`${path}.type: must be term or group`);
+    return null;
+  };
+
+  const query = visit(input, 'advancedQuery', 0);
+  if (termCount > MAX_QUERY_TERMS) {
+    errors.push(`advancedQuery: at most ${MAX_QUERY_TERMS} terms are allowed`);
+  }
+  return errors.length > 0 ? { query: null, errors } : { query, errors };
+}
+
+/** Compiles a validated query to an Essie expression */
+export function compileQuery(node: QueryNode): string {
+  let expression: string;
+  if (node.type === 'term') {
+    const phrase = escapeEssiePhrase(node.value);
+    const parts = QUERY_FIELD_AREAS[node.field].map((area) => `AREA[${area}]${phrase}`);
+    expression = parts.length > 1 ? `(${parts.join(' OR ')})` : parts[0];
+  } else {
+    const parts = node.children.map(compileQuery);
+    expression = parts.length > 1 ? `(${parts.join(` ${node.op} `)})` : parts[0];
+  }
+  return node.negate ? `NOT ${expression}` : expression;
+}
@@ -25,10 +25,17 @@ export interface RateLimitResult {
 export const RATE_LIMITS: Record<string, RateLimitConfig> = {
   'trials-search':       { maxRequests: 100 },
   'trial-detail':        { maxRequests: 100 },
+  'trials-batch':        { maxRequests: 50 },
   'comparator-summary':  { maxRequests: 30 },
   'pico-summary':        { maxRequests: 30 },
   'external-ai-analyze': { maxRequests: 20 },
   'pubmed-search':       { maxRequests: 50 },
+  'saved-searches':      { maxRequests: 200 },
+  'watches':             { maxRequests: 200 },
+  'drug-synonyms':       { maxRequests: 200 },
+  'drug-classes':        { maxRequests: 200 },
+  'suggest':             { maxRequests: 600 },
+  'search-history':      { maxRequests: 200 },
 };
 
 const DEFAULT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
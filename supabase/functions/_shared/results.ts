@@ -0,0 +1,362 @@
+/**
+ * Posted results of a ClinicalTrials.gov study.
+ *
+ * API v2 returns results as `resultsSection`: participant flow, baseline
+ * characteristics and outcome measures, each reported per result group
+ * (FG000, BG000, OG000... — usually one per arm, plus a "Total" baseline
+ * group). Every number arrives as a string; this module keeps the registry
+ * text for display and adds the parsed number (null for "NA" and the like)
+ * so values can be compared and exported.
+ *
+ * Bump RESULTS_NORMALIZER_VERSION whenever the output shape changes; it is
+ * part of the trial-detail cache key.
+ */
+
+export const RESULTS_NORMALIZER_VERSION = '1.0.0';
+
+// ---------------------------------------------------------------------------
+// Raw API v2 shapes (only the fields read here)
+// ---------------------------------------------------------------------------
+
+interface RawGroup {
+  id?: string;
+  title?: string;
+  description?: string;
+}
+
+interface RawCount {
+  groupId?: string;
+  value?: string;
+  numSubjects?: string;
+  comment?: string;
+}
+
+interface RawDenom {
+  units?: string;
+  counts?: RawCount[];
+}
+
+interface RawMeasurement {
+  groupId?: string;
+  value?: string;
+  spread?: string;
+  lowerLimit?: string;
+  upperLimit?: string;
+  comment?: string;
+}
+
+interface RawClass {
+  title?: string;
+  denoms?: RawDenom[];
+  categories?: { title?: string; measurements?: RawMeasurement[] }[];
+}
+
+interface RawMeasure {
+  title?: string;
+  description?: string;
+  populationDescription?: string;
+  paramType?: string;
+  dispersionType?: string;
+  unitOfMeasure?: string;
+  calculatePct?: boolean;
+  denoms?: RawDenom[];
+  classes?: RawClass[];
+}
+
+interface RawAnalysis {
+  groupIds?: string[];
+  groupDescription?: string;
+  statisticalMethod?: string;
+  statisticalComment?: string;
+  paramType?: string;
+  paramValue?: string;
+  dispersionType?: string;
+  dispersionValue?: string;
+  pValue?: string;
+  pValueComment?: string;
+  ciNumSides?: string;
+  ciPctValue?: string;
+  ciLowerLimit?: string;
+  ciUpperLimit?: string;
+  estimateComment?: string;
+  nonInferiorityType?: string;
+}
+
+interface RawOutcomeMeasure extends RawMeasure {
+  type?: string;
+  timeFrame?: string;
+  reportingStatus?: string;
+  groups?: RawGroup[];
+  analyses?: RawAnalysis[];
+}
+
+interface RawFlowEntry {
+  type?: string;
+  achievements?: RawCount[];
+  reasons?: RawCount[];
+}
+
+/** resultsSection as returned by ClinicalTrials.gov API v2 */
+export interface RawResultsSection {
+  participantFlowModule?: {
+    recruitmentDetails?: string;
+    preAssignmentDetails?: string;
+    groups?: RawGroup[];
+    periods?: { title?: string; milestones?: RawFlowEntry[]; dropWithdraws?: RawFlowEntry[] }[];
+  };
+  baselineCharacteristicsModule?: {
+    populationDescription?: string;
+    groups?: RawGroup[];
+    denoms?: RawDenom[];
+    measures?: RawMeasure[];
+  };
+  outcomeMeasuresModule?: {
+    outcomeMeasures?: RawOutcomeMeasure[];
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Normalized shapes
+// ---------------------------------------------------------------------------
+
+export interface ResultGroup {
+  id: string;
+  title: string;
+  description: string;
+}
+
+export interface GroupCount {
+  groupId: string;
+  count: number | null;
+  comment: string;
+}
+
+export interface ParticipantFlowPeriod {
+  title: string;
+  /** STARTED, COMPLETED, NOT COMPLETED and any custom milestones */
+  milestones: { type: string; counts: GroupCount[] }[];
+  /** Reasons for not completing (Adverse Event, Withdrawal by Subject...) */
+  dropWithdraws: { type: string; counts: GroupCount[] }[];
+}
+
+export interface ParticipantFlow {
+  recruitmentDetails: string;
+  preAssignmentDetails: string;
+  groups: ResultGroup[];
+  periods: ParticipantFlowPeriod[];
+}
+
+export interface ResultMeasurement {
+  groupId: string;
+  /** Registry text of the value, e.g. "12.4" or "NA" */
+  text: string;
+  value: number | null;
+  /** Dispersion as a single number (SD, SE) */
+  spread: number | null;
+  /** Dispersion as a range (CI, IQR, full range) */
+  lowerLimit: number | null;
+  upperLimit: number | null;
+  comment: string;
+}
+
+export interface ResultClass {
+  title: string;
+  /** Per-class participant counts, when they differ from the measure's */
+  denoms: GroupCount[];
+  categories: { title: string; measurements: ResultMeasurement[] }[];
+}
+
+export interface ResultMeasure {
+  title: string;
+  description: string;
+  populationDescription: string;
+  /** MEAN, MEDIAN, COUNT_OF_PARTICIPANTS, NUMBER... */
+  paramType: string;
+  /** STANDARD_DEVIATION, CONFIDENCE_INTERVAL_95, INTER_QUARTILE_RANGE... */
+  dispersionType: string;
+  unitOfMeasure: string;
+  /** Counts should be shown with a percentage of the group's participants */
+  calculatePct: boolean;
+  /** Participants analyzed per group */
+  denoms: GroupCount[];
+  classes: ResultClass[];
+}
+
+export interface BaselineCharacteristics {
+  populationDescription: string;
+  groups: ResultGroup[];
+  denoms: GroupCount[];
+  measures: ResultMeasure[];
+}
+
+export interface StatisticalAnalysis {
+  groupIds: string[];
+  groupDescription: string;
+  method: string;
+  /** The estimated parameter, e.g. "Hazard Ratio (HR)" */
+  paramType: string;
+  paramValue: number | null;
+  dispersionType: string;
+  dispersionValue: number | null;
+  /** Registry text of the p-value, e.g. "<0.001" */
+  pValue: string;
+  pValueNumber: number | null;
+  ciPct: number | null;
+  ciNumSides: string;
+  ciLowerLimit: number | null;
+  ciUpperLimit: number | null;
+  nonInferiorityType: string;
+  comment: string;
+}
+
+export interface OutcomeMeasureResult extends ResultMeasure {
+  /** PRIMARY, SECONDARY, OTHER_PRE_SPECIFIED or POST_HOC */
+  type: string;
+  timeFrame: string;
+  /** POSTED or NOT_POSTED */
+  reportingStatus: string;
+  groups: ResultGroup[];
+  analyses: StatisticalAnalysis[];
+}
+
+export interface PostedResults {
+  participantFlow: ParticipantFlow | null;
+  baseline: BaselineCharacteristics | null;
+  outcomeMeasures: OutcomeMeasureResult[];
+  normalizerVersion: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** "1,234.5", "<0.001", "≤ 0.05" → number; "NA", "" and free text → null */
+export function parseResultNumber(text: string | undefined): number | null {
+  if (!text) return null;
+  const match = text.replace(/,/g, '').trim().match(/^(?:[<>≤≥]=?|=)?\s*(-?(?:\d+\.?\d*|\.\d+)(?:e-?\d+)?)$/i);
+  return match ? Number(match[1]) : null;
+}
+
+function normalizeGroups(groups: RawGroup[] | undefined): ResultGroup[] {
+  return (groups || []).map((g) => ({
+    id: g.id || '',
+    title: g.title || g.id || '',
+    description: g.description || '',
+  }));
+}
+
+function normalizeCounts(counts: RawCount[] | undefined): GroupCount[] {
+  return (counts || []).map((c) => ({
+    groupId: c.groupId || '',
+    count: parseResultNumber(c.value ?? c.numSubjects),
+    comment: c.comment || '',
+  }));
+}
+
+/** Participant denominators; other units (eyes, lesions...) are not per-arm headcounts */
+function participantDenoms(denoms: RawDenom[] | undefined): GroupCount[] {
+  const list = denoms || [];
+  const participants = list.find((d) => /participant/i.test(d.units || '')) || list[0];
+  return normalizeCounts(participants?.counts);
+}
+
+function normalizeMeasure(measure: RawMeasure): ResultMeasure {
+  return {
+    title: measure.title || '',
+    description: measure.description || '',
+    populationDescription: measure.populationDescription || '',
+    paramType: measure.paramType || '',
+    dispersionType: measure.dispersionType || '',
+    unitOfMeasure: measure.unitOfMeasure || '',
+    calculatePct: !!measure.calculatePct,
+    denoms: participantDenoms(measure.denoms),
+    classes: (measure.classes || []).map((cls) => ({
+      title: cls.title || '',
+      denoms: participantDenoms(cls.denoms),
+      categories: (cls.categories || []).map((category) => ({
+        title: category.title || '',
+        measurements: (category.measurements || []).map((m) => ({
+          groupId: m.groupId || '',
+          text: m.value || '',
+          value: parseResultNumber(m.value),
+          spread: parseResultNumber(m.spread),
+          lowerLimit: parseResultNumber(m.lowerLimit),
+          upperLimit: parseResultNumber(m.upperLimit),
+          comment: m.comment || '',
+        })),
+      })),
+    })),
+  };
+}
+
+function normalizeAnalysis(analysis: RawAnalysis): StatisticalAnalysis {
+  return {
+    groupIds: analysis.groupIds || [],
+    groupDescription: analysis.groupDescription || '',
+    method: analysis.statisticalMethod || '',
+    paramType: analysis.paramType || '',
+    paramValue: parseResultNumber(analysis.paramValue),
+    dispersionType: analysis.dispersionType || '',
+    dispersionValue: parseResultNumber(analysis.dispersionValue),
+    pValue: analysis.pValue || '',
+    pValueNumber: parseResultNumber(analysis.pValue),
+    ciPct: parseResultNumber(analysis.ciPctValue),
+    ciNumSides: analysis.ciNumSides || '',
+    ciLowerLimit: parseResultNumber(analysis.ciLowerLimit),
+    ciUpperLimit: parseResultNumber(analysis.ciUpperLimit),
+    nonInferiorityType: analysis.nonInferiorityType || '',
+    comment: [analysis.statisticalComment, analysis.pValueComment, analysis.estimateComment]
+      .filter(Boolean)
+      .join(' '),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Main export
+// ---------------------------------------------------------------------------
+
+/** Normalizes a study's resultsSection; null when the study has no posted results */
+export function normalizeResults(section: RawResultsSection | undefined): PostedResults | null {
+  if (!section) return null;
+
+  const flow = section.participantFlowModule;
+  const baseline = section.baselineCharacteristicsModule;
+
+  return {
+    participantFlow: flow
+      ? {
+          recruitmentDetails: flow.recruitmentDetails || '',
+          preAssignmentDetails: flow.preAssignmentDetails || '',
+          groups: normalizeGroups(flow.groups),
+          periods: (flow.periods || []).map((period) => ({
+            title: period.title || '',
+            milestones: (period.milestones || []).map((m) => ({
+              type: m.type || '',
+              counts: normalizeCounts(m.achievements),
+            })),
+            dropWithdraws: (period.dropWithdraws || []).map((d) => ({
+              type: d.type || '',
+              counts: normalizeCounts(d.reasons),
+            })),
+          })),
+        }
+      : null,
+    baseline: baseline
+      ? {
+          populationDescription: baseline.populationDescription || '',
+          groups: normalizeGroups(baseline.groups),
+          denoms: participantDenoms(baseline.denoms),
+          measures: (baseline.measures || []).map(normalizeMeasure),
+        }
+      : null,
+    outcomeMeasures: (section.outcomeMeasuresModule?.outcomeMeasures || []).map((outcome) => ({
+      ...normalizeMeasure(outcome),
+      type: outcome.type || '',
+      timeFrame: outcome.timeFrame || '',
+      reportingStatus: outcome.reportingStatus || '',
+      groups: normalizeGroups(outcome.groups),
+      analyses: (outcome.analyses || []).map(normalizeAnalysis),
+    })),
+    normalizerVersion: RESULTS_NORMALIZER_VERSION,
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Change detection for watched searches and trials.
+ *
+ * A watch keeps a compact per-trial state from its last check; each new
+ * check is diffed against it and every difference becomes a change event
+ * (stored in `notifications` and handed to the delivery channels).
+ */
+
+import type { TransformedStudy } from './ctgov.ts';
+
+export interface WatchedTrialState {
+  nctId: string;
+  briefTitle: string;
+  overallStatus: string;
+  lastUpdatePostDate: string;
+  primaryOutcomes: string[];
+  secondaryOutcomes: string[];
+  /** "label (type)" per arm group */
+  arms: string[];
+}
+
+export type WatchEventType =
+  | 'new_trial'
+  | 'trial_removed'
+  | 'status_changed'
+  | 'outcomes_changed'
+  | 'arms_changed'
+  | 'record_updated';
+
+export interface WatchEvent {
+  type: WatchEventType;
+  nctId: string;
+  briefTitle: string;
+  /** One-line human summary, used as the notification title */
+  summary: string;
+  details: Record<string, unknown>;
+}
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+export function toWatchedTrialState(trial: TransformedStudy): WatchedTrialState {
+  return {
+    nctId: trial.nctId,
+    briefTitle: trial.briefTitle,
+    overallStatus: trial.overallStatus,
+    lastUpdatePostDate: trial.lastUpdatePostDate,
+    primaryOutcomes: trial.primaryOutcomes.map((o) => normalize(o.measure)).filter(Boolean),
+    secondaryOutcomes: trial.secondaryOutcomes.map((o) => normalize(o.measure)).filter(Boolean),
+    arms: trial.arms.map((a) => `${normalize(a.label)} (${a.type || 'unspecified'})`),
+  };
+}
+
+/** Set difference in both directions, ignoring order and case */
+function listDelta(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const beforeKeys = new Set(before.map((v) => v.toLowerCase()));
+  const afterKeys = new Set(after.map((v) => v.toLowerCase()));
+  return {
+    added: after.filter((v) => !beforeKeys.has(v.toLowerCase())),
+    removed: before.filter((v) => !afterKeys.has(v.toLowerCase())),
+  };
+}
+
+function diffTrial(before: WatchedTrialState, after: WatchedTrialState): WatchEvent[] {
+  const events: WatchEvent[] = [];
+  const base = { nctId: after.nctId, briefTitle: after.briefTitle };
+
+  if (before.overallStatus !== after.overallStatus) {
+    events.push({
+      ...base,
+      type: 'status_changed',
+      summary: `${after.nctId}: status ${before.overallStatus} → ${after.overallStatus}`,
+      details: { before: before.overallStatus, after: after.overallStatus },
+    });
+  }
+
+  const primary = listDelta(before.primaryOutcomes, after.primaryOutcomes);
+  const secondary = listDelta(before.secondaryOutcomes, after.secondaryOutcomes);
+  if (primary.added.length || primary.removed.length || secondary.added.length || secondary.removed.length) {
+    events.push({
+      ...base,
+      type: 'outcomes_changed',
+      summary: primary.added.length || primary.removed.length
+        ? `${after.nctId}: primary outcomes changed`
+        : `${after.nctId}: secondary outcomes changed`,
+      details: { primary, secondary },
+    });
+  }
+
+  const arms = listDelta(before.arms, after.arms);
+  if (arms.added.length || arms.removed.length) {
+    events.push({
+      ...base,
+      type: 'arms_changed',
+      summary: `${after.nctId}: study arms changed`,
+      details: arms,
+    });
+  }
+
+  // A new registry version with none of the tracked fields changed
+  if (events.length === 0 && before.lastUpdatePostDate !== after.lastUpdatePostDate) {
+    events.push({
+      ...base,
+      type: 'record_updated',
+      summary: `${after.nctId}: record updated (${after.lastUpdatePostDate})`,
+      details: { before: before.lastUpdatePostDate, after: after.lastUpdatePostDate },
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Diff two checks of a watch.
+ *
+ * With `trackMembership` (search watches) trials entering or leaving the
+ * result set are reported too; `membershipComplete` must be false when the
+ * current check did not load every match, in which case removals are not
+ * reported (a trial may simply have fallen outside the loaded pages) and
+ * the next state should come from nextWatchedState.
+ */
+export function diffWatchedTrials(
+  previous: WatchedTrialState[],
+  current: WatchedTrialState[],
+  opts: { trackMembership: boolean; membershipComplete?: boolean },
+): WatchEvent[] {
+  const previousById = new Map(previous.map((t) => [t.nctId, t]));
+  const currentIds = new Set(current.map((t) => t.nctId));
+  const events: WatchEvent[] = [];
+
+  for (const trial of current) {
+    const before = previousById.get(trial.nctId);
+    if (before) {
+      events.push(...diffTrial(before, trial));
+    } else if (opts.trackMembership) {
+      events.push({
+        type: 'new_trial',
+        nctId: trial.nctId,
+        briefTitle: trial.briefTitle,
+        summary: `New trial ${trial.nctId} matches the search`,
+        details: { overallStatus: trial.overallStatus },
+      });
+    }
+  }
+
+  if (opts.trackMembership && opts.membershipComplete !== false) {
+    for (const trial of previous) {
+      if (currentIds.has(trial.nctId)) continue;
+      events.push({
+        type: 'trial_removed',
+        nctId: trial.nctId,
+        briefTitle: trial.briefTitle,
+        summary: `${trial.nctId} no longer matches the search`,
+        details: {},
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * The state to keep after a check. A check that did not load every match
+ * only saw part of the result set, so the trials it missed are carried over
+ * from the previous state; otherwise a trial drifting in and out of the
+ * loaded pages would be reported as new each time it came back.
+ */
+export function nextWatchedState(
+  previous: WatchedTrialState[],
+  current: WatchedTrialState[],
+  membershipComplete: boolean,
+): WatchedTrialState[] {
+  if (membershipComplete) return current;
+  const currentIds = new Set(current.map((t) => t.nctId));
+  return [...current, ...previous.filter((t) => !currentIds.has(t.nctId))];
+}
@@ -0,0 +1,153 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import {
+  getCorsHeaders,
+  handleCorsPreflightResponse,
+  checkRateLimit,
+  createLogger,
+  newTraceId,
+  buildErrorResponse,
+  buildValidationErrorResponse,
+  buildRateLimitResponse,
+  normalizeDrugKey,
+  SEED_DRUG_CLASSES,
+  listDrugClasses,
+} from '../_shared/mod.ts'
+import type { DrugClass } from '../_shared/mod.ts'
+
+// The drug-class taxonomy used by class searches. Built-in classes and
+// members are read-only; users add members to any class (or start a new
+// class by naming one that does not exist) and remove their own additions.
+
+const clientIdSchema = z.string().uuid()
+const nameSchema = z.string().trim().min(1, 'Name is required').max(200, 'Name too long')
+
+const requestBodySchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('add_member'), clientId: clientIdSchema, className: nameSchema, drug: nameSchema }),
+  z.object({ action: z.literal('delete_member'), clientId: clientIdSchema, id: z.string().uuid() }),
+])
+
+function toClientClass(drugClass: DrugClass, clientId: string | null) {
+  return {
+    key: drugClass.key,
+    name: drugClass.name,
+    atcCode: drugClass.atcCode,
+    builtIn: drugClass.builtIn,
+    members: drugClass.members.map((member) => ({
+      id: member.id || null,
+      name: member.name,
+      builtIn: member.builtIn,
+      canDelete: !member.builtIn && !!clientId && member.ownerId === clientId,
+    })),
+  }
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req)
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightResponse(req)
+  }
+
+  const traceId = newTraceId()
+  const log = createLogger('drug-classes', traceId)
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseKey)
+
+  // Check rate limit
+  const { allowed, headers: rlHeaders } = await checkRateLimit(supabase, req, 'drug-classes', log)
+
+  if (!allowed) {
+    return buildRateLimitResponse(corsHeaders, rlHeaders)
+  }
+
+  const json = (body: unknown, status = 200) => new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/json' } }
+  )
+
+  try {
+    // GET [?clientId=…] lists every class with its members
+    if (req.method === 'GET') {
+      const clientId = clientIdSchema.safeParse(new URL(req.url).searchParams.get('clientId'))
+      const classes = await listDrugClasses(supabase)
+      return json({ classes: classes.map((c) => toClientClass(c, clientId.success ? clientId.data : null)) })
+    }
+
+    const rawBody = await req.json()
+    const validationResult = requestBodySchema.safeParse(rawBody)
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      return buildValidationErrorResponse(errors, corsHeaders, log)
+    }
+
+    const body = validationResult.data
+
+    log.info('drug_classes_action', { action: body.action })
+
+    switch (body.action) {
+      case 'add_member': {
+        const classKey = normalizeDrugKey(body.className)
+        const seed = SEED_DRUG_CLASSES.find((c) => normalizeDrugKey(c.name) === classKey)
+        if (seed?.members.some((name) => normalizeDrugKey(name) === normalizeDrugKey(body.drug))) {
+          return buildValidationErrorResponse(`${body.drug} is already a built-in member of ${seed.name}`, corsHeaders, log)
+        }
+
+        const { data, error } = await supabase
+          .from('drug_class_members')
+          .insert({ class_name: body.className, drug: body.drug, owner_id: body.clientId })
+          .select('id')
+          .single()
+
+        // Unique violation: the drug is already a member (added by someone)
+        if (error?.code === '23505') {
+          return buildErrorResponse(error, {
+            status: 409,
+            publicMessage: `${body.drug} is already in ${body.className}`,
+            errorCode: 'CONFLICT',
+            corsHeaders,
+            log,
+          })
+        }
+        // Check violation: a name without any letters or digits
+        if (error?.code === '23514') {
+          return buildValidationErrorResponse('Class and drug names must contain letters or digits', corsHeaders, log)
+        }
+
+        if (error) throw error
+        return json({ id: data.id }, 201)
+      }
+
+      case 'delete_member': {
+        const { data, error } = await supabase
+          .from('drug_class_members')
+          .delete()
+          .eq('id', body.id)
+          .eq('owner_id', body.clientId)
+          .select('id')
+
+        if (error) throw error
+        if (!data || data.length === 0) {
+          return buildErrorResponse(new Error('Class member not found'), {
+            status: 404,
+            publicMessage: 'Class member not found, or added by someone else',
+            errorCode: 'NOT_FOUND',
+            corsHeaders,
+            log,
+          })
+        }
+        return json({ deleted: body.id })
+      }
+    }
+  } catch (error) {
+    return buildErrorResponse(error, {
+      status: 500,
+      corsHeaders,
+      log,
+      context: 'drug_classes_error',
+    })
+  }
+})
@@ -0,0 +1,164 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import {
+  getCorsHeaders,
+  handleCorsPreflightResponse,
+  checkRateLimit,
+  createLogger,
+  newTraceId,
+  buildErrorResponse,
+  buildValidationErrorResponse,
+  buildRateLimitResponse,
+  normalizeDrugKey,
+  findSeedGroup,
+  loadStoredSynonyms,
+  expandDrugSynonyms,
+} from '../_shared/mod.ts'
+import type { StoredSynonym } from '../_shared/mod.ts'
+
+// View and edit the synonyms a drug search expands to. Built-in synonyms are
+// read-only; user-added pairs are shared by everyone and removable by whoever
+// added them.
+
+const clientIdSchema = z.string().uuid()
+const nameSchema = z.string().trim().min(1, 'Name is required').max(200, 'Name too long')
+
+const requestBodySchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('add'), clientId: clientIdSchema, term: nameSchema, synonym: nameSchema }),
+  z.object({ action: z.literal('delete'), clientId: clientIdSchema, id: z.string().uuid() }),
+])
+
+function toEntry(row: StoredSynonym, clientId: string | null) {
+  return {
+    id: row.id,
+    term: row.term,
+    synonym: row.synonym,
+    canDelete: !!clientId && row.owner_id === clientId,
+    createdAt: row.created_at,
+  }
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req)
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightResponse(req)
+  }
+
+  const traceId = newTraceId()
+  const log = createLogger('drug-synonyms', traceId)
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseKey)
+
+  // Check rate limit
+  const { allowed, headers: rlHeaders } = await checkRateLimit(supabase, req, 'drug-synonyms', log)
+
+  if (!allowed) {
+    return buildRateLimitResponse(corsHeaders, rlHeaders)
+  }
+
+  const json = (body: unknown, status = 200) => new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/json' } }
+  )
+
+  try {
+    // GET ?drug=…[&clientId=…] returns what a search for that drug expands to
+    if (req.method === 'GET') {
+      const url = new URL(req.url)
+      const drug = nameSchema.safeParse(url.searchParams.get('drug') || '')
+      if (!drug.success) {
+        return buildValidationErrorResponse(`drug: ${drug.error.errors[0].message}`, corsHeaders, log)
+      }
+      const clientId = clientIdSchema.safeParse(url.searchParams.get('clientId'))
+
+      const seed = findSeedGroup(drug.data) || []
+      const [stored, synonyms] = await Promise.all([
+        loadStoredSynonyms(supabase, [drug.data, ...seed]),
+        expandDrugSynonyms(supabase, drug.data),
+      ])
+
+      return json({
+        drug: drug.data,
+        builtIn: seed.filter((name) => normalizeDrugKey(name) !== normalizeDrugKey(drug.data)),
+        entries: stored.map((row) => toEntry(row, clientId.success ? clientId.data : null)),
+        synonyms,
+      })
+    }
+
+    const rawBody = await req.json()
+    const validationResult = requestBodySchema.safeParse(rawBody)
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      return buildValidationErrorResponse(errors, corsHeaders, log)
+    }
+
+    const body = validationResult.data
+
+    log.info('drug_synonyms_action', { action: body.action })
+
+    switch (body.action) {
+      case 'add': {
+        const termKey = normalizeDrugKey(body.term)
+        const synonymKey = normalizeDrugKey(body.synonym)
+        if (!termKey || !synonymKey || termKey === synonymKey) {
+          return buildValidationErrorResponse('Drug and synonym must be different names', corsHeaders, log)
+        }
+        if (findSeedGroup(body.term)?.some((name) => normalizeDrugKey(name) === synonymKey)) {
+          return buildValidationErrorResponse(`"${body.synonym}" is already a built-in synonym of "${body.term}"`, corsHeaders, log)
+        }
+
+        const { data, error } = await supabase
+          .from('drug_synonyms')
+          .insert({ term: body.term, synonym: body.synonym, owner_id: body.clientId })
+          .select('id, term, synonym, owner_id, created_at')
+          .single()
+
+        // Unique violation: the pair exists (possibly the other way round)
+        if (error?.code === '23505') {
+          return buildErrorResponse(error, {
+            status: 409,
+            publicMessage: 'This synonym pair already exists',
+            errorCode: 'CONFLICT',
+            corsHeaders,
+            log,
+          })
+        }
+
+        if (error) throw error
+        return json({ entry: toEntry(data as StoredSynonym, body.clientId) }, 201)
+      }
+
+      case 'delete': {
+        const { data, error } = await supabase
+          .from('drug_synonyms')
+          .delete()
+          .eq('id', body.id)
+          .eq('owner_id', body.clientId)
+          .select('id')
+
+        if (error) throw error
+        if (!data || data.length === 0) {
+          return buildErrorResponse(new Error('Synonym not found'), {
+            status: 404,
+            publicMessage: 'Synonym not found, or added by someone else',
+            errorCode: 'NOT_FOUND',
+            corsHeaders,
+            log,
+          })
+        }
+        return json({ deleted: body.id })
+      }
+    }
+  } catch (error) {
+    return buildErrorResponse(error, {
+      status: 500,
+      corsHeaders,
+      log,
+      context: 'drug_synonyms_error',
+    })
+  }
+})
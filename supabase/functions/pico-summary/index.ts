@@ -30,10 +30,19 @@ const endpointAnalysisSchema = z.object({
   structuralNote: z.string().max(2000),
 })
 
+const thresholdsSchema = z.object({
+  predominant: z.number().min(0).max(1),
+  relevant: z.number().min(0).max(1),
+  consistencyHigh: z.number().min(0).max(1),
+  consistencyModerate: z.number().min(0).max(1),
+})
+
 const picoAnalysisSchema = z.object({
   comparator: comparatorAnalysisSchema,
   endpoint: endpointAnalysisSchema,
-  totalTrials: z.number().min(0).max(1000),
+  // Exhaustive searches load up to 10,000 trials
+  totalTrials: z.number().min(0).max(10_000),
+  thresholds: thresholdsSchema.optional(),
 })
 
 const requestBodySchema = z.object({
@@ -62,10 +71,26 @@ interface EndpointAnalysis {
   structuralNote: string;
 }
 
+interface PicoThresholds {
+  predominant: number;
+  relevant: number;
+  consistencyHigh: number;
+  consistencyModerate: number;
+}
+
 interface PicoAnalysis {
   comparator: ComparatorAnalysis;
   endpoint: EndpointAnalysis;
   totalTrials: number;
+  thresholds?: PicoThresholds;
+}
+
+// Must match DEFAULT_PICO_THRESHOLDS in src/lib/picoAnalysis.ts
+const DEFAULT_THRESHOLDS: PicoThresholds = {
+  predominant: 0.5,
+  relevant: 0.2,
+  consistencyHigh: 0.75,
+  consistencyModerate: 0.4,
 }
 
 interface RequestBody {
@@ -85,22 +110,29 @@ const COMPARATOR_LABELS: Record<string, string> = {
   not_evaluable: 'no evaluable',
 };
 
-const ADDON_LABELS: Record<string, string> = {
-  not_present: 'no presentes',
-  minority: 'minoritarios (<20%)',
-  relevant: 'relevantes (20-50%)',
-  predominant: 'predominantes (>50%)',
-  not_evaluable: 'no evaluable',
-};
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+// Add-on and consistency labels quote the thresholds the client computed with
+function buildAddOnLabels(t: PicoThresholds): Record<string, string> {
+  return {
+    not_present: 'no presentes',
+    minority: `minoritarios (<${pct(t.relevant)})`,
+    relevant: `relevantes (${pct(t.relevant)}-${pct(t.predominant)})`,
+    predominant: `predominantes (>${pct(t.predominant)})`,
+    not_evaluable: 'no evaluable',
+  };
+}
 
-const CONSISTENCY_LABELS: Record<string, string> = {
-  consistent: 'consistente entre fases',
-  changes: 'variable entre fases',
-  high: 'alta (>75%)',
-  moderate: 'moderada (40-75%)',
-  low: 'baja (<40%)',
-  not_evaluable: 'no evaluable',
-};
+function buildConsistencyLabels(t: PicoThresholds): Record<string, string> {
+  return {
+    consistent: 'consistente entre fases',
+    changes: 'variable entre fases',
+    high: `alta (>${pct(t.consistencyHigh)})`,
+    moderate: `moderada (${pct(t.consistencyModerate)}-${pct(t.consistencyHigh)})`,
+    low: `baja (<${pct(t.consistencyModerate)})`,
+    not_evaluable: 'no evaluable',
+  };
+}
 
 const ENDPOINT_LABELS: Record<string, string> = {
   OS: 'supervivencia global (OS)',
@@ -129,17 +161,21 @@ const PRO_LABELS: Record<string, string> = {
 
 function buildAnalysisContext(analysis: PicoAnalysis, drugName?: string, indication?: string): string {
   const { comparator, endpoint, totalTrials } = analysis;
+  const thresholds = analysis.thresholds ?? DEFAULT_THRESHOLDS;
+  const addOnLabels = buildAddOnLabels(thresholds);
+  const consistencyLabels = buildConsistencyLabels(thresholds);
   
   let context = `Análisis PICO de ${totalTrials} ensayo(s) clínico(s)`;
   if (drugName) context += ` para ${drugName}`;
   if (indication) context += ` en ${indication}`;
-  context += '.\n\n';
+  context += '.\n';
+  context += `Umbral de predominio: >${pct(thresholds.predominant)}; umbral de relevancia: ${pct(thresholds.relevant)}.\n\n`;
 
   context += 'COMPARADORES:\n';
   context += `- Comparador predominante: ${COMPARATOR_LABELS[comparator.predominantComparator]}\n`;
   context += `- Comparador activo directo: ${comparator.hasDirectActiveComparator === null ? 'no evaluable' : (comparator.hasDirectActiveComparator ? 'sí' : 'no')}\n`;
-  context += `- Diseños add-on: ${ADDON_LABELS[comparator.addOnDesigns]}\n`;
-  context += `- Consistencia entre fases: ${CONSISTENCY_LABELS[comparator.phaseConsistency]}\n`;
+  context += `- Diseños add-on: ${addOnLabels[comparator.addOnDesigns]}\n`;
+  context += `- Consistencia entre fases: ${consistencyLabels[comparator.phaseConsistency]}\n`;
   context += '\n';
 
   context += 'ENDPOINTS:\n';
@@ -147,7 +183,7 @@ function buildAnalysisContext(analysis: PicoAnalysis, drugName?: string, indicat
   context += `- Endpoint clínico duro como primario: ${endpoint.hasHardClinicalPrimary === null ? 'no evaluable' : (endpoint.hasHardClinicalPrimary ? 'sí' : 'no')}\n`;
   context += `- Uso de subrogados: ${SURROGATE_LABELS[endpoint.surrogateUsage]}\n`;
   context += `- PROs: ${PRO_LABELS[endpoint.prosPresence]}\n`;
-  context += `- Consistencia de endpoints: ${CONSISTENCY_LABELS[endpoint.endpointConsistency]}\n`;
+  context += `- Consistencia de endpoints: ${consistencyLabels[endpoint.endpointConsistency]}\n`;
 
   return context;
 }
@@ -279,6 +315,9 @@ El resumen debe cubrir en detalle:
 
 function generateDeterministicSummary(analysis: PicoAnalysis, mode: 'basic' | 'advanced'): string {
   const { comparator, endpoint, totalTrials } = analysis;
+  const thresholds = analysis.thresholds ?? DEFAULT_THRESHOLDS;
+  const addOnLabels = buildAddOnLabels(thresholds);
+  const consistencyLabels = buildConsistencyLabels(thresholds);
   const parts: string[] = [];
 
   // Introduction
@@ -293,7 +332,7 @@ function generateDeterministicSummary(analysis: PicoAnalysis, mode: 'basic' | 'a
         parts.push('Se identifican comparaciones activas directas en la evidencia disponible.');
       }
       if (comparator.addOnDesigns === 'relevant' || comparator.addOnDesigns === 'predominant') {
-        parts.push(`Los diseños add-on sobre terapia estándar son ${ADDON_LABELS[comparator.addOnDesigns]}.`);
+        parts.push(`Los diseños add-on sobre terapia estándar son ${addOnLabels[comparator.addOnDesigns]}.`);
       }
       if (comparator.phaseConsistency === 'changes') {
         parts.push('La estrategia de comparador varía entre las diferentes fases de desarrollo.');
@@ -317,7 +356,7 @@ function generateDeterministicSummary(analysis: PicoAnalysis, mode: 'basic' | 'a
         parts.push('Los PROs se incluyen como endpoints secundarios.');
       }
       if (endpoint.endpointConsistency !== 'not_evaluable') {
-        parts.push(`La consistencia de endpoints entre ensayos es ${CONSISTENCY_LABELS[endpoint.endpointConsistency]}.`);
+        parts.push(`La consistencia de endpoints entre ensayos es ${consistencyLabels[endpoint.endpointConsistency]}.`);
       }
     }
   } else {
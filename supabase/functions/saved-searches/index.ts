@@ -0,0 +1,368 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import {
+  getCorsHeaders,
+  handleCorsPreflightResponse,
+  checkRateLimit,
+  createLogger,
+  newTraceId,
+  buildErrorResponse,
+  buildValidationErrorResponse,
+  buildRateLimitResponse,
+} from '../_shared/mod.ts'
+
+const MAX_SAVED_SEARCHES = 200
+const MAX_SNAPSHOT_TRIALS = 2000 // Must match MAX_SAVED_TRIALS in src/lib/api.ts
+const MAX_SNAPSHOTS_PER_SEARCH = 20
+
+// Same shape as SearchParams on the client / the trials-search query string
+const searchParamsSchema = z.object({
+  drug: z.string().max(200).optional(),
+  condition: z.string().max(500).optional(),
+  biomarker: z.string().max(200).optional(),
+  phase: z.array(z.string().max(20)).max(10).optional(),
+  status: z.array(z.string().max(40)).max(10).optional(),
+  studyType: z.string().max(40).optional(),
+  minDate: z.string().max(10).optional(),
+  maxDate: z.string().max(10).optional(),
+  startFrom: z.string().max(10).optional(),
+  startTo: z.string().max(10).optional(),
+  primaryCompletionFrom: z.string().max(10).optional(),
+  primaryCompletionTo: z.string().max(10).optional(),
+  completionFrom: z.string().max(10).optional(),
+  completionTo: z.string().max(10).optional(),
+  firstPostedFrom: z.string().max(10).optional(),
+  firstPostedTo: z.string().max(10).optional(),
+  sponsorClass: z.array(z.string().max(20)).max(10).optional(),
+  country: z.string().max(100).optional(),
+  minEnrollment: z.number().int().min(0).optional(),
+  maxEnrollment: z.number().int().min(0).optional(),
+  allocation: z.string().max(20).optional(),
+  masking: z.array(z.string().max(20)).max(10).optional(),
+  interventionType: z.array(z.string().max(30)).max(20).optional(),
+  ageGroup: z.array(z.string().max(20)).max(10).optional(),
+  sex: z.string().max(10).optional(),
+  healthyVolunteers: z.boolean().optional(),
+  hasResults: z.boolean().optional(),
+  includeNarrower: z.boolean().optional(),
+  maxResults: z.number().min(1).max(500).optional(),
+  exhaustive: z.boolean().optional(),
+  searchMode: z.enum(['drug', 'condition', 'combined', 'ids', 'class', 'advanced']).optional(),
+  drugClass: z.string().max(200).optional(),
+  // Query tree; trials-search and watch-runner validate it when the search runs
+  advancedQuery: z.record(z.unknown()).optional(),
+  expandSynonyms: z.boolean().optional(),
+  nctIds: z.array(z.string().regex(/^NCT\d{8}$/)).max(500).optional(),
+})
+
+// Same shape as TrialSnapshot / SearchSnapshot in src/lib/snapshotDiff.ts
+// Over-long registry text is clipped rather than rejected: one unusual trial
+// must not fail validation for the whole saved search
+const MAX_SNAPSHOT_TEXT = 1000 // Must match the caps in toTrialSnapshot (src/lib/snapshotDiff.ts)
+const MAX_SNAPSHOT_ENDPOINTS = 50
+
+const clippedText = (max: number) => z.string().transform((s) => s.slice(0, max))
+
+const trialSnapshotSchema = z.object({
+  nctId: z.string().regex(/^NCT\d{8}$/),
+  briefTitle: clippedText(MAX_SNAPSHOT_TEXT),
+  overallStatus: clippedText(60),
+  phase: clippedText(60),
+  enrollmentCount: z.number().int().min(0).nullable(),
+  primaryEndpoints: z.array(clippedText(MAX_SNAPSHOT_TEXT))
+    .transform((endpoints) => endpoints.slice(0, MAX_SNAPSHOT_ENDPOINTS)),
+})
+
+const runSchema = z.object({
+  runAt: z.string().datetime(),
+  totalCount: z.number().int().min(0),
+  trials: z.array(trialSnapshotSchema).max(MAX_SNAPSHOT_TRIALS),
+})
+
+type SearchSnapshot = z.infer<typeof runSchema>
+type SupabaseClient = ReturnType<typeof createClient>
+
+const clientIdSchema = z.string().uuid()
+const nameSchema = z.string().trim().min(1).max(120)
+
+const requestBodySchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create'),
+    clientId: clientIdSchema,
+    name: nameSchema,
+    params: searchParamsSchema,
+    run: runSchema,
+  }),
+  z.object({ action: z.literal('rename'), clientId: clientIdSchema, id: z.string().uuid(), name: nameSchema }),
+  z.object({ action: z.literal('duplicate'), clientId: clientIdSchema, id: z.string().uuid(), name: nameSchema.optional() }),
+  z.object({ action: z.literal('delete'), clientId: clientIdSchema, id: z.string().uuid() }),
+  z.object({ action: z.literal('record_run'), clientId: clientIdSchema, id: z.string().uuid(), run: runSchema }),
+])
+
+const SELECT_COLUMNS = 'id, name, params_json, nct_ids, total_count, last_run_at, created_at, updated_at'
+
+interface SavedSearchRow {
+  id: string
+  name: string
+  params_json: Record<string, unknown> | null
+  nct_ids: string[] | null
+  total_count: number | null
+  last_run_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+function toSavedSearch(row: SavedSearchRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    params: row.params_json || {},
+    nctIds: row.nct_ids || [],
+    totalCount: row.total_count,
+    lastRunAt: row.last_run_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+async function insertSnapshot(supabase: SupabaseClient, savedSearchId: string, run: SearchSnapshot) {
+  const { error } = await supabase.from('saved_search_snapshots').insert({
+    saved_search_id: savedSearchId,
+    run_at: run.runAt,
+    total_count: run.totalCount,
+    trials_json: run.trials,
+  })
+  if (error) throw error
+}
+
+async function getLatestSnapshot(supabase: SupabaseClient, savedSearchId: string): Promise<SearchSnapshot | null> {
+  const { data, error } = await supabase
+    .from('saved_search_snapshots')
+    .select('run_at, total_count, trials_json')
+    .eq('saved_search_id', savedSearchId)
+    .order('run_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+  return { runAt: data.run_at, totalCount: data.total_count, trials: data.trials_json }
+}
+
+// Keeps only the most recent snapshots of a search
+async function pruneSnapshots(supabase: SupabaseClient, savedSearchId: string) {
+  const { data } = await supabase
+    .from('saved_search_snapshots')
+    .select('id')
+    .eq('saved_search_id', savedSearchId)
+    .order('run_at', { ascending: false })
+    .range(MAX_SNAPSHOTS_PER_SEARCH, MAX_SNAPSHOTS_PER_SEARCH + 100)
+
+  const staleIds = (data || []).map((row: { id: string }) => row.id)
+  if (staleIds.length > 0) {
+    await supabase.from('saved_search_snapshots').delete().in('id', staleIds)
+  }
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req)
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightResponse(req)
+  }
+
+  const traceId = newTraceId()
+  const log = createLogger('saved-searches', traceId)
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseKey)
+
+  // Check rate limit
+  const { allowed, headers: rlHeaders } = await checkRateLimit(supabase, req, 'saved-searches', log)
+
+  if (!allowed) {
+    return buildRateLimitResponse(corsHeaders, rlHeaders)
+  }
+
+  const json = (body: unknown, status = 200) => new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/json' } }
+  )
+
+  const notFound = () => buildErrorResponse(new Error('Saved search not found'), {
+    status: 404,
+    publicMessage: 'Saved search not found',
+    errorCode: 'SAVED_SEARCH_NOT_FOUND',
+    corsHeaders,
+    log,
+  })
+
+  try {
+    // GET ?clientId=… lists the caller's saved searches, newest first
+    if (req.method === 'GET') {
+      const clientId = clientIdSchema.safeParse(new URL(req.url).searchParams.get('clientId'))
+      if (!clientId.success) {
+        return buildValidationErrorResponse('clientId must be a UUID', corsHeaders, log)
+      }
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select(SELECT_COLUMNS)
+        .eq('owner_id', clientId.data)
+        .order('updated_at', { ascending: false })
+        .limit(MAX_SAVED_SEARCHES)
+
+      if (error) throw error
+
+      return json({ searches: (data || []).map(toSavedSearch) })
+    }
+
+    const rawBody = await req.json()
+    const validationResult = requestBodySchema.safeParse(rawBody)
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      return buildValidationErrorResponse(errors, corsHeaders, log)
+    }
+
+    const body = validationResult.data
+    const ownerId = body.clientId
+
+    log.info('saved_search_action', { action: body.action })
+
+    switch (body.action) {
+      case 'create': {
+        const { count } = await supabase
+          .from('saved_searches')
+          .select('id', { count: 'exact', head: true })
+          .eq('owner_id', ownerId)
+
+        if ((count ?? 0) >= MAX_SAVED_SEARCHES) {
+          return buildValidationErrorResponse(
+            `Saved search limit reached (${MAX_SAVED_SEARCHES}). Delete some before saving more.`,
+            corsHeaders,
+            log
+          )
+        }
+
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .insert({
+            owner_id: ownerId,
+            name: body.name,
+            params_json: body.params,
+            nct_ids: body.run.trials.map(t => t.nctId),
+            total_count: body.run.totalCount,
+            last_run_at: body.run.runAt,
+          })
+          .select(SELECT_COLUMNS)
+          .single()
+
+        if (error) throw error
+        await insertSnapshot(supabase, data.id, body.run)
+        return json({ search: toSavedSearch(data) }, 201)
+      }
+
+      case 'rename': {
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .update({ name: body.name, updated_at: new Date().toISOString() })
+          .eq('id', body.id)
+          .eq('owner_id', ownerId)
+          .select(SELECT_COLUMNS)
+          .maybeSingle()
+
+        if (error) throw error
+        if (!data) return notFound()
+
+        // Keep a watch on this search labelled like the search
+        await supabase.from('watches').update({ label: body.name }).eq('saved_search_id', body.id)
+        return json({ search: toSavedSearch(data) })
+      }
+
+      case 'duplicate': {
+        const { data: source, error: readError } = await supabase
+          .from('saved_searches')
+          .select(SELECT_COLUMNS)
+          .eq('id', body.id)
+          .eq('owner_id', ownerId)
+          .maybeSingle()
+
+        if (readError) throw readError
+        if (!source) return notFound()
+
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .insert({
+            owner_id: ownerId,
+            name: body.name || `${source.name} (copy)`.slice(0, 120),
+            params_json: source.params_json,
+            nct_ids: source.nct_ids,
+            total_count: source.total_count,
+            last_run_at: source.last_run_at,
+          })
+          .select(SELECT_COLUMNS)
+          .single()
+
+        if (error) throw error
+
+        // The copy starts from the same baseline, so its first re-run still shows a diff
+        const baseline = await getLatestSnapshot(supabase, source.id)
+        if (baseline) await insertSnapshot(supabase, data.id, baseline)
+
+        return json({ search: toSavedSearch(data) }, 201)
+      }
+
+      case 'delete': {
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .delete()
+          .eq('id', body.id)
+          .eq('owner_id', ownerId)
+          .select('id')
+
+        if (error) throw error
+        if (!data || data.length === 0) return notFound()
+        return json({ deleted: body.id })
+      }
+
+      case 'record_run': {
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .update({
+            nct_ids: body.run.trials.map(t => t.nctId),
+            total_count: body.run.totalCount,
+            last_run_at: body.run.runAt,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', body.id)
+          .eq('owner_id', ownerId)
+          .select(SELECT_COLUMNS)
+          .maybeSingle()
+
+        if (error) throw error
+        if (!data) return notFound()
+
+        // Read the previous snapshot before storing this run so the client can diff them
+        const previousSnapshot = await getLatestSnapshot(supabase, data.id)
+        await insertSnapshot(supabase, data.id, body.run)
+        await pruneSnapshots(supabase, data.id)
+
+        log.info('saved_search_run_recorded', {
+          trials: body.run.trials.length,
+          hadPreviousSnapshot: !!previousSnapshot,
+        })
+
+        return json({ search: toSavedSearch(data), previousSnapshot })
+      }
+    }
+  } catch (error) {
+    return buildErrorResponse(error, {
+      status: 500,
+      corsHeaders,
+      log,
+      context: 'saved_searches_error',
+    })
+  }
+})
@@ -0,0 +1,130 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import {
+  getCorsHeaders,
+  handleCorsPreflightResponse,
+  checkRateLimit,
+  createLogger,
+  newTraceId,
+  buildErrorResponse,
+  buildValidationErrorResponse,
+  buildRateLimitResponse,
+} from '../_shared/mod.ts'
+
+// The caller's past searches (logged by trials-search and trials-batch under
+// their anonymous clientId), newest first. Read-only; paged by created_at so
+// rows logged while browsing do not shift later pages.
+
+const querySchema = z.object({
+  clientId: z.string().uuid('clientId must be a UUID'),
+  q: z.string().trim().max(200, 'Filter too long').optional().default(''),
+  searchMode: z.enum(['drug', 'condition', 'combined', 'ids', 'class', 'advanced']).optional(),
+  before: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50),
+})
+
+interface SearchRow {
+  id: string
+  created_at: string
+  drug: string | null
+  indication: string | null
+  biomarker: string | null
+  filters_json: Record<string, unknown> | null
+  result_count: number | null
+  trace_id: string | null
+  duration_ms: number | null
+}
+
+function toClientEntry(row: SearchRow) {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    drug: row.drug,
+    condition: row.indication,
+    biomarker: row.biomarker,
+    filters: row.filters_json || {},
+    resultCount: row.result_count,
+    traceId: row.trace_id,
+    durationMs: row.duration_ms,
+  }
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req)
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightResponse(req)
+  }
+
+  const traceId = newTraceId()
+  const log = createLogger('search-history', traceId)
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseKey)
+
+  // Check rate limit
+  const { allowed, headers: rlHeaders } = await checkRateLimit(supabase, req, 'search-history', log)
+
+  if (!allowed) {
+    return buildRateLimitResponse(corsHeaders, rlHeaders)
+  }
+
+  try {
+    const params = new URL(req.url).searchParams
+    const validationResult = querySchema.safeParse({
+      clientId: params.get('clientId'),
+      q: params.get('q') ?? undefined,
+      searchMode: params.get('searchMode') || undefined,
+      before: params.get('before') || undefined,
+      limit: params.get('limit') ?? undefined,
+    })
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      return buildValidationErrorResponse(errors, corsHeaders, log)
+    }
+
+    const { clientId, q, searchMode, before, limit } = validationResult.data
+
+    // One extra row tells whether another page exists
+    let query = supabase
+      .from('searches')
+      .select('id, created_at, drug, indication, biomarker, filters_json, result_count, trace_id, duration_ms')
+      .eq('owner_id', clientId)
+      .order('created_at', { ascending: false })
+      .limit(limit + 1)
+
+    if (q) {
+      // Characters with a meaning in PostgREST filter syntax or LIKE patterns are dropped
+      const term = q.replace(/[,()*%_\\]/g, ' ').trim()
+      if (term) {
+        query = query.or(['drug', 'indication', 'biomarker', 'filters_json->>drugClass', 'filters_json->>nctIds']
+          .map((column) => `${column}.ilike.*${term}*`).join(','))
+      }
+    }
+    if (searchMode) query = query.eq('filters_json->>searchMode', searchMode)
+    if (before) query = query.lt('created_at', before)
+
+    const { data, error } = await query
+    if (error) throw error
+
+    const rows = (data || []) as SearchRow[]
+    const page = rows.slice(0, limit)
+
+    return new Response(
+      JSON.stringify({
+        entries: page.map(toClientEntry),
+        nextCursor: rows.length > limit ? page[page.length - 1].created_at : null,
+      }),
+      { headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    return buildErrorResponse(error, {
+      status: 500,
+      corsHeaders,
+      log,
+      context: 'search_history_error',
+    })
+  }
+})
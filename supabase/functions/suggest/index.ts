@@ -0,0 +1,105 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import {
+  getCorsHeaders,
+  handleCorsPreflightResponse,
+  checkRateLimit,
+  createLogger,
+  newTraceId,
+  buildErrorResponse,
+  buildValidationErrorResponse,
+  buildRateLimitResponse,
+  normalizeDrugKey,
+  suggestDrugNames,
+} from '../_shared/mod.ts'
+
+// Typeahead for the search form. Terms come from past searches and the
+// spellings in cached registry results (suggest_terms), plus the synonym
+// dictionary for drugs, so code names and brands resolve as the user types.
+
+const querySchema = z.object({
+  field: z.enum(['drug', 'condition', 'sponsor']),
+  q: z.string().trim().min(2, 'Type at least 2 characters').max(100, 'Query too long'),
+  limit: z.coerce.number().int().min(1).max(25).optional().default(10),
+})
+
+interface Suggestion {
+  term: string
+  source: 'history' | 'registry' | 'synonym'
+  hits: number
+  synonyms?: string[]
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req)
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightResponse(req)
+  }
+
+  const traceId = newTraceId()
+  const log = createLogger('suggest', traceId)
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseKey)
+
+  // Check rate limit
+  const { allowed, headers: rlHeaders } = await checkRateLimit(supabase, req, 'suggest', log)
+
+  if (!allowed) {
+    return buildRateLimitResponse(corsHeaders, rlHeaders)
+  }
+
+  try {
+    const params = new URL(req.url).searchParams
+    const validationResult = querySchema.safeParse({
+      field: params.get('field') ?? undefined,
+      q: params.get('q') ?? undefined,
+      limit: params.get('limit') ?? undefined,
+    })
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      return buildValidationErrorResponse(errors, corsHeaders, log)
+    }
+
+    const { field, q, limit } = validationResult.data
+
+    const [termsResult, dictionary] = await Promise.all([
+      supabase.rpc('suggest_terms', { p_field: field, p_prefix: q, p_limit: limit }),
+      field === 'drug' ? suggestDrugNames(supabase, q, limit) : Promise.resolve([]),
+    ])
+
+    if (termsResult.error) throw termsResult.error
+
+    // Keyed like the synonym dictionary so "MK-3475" and "mk 3475" merge
+    const suggestions = new Map<string, Suggestion>()
+    for (const row of (termsResult.data || []) as { term: string; source: Suggestion['source']; hits: number }[]) {
+      const key = normalizeDrugKey(row.term)
+      if (!key || suggestions.has(key)) continue
+      suggestions.set(key, { term: row.term, source: row.source, hits: Number(row.hits) })
+    }
+    for (const entry of dictionary) {
+      const key = normalizeDrugKey(entry.name)
+      const existing = suggestions.get(key)
+      if (existing) {
+        existing.synonyms = entry.synonyms
+      } else {
+        suggestions.set(key, { term: entry.name, source: 'synonym', hits: 0, synonyms: entry.synonyms })
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ field, query: q, suggestions: Array.from(suggestions.values()).slice(0, limit) }),
+      { headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    return buildErrorResponse(error, {
+      status: 500,
+      corsHeaders,
+      log,
+      context: 'suggest_error',
+    })
+  }
+})
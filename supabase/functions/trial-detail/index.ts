@@ -9,6 +9,14 @@ import {
   buildValidationErrorResponse,
   buildRateLimitResponse,
   fetchWithTimeout,
+  classifyArm,
+  classifyOutcome,
+  extractConditionMesh,
+  parseEligibility,
+  ELIGIBILITY_PARSER_VERSION,
+  normalizeResults,
+  RESULTS_NORMALIZER_VERSION,
+  CLASSIFIER_VERSION,
 } from '../_shared/mod.ts'
 
 const CT_GOV_TIMEOUT_MS = 30_000 // 30 seconds
@@ -50,7 +58,9 @@ Deno.serve(async (req) => {
 
     log.info('detail_start', { nctId })
 
-    const cacheKey = `trial_detail_${nctId}`
+    // Classifier, eligibility parser and results normalizer versions: re-parsed
+    // payloads are never served stale
+    const cacheKey = `trial_detail_${nctId}_${CLASSIFIER_VERSION}_${ELIGIBILITY_PARSER_VERSION}_${RESULTS_NORMALIZER_VERSION}`
 
     // Check cache
     const { data: cached } = await supabase
@@ -109,166 +119,10 @@ Deno.serve(async (req) => {
     const eligibility = protocol.eligibilityModule || {}
     const contacts = protocol.contactsLocationsModule || {}
 
-    // Process arms and interventions for comparator analysis
-    const armGroups = (arms.armGroups || []).map((arm: any) => {
-      const armType = arm.type?.toLowerCase() || ''
-      let controlType = null
-
-      if (armType.includes('placebo')) {
-        controlType = 'Placebo'
-      } else if (armType.includes('sham')) {
-        controlType = 'Sham'
-      } else if (armType.includes('no intervention') || armType.includes('no_intervention')) {
-        controlType = 'No Intervention'
-      } else if (armType.includes('active_comparator') || armType.includes('active comparator')) {
-        controlType = 'Active Comparator'
-      } else if (armType.includes('experimental')) {
-        controlType = 'Experimental'
-      }
-
-      // Check description and label for control type hints
-      const desc = (arm.description || '').toLowerCase()
-      const label = (arm.label || '').toLowerCase()
-      const textToCheck = `${desc} ${label}`
-      if (!controlType) {
-        if (textToCheck.includes('placebo')) controlType = 'Placebo'
-        else if (textToCheck.includes('standard of care') || textToCheck.includes('soc') ||
-                 textToCheck.includes('best supportive care') || textToCheck.includes('best available therapy') ||
-                 textToCheck.includes('usual care') || textToCheck.includes('routine care') ||
-                 textToCheck.includes("investigator's choice") || textToCheck.includes("physician's choice") ||
-                 textToCheck.includes('standard treatment') || textToCheck.includes('standard therapy') ||
-                 textToCheck.includes('current standard')) controlType = 'Standard of Care'
-        else if (textToCheck.includes('active comparator') || textToCheck.includes('active control')) controlType = 'Active Comparator'
-      }
-
-      return {
-        label: arm.label || '',
-        type: arm.type || '',
-        description: arm.description || '',
-        interventions: arm.interventionNames || [],
-        isControl: armType.includes('comparator') || armType.includes('placebo') || armType.includes('sham') || armType.includes('no_intervention') || armType.includes('no intervention') || armType.includes('control'),
-        controlType
-      }
-    })
-
-    // Classify endpoints — comprehensive HTA-grade classification
-    const classifyEndpoint = (measure: string): string => {
-      const m = measure.toLowerCase()
-
-      // Hard clinical endpoints
-      if (m.includes('overall survival') || m === 'os' || /\bos\b/.test(m)) {
-        return 'OS'
-      }
-
-      // Progression/disease-free survival family
-      if (m.includes('progression-free') || m.includes('progression free') || /\bpfs\b/.test(m)) {
-        return 'PFS'
-      }
-      if (m.includes('disease-free') || m.includes('disease free') || /\bdfs\b/.test(m)) {
-        return 'DFS'
-      }
-      if (m.includes('event-free') || m.includes('event free') || /\befs\b/.test(m)) {
-        return 'EFS'
-      }
-      if (m.includes('relapse-free') || m.includes('relapse free') || m.includes('recurrence-free') || m.includes('recurrence free') || /\brfs\b/.test(m)) {
-        return 'RFS'
-      }
-
-      // Response rate endpoints
-      if (m.includes('objective response') || m.includes('overall response rate') || /\borr\b/.test(m)) {
-        return 'ORR'
-      }
-      if (m.includes('complete response') || m.includes('complete remission') || /\bcr\b/.test(m) || /\bcri\b/.test(m)) {
-        return 'CR'
-      }
-      if (m.includes('pathologic complete') || m.includes('pathological complete') || /\bpcr\b/.test(m)) {
-        return 'pCR'
-      }
-      if (m.includes('clinical benefit') || /\bcbr\b/.test(m)) {
-        return 'CBR'
-      }
-      if (m.includes('disease control') || /\bdcr\b/.test(m)) {
-        return 'DCR'
-      }
-
-      // Duration/time-to-event endpoints
-      if (m.includes('duration of response') || /\bdor\b/.test(m)) {
-        return 'DOR'
-      }
-      if (m.includes('time to progression') || /\bttp\b/.test(m)) {
-        return 'TTP'
-      }
-      if (m.includes('time to treatment failure') || m.includes('time to next treatment') || /\bttf\b/.test(m) || /\bttnt\b/.test(m)) {
-        return 'TTF'
-      }
-      if (m.includes('time to') && !m.includes('time to progression') && !m.includes('time to treatment') && !m.includes('time to next')) {
-        return 'TTP'
-      }
-
-      // Minimal residual disease
-      if (m.includes('minimal residual') || m.includes('measurable residual') || /\bmrd\b/.test(m)) {
-        return 'MRD'
-      }
-
-      // PRO / QoL — detect by instrument name or general terms
-      if (m.includes('quality of life') || m.includes('qol') || m.includes('hrqol') ||
-          m.includes('patient reported') || m.includes('patient-reported') || /\bpro\b/.test(m) ||
-          m.includes('eortc') || m.includes('qlq') || m.includes('fact-') || m.includes('eq-5d') || m.includes('eq5d') ||
-          m.includes('sf-36') || m.includes('sf36') || m.includes('sf-12') ||
-          m.includes('promis') || m.includes('euroqol') || m.includes('bpi') || m.includes('brief pain') ||
-          m.includes('mdasi') || m.includes('fisi') || m.includes('symptom burden') ||
-          m.includes('health utility') || m.includes('global health status')) {
-        return 'QoL/PRO'
-      }
-
-      // Safety
-      if (m.includes('adverse event') || m.includes('safety') || m.includes('toxicity') ||
-          m.includes('tolerability') || m.includes('side effect') || m.includes('dose limiting') ||
-          m.includes('dose-limiting') || m.includes('maximum tolerated') || m.includes('mtd') ||
-          m.includes('teae') || m.includes('treatment-emergent') || m.includes('treatment emergent') ||
-          m.includes('incidence of') || m.includes('aesi')) {
-        return 'Safety'
-      }
-
-      // Biomarker
-      if (m.includes('biomarker') || m.includes('marker level') || m.includes('expression') ||
-          m.includes('ctdna') || m.includes('circulating tumor') || m.includes('pd-l1') ||
-          m.includes('her2') || m.includes('egfr') || m.includes('alk') || m.includes('braf') ||
-          m.includes('tmb') || m.includes('tumor mutational') || m.includes('microsatellite')) {
-        return 'Biomarker'
-      }
-
-      // Pharmacokinetics / Pharmacodynamics
-      if (m.includes('pharmacokinetic') || m.includes('pharmacodynamic') || /\bpk\b/.test(m) || /\bpd\b/.test(m) ||
-          m.includes('auc') || m.includes('cmax') || m.includes('trough') || m.includes('clearance') ||
-          m.includes('half-life') || m.includes('bioavailability')) {
-        return 'PK/PD'
-      }
-
-      // Resource use / Health economics
-      if (m.includes('cost') || m.includes('resource') || m.includes('hospitalization') || m.includes('hospitalisation') ||
-          m.includes('healthcare utilization') || m.includes('healthcare utilisation') || m.includes('length of stay') ||
-          m.includes('readmission') || m.includes('emergency department') || m.includes('icu') ||
-          m.includes('qaly') || m.includes('icer') || m.includes('cost-effectiveness')) {
-        return 'Resource Use'
-      }
-
-      return 'Other'
-    }
-
-    const primaryOutcomes = (outcomes.primaryOutcomes || []).map((o: any) => ({
-      measure: o.measure || '',
-      timeFrame: o.timeFrame || '',
-      description: o.description || '',
-      classification: classifyEndpoint(o.measure || '')
-    }))
-
-    const secondaryOutcomes = (outcomes.secondaryOutcomes || []).map((o: any) => ({
-      measure: o.measure || '',
-      timeFrame: o.timeFrame || '',
-      description: o.description || '',
-      classification: classifyEndpoint(o.measure || '')
-    }))
+    // Classify arms and endpoints with the shared (versioned) classifier
+    const armGroups = (arms.armGroups || []).map(classifyArm)
+    const primaryOutcomes = (outcomes.primaryOutcomes || []).map(classifyOutcome)
+    const secondaryOutcomes = (outcomes.secondaryOutcomes || []).map(classifyOutcome)
 
     // Generate comparator summary
     const experimentalArms = armGroups.filter((a: any) => a.type?.toLowerCase().includes('experimental'))
@@ -294,10 +148,12 @@ Deno.serve(async (req) => {
       lastUpdatePostDate: status.lastUpdatePostDateStruct?.date || '',
       startDate: status.startDateStruct?.date || '',
       completionDate: status.completionDateStruct?.date || '',
+      resultsFirstPostDate: status.resultsFirstPostDateStruct?.date || '',
       enrollmentCount: design.enrollmentInfo?.count || null,
       enrollmentType: design.enrollmentInfo?.type || '',
       conditions: conditions.conditions || [],
       keywords: conditions.keywords || [],
+      ...extractConditionMesh(study),
       studyType: design.studyType || '',
       briefSummary: description.briefSummary || '',
       detailedDescription: description.detailedDescription || '',
@@ -306,6 +162,7 @@ Deno.serve(async (req) => {
       sex: eligibility.sex || '',
       minimumAge: eligibility.minimumAge || '',
       maximumAge: eligibility.maximumAge || '',
+      eligibilityProfile: parseEligibility(eligibility),
       arms: armGroups,
       interventions: (arms.interventions || []).map((int: any) => ({
         name: int.name || '',
@@ -316,6 +173,8 @@ Deno.serve(async (req) => {
       primaryOutcomes,
       secondaryOutcomes,
       comparatorSummary,
+      hasResults: !!study.hasResults,
+      results: normalizeResults(study.resultsSection),
       locations: (contacts.locations || []).slice(0, 50).map((loc: any) => ({
         facility: loc.facility || '',
         city: loc.city || '',
@@ -326,6 +185,7 @@ Deno.serve(async (req) => {
       trace: {
         nctId,
         traceId,
+        classifierVersion: CLASSIFIER_VERSION,
         timestamp: new Date().toISOString(),
         dataSourceCalls: [{
           source: 'ClinicalTrials.gov API v2',
@@ -0,0 +1,221 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import {
+  getCorsHeaders,
+  handleCorsPreflightResponse,
+  checkRateLimit,
+  createLogger,
+  newTraceId,
+  buildErrorResponse,
+  buildValidationErrorResponse,
+  buildRateLimitResponse,
+  fetchWithTimeout,
+  buildStudiesUrl,
+  transformStudy,
+  SEARCH_FIELDS,
+  CT_GOV_PAGE_SIZE,
+  CLASSIFIER_VERSION,
+  ELIGIBILITY_PARSER_VERSION,
+} from '../_shared/mod.ts'
+import type { TransformedStudy } from '../_shared/mod.ts'
+
+// Batch lookup of a pasted list of NCT IDs. Returns the same payload shape as
+// trials-search so the results page, exports and AI analysis work unchanged.
+
+const MAX_IDS = 500
+const CT_GOV_TIMEOUT_MS = 30_000 // 30 seconds per API page call
+
+const requestBodySchema = z.object({
+  nctIds: z.array(z.string().regex(/^NCT\d{8}$/, 'Invalid NCT ID format. Expected NCTxxxxxxxx.'))
+    .min(1, 'At least one NCT ID is required')
+    .max(MAX_IDS, `At most ${MAX_IDS} NCT IDs per lookup`),
+  // Anonymous client id (see src/lib/clientId.ts); owner of the history entry
+  clientId: z.string().uuid().optional(),
+})
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req)
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightResponse(req)
+  }
+
+  const traceId = newTraceId()
+  const log = createLogger('trials-batch', traceId)
+  const startTime = Date.now()
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseKey)
+
+  // Check rate limit
+  const { allowed, headers: rlHeaders } = await checkRateLimit(supabase, req, 'trials-batch', log)
+
+  if (!allowed) {
+    return buildRateLimitResponse(corsHeaders, rlHeaders)
+  }
+
+  try {
+    const rawBody = await req.json()
+    const validationResult = requestBodySchema.safeParse(rawBody)
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      return buildValidationErrorResponse(errors, corsHeaders, log)
+    }
+
+    // Keep the pasted order, drop repeats
+    const nctIds = Array.from(new Set(validationResult.data.nctIds))
+
+    log.info('batch_start', { requested: nctIds.length })
+
+    // Log the lookup for the history page (fire-and-forget, don't block response)
+    const logSearch = (resultCount: number) => {
+      supabase.from('searches').insert({
+        owner_id: validationResult.data.clientId ?? null,
+        drug: null,
+        indication: null,
+        biomarker: null,
+        filters_json: { searchMode: 'ids', nctIds },
+        result_count: resultCount,
+        trace_id: traceId,
+        duration_ms: Date.now() - startTime,
+      }).then(() => {})
+    }
+
+    const cacheKey = JSON.stringify({ mode: 'ids', nctIds, classifierVersion: CLASSIFIER_VERSION, eligibilityParserVersion: ELIGIBILITY_PARSER_VERSION })
+
+    const { data: cached } = await supabase
+      .from('trial_cache')
+      .select('payload_json, fetched_at, ttl_hours')
+      .eq('cache_key', cacheKey)
+      .single()
+
+    if (cached) {
+      const fetchedAt = new Date(cached.fetched_at)
+      const ttlMs = cached.ttl_hours * 60 * 60 * 1000
+      if (Date.now() - fetchedAt.getTime() < ttlMs) {
+        log.info('cache_hit', { durationMs: Date.now() - startTime })
+        logSearch(cached.payload_json.totalCount)
+        // Served under this request's trace so its id matches the history
+        // entry and its timestamp marks this run, not the one that filled the cache
+        const payload = cached.payload_json as { trace?: Record<string, unknown> }
+        return new Response(
+          JSON.stringify({ ...payload, trace: { ...payload.trace, traceId, timestamp: new Date().toISOString() } }),
+          { headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    const byId = new Map<string, TransformedStudy>()
+    // Requested ID -> current ID, for registrations merged under a new NCT ID
+    const aliases: Record<string, string> = {}
+    const dataSourceCalls: Record<string, unknown>[] = []
+
+    // filter.ids accepts many IDs at once; one page per chunk of IDs
+    for (let i = 0; i < nctIds.length; i += CT_GOV_PAGE_SIZE) {
+      const chunk = nctIds.slice(i, i + CT_GOV_PAGE_SIZE)
+      const apiUrl = buildStudiesUrl({ nctIds: chunk }, chunk.length)
+      apiUrl.searchParams.set('fields', [...SEARCH_FIELDS, 'NCTIdAlias'].join(','))
+      log.info('ct_gov_fetch', { page: dataSourceCalls.length + 1, ids: chunk.length })
+
+      const response = await fetchWithTimeout(apiUrl.toString(), {
+        headers: { 'Accept': 'application/json' },
+        timeoutMs: CT_GOV_TIMEOUT_MS,
+      })
+
+      if (!response.ok) {
+        log.error('ct_gov_api_error', { status: response.status })
+        throw new Error(`ClinicalTrials.gov API error: ${response.status}`)
+      }
+
+      const data = await response.json()
+      const studies = data.studies || []
+
+      dataSourceCalls.push({
+        source: 'ClinicalTrials.gov API v2',
+        url: apiUrl.toString(),
+        timestamp: new Date().toISOString(),
+        resultCount: studies.length,
+        page: dataSourceCalls.length + 1,
+      })
+
+      for (const study of studies) {
+        const trial = transformStudy(study)
+        byId.set(trial.nctId, trial)
+        const studyAliases: string[] = study.protocolSection?.identificationModule?.nctIdAliases || []
+        for (const alias of studyAliases) {
+          if (chunk.includes(alias)) aliases[alias] = trial.nctId
+        }
+      }
+    }
+
+    const trials: TransformedStudy[] = []
+    const unknownIds: string[] = []
+    const seen = new Set<string>()
+
+    for (const id of nctIds) {
+      const trial = byId.get(aliases[id] || id)
+      if (!trial) {
+        unknownIds.push(id)
+      } else if (!seen.has(trial.nctId)) {
+        seen.add(trial.nctId)
+        trials.push(trial)
+      }
+    }
+
+    const result = {
+      totalCount: trials.length,
+      trials,
+      nextPageToken: null,
+      unknownIds,
+      trace: {
+        query: { nctIds, searchMode: 'ids' },
+        timestamp: new Date().toISOString(),
+        traceId,
+        searchMode: 'ids',
+        classifierVersion: CLASSIFIER_VERSION,
+        dataSourceCalls,
+        pagesLoaded: dataSourceCalls.length,
+        ...(Object.keys(aliases).length > 0 && { aliases }),
+      }
+    }
+
+    // Cache the result
+    await supabase.from('trial_cache').upsert({
+      cache_key: cacheKey,
+      payload_json: result,
+      fetched_at: new Date().toISOString(),
+      ttl_hours: 24
+    }, { onConflict: 'cache_key' })
+
+    logSearch(trials.length)
+
+    log.info('batch_complete', { requested: nctIds.length, found: trials.length, unknown: unknownIds.length, durationMs: Date.now() - startTime })
+
+    return new Response(
+      JSON.stringify(result),
+      { headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error: unknown) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      log.error('ct_gov_timeout', { durationMs: Date.now() - startTime })
+      return buildErrorResponse(error, {
+        status: 504,
+        publicMessage: 'ClinicalTrials.gov request timed out. Please try again.',
+        errorCode: 'UPSTREAM_TIMEOUT',
+        corsHeaders,
+        log,
+        context: 'ct_gov_timeout',
+      })
+    }
+
+    return buildErrorResponse(error, {
+      status: 500,
+      corsHeaders,
+      log,
+      context: 'batch_error',
+    })
+  }
+})
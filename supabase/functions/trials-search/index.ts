@@ -10,11 +10,47 @@ import {
   buildValidationErrorResponse,
   buildRateLimitResponse,
   fetchWithTimeout,
+  buildStudiesUrl,
+  transformStudy,
+  getDateFilters,
+  expandDrugSynonyms,
+  findDrugClass,
+  expandDrugClass,
+  drugClassTerms,
+  matchClassMembers,
+  validateQuery,
+  compileQuery,
+  CT_GOV_PAGE_SIZE,
+  CLASSIFIER_VERSION,
+  ELIGIBILITY_PARSER_VERSION,
 } from '../_shared/mod.ts'
-
-// Input validation schemas - both drug and condition are optional but at least one required
+import type { QueryNode, TransformedStudy } from '../_shared/mod.ts'
+
+// Allowed values of the structured filters (lower-case CT.gov enum values)
+const SPONSOR_CLASSES = ['industry', 'nih', 'other'] as const
+const ALLOCATIONS = ['randomized', 'non_randomized'] as const
+const MASKINGS = ['none', 'single', 'double', 'triple', 'quadruple'] as const
+const INTERVENTION_TYPES = [
+  'drug', 'biological', 'device', 'procedure', 'radiation', 'behavioral',
+  'genetic', 'dietary_supplement', 'combination_product', 'diagnostic_test', 'other',
+] as const
+const AGE_GROUPS = ['child', 'adult', 'older_adult'] as const
+const SEXES = ['female', 'male'] as const
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD').optional()
+const DATE_RANGE_PAIRS = [
+  ['startFrom', 'startTo'],
+  ['primaryCompletionFrom', 'primaryCompletionTo'],
+  ['completionFrom', 'completionTo'],
+  ['firstPostedFrom', 'firstPostedTo'],
+] as const
+
+// Input validation schemas - drug and condition are optional but at least one
+// required; a class search needs the class and an advanced search its query
+// instead (the query tree itself is checked by validateQuery)
 const searchParamsSchema = z.object({
   drug: z.string().max(200, 'Drug name too long').optional().default(''),
+  drugClass: z.string().max(200, 'Drug class too long').optional().default(''),
   condition: z.string().max(500, 'Condition too long').optional().default(''),
   biomarker: z.string().max(200, 'Biomarker too long').optional().default(''),
   phase: z.array(z.string().max(20)).max(10).optional().default([]),
@@ -22,15 +58,58 @@ const searchParamsSchema = z.object({
   studyType: z.string().max(50).optional().default(''),
   minDate: z.string().max(20).optional().default(''),
   maxDate: z.string().max(20).optional().default(''),
+  startFrom: dateSchema,
+  startTo: dateSchema,
+  primaryCompletionFrom: dateSchema,
+  primaryCompletionTo: dateSchema,
+  completionFrom: dateSchema,
+  completionTo: dateSchema,
+  firstPostedFrom: dateSchema,
+  firstPostedTo: dateSchema,
+  sponsorClass: z.array(z.enum(SPONSOR_CLASSES)).max(3).optional().default([]),
+  country: z.string().max(100, 'Country too long').optional().default(''),
+  minEnrollment: z.number().int().min(0).max(10_000_000).optional(),
+  maxEnrollment: z.number().int().min(0).max(10_000_000).optional(),
+  allocation: z.enum(ALLOCATIONS).optional(),
+  masking: z.array(z.enum(MASKINGS)).max(5).optional().default([]),
+  interventionType: z.array(z.enum(INTERVENTION_TYPES)).max(INTERVENTION_TYPES.length).optional().default([]),
+  ageGroup: z.array(z.enum(AGE_GROUPS)).max(3).optional().default([]),
+  sex: z.enum(SEXES).optional(),
+  healthyVolunteers: z.boolean().optional().default(false),
+  hasResults: z.boolean().optional().default(false),
+  includeNarrower: z.boolean().optional().default(false),
   maxResults: z.number().min(1).max(500).optional().default(50),
   pageToken: z.string().max(2000, 'Page token too long').optional().default(''),
-  searchMode: z.enum(['drug', 'condition', 'combined']).optional().default('combined'),
+  searchMode: z.enum(['drug', 'condition', 'combined', 'class', 'advanced']).optional().default('combined'),
+  // Stream every match as NDJSON instead of one page of maxResults
+  exhaustive: z.boolean().optional().default(false),
+  expandSynonyms: z.boolean().optional().default(true),
+  advancedQuery: z.string().max(8000, 'Advanced query too long').optional().default(''),
+  // Anonymous client id (see src/lib/clientId.ts); owner of the history entry
+  clientId: z.string().uuid().optional(),
 }).refine(
-  (data) => (data.drug && data.drug.trim().length > 0) || (data.condition && data.condition.trim().length > 0),
+  (data) => data.searchMode !== 'class' || data.drugClass.trim().length > 0,
+  { message: 'drugClass is required for a class search' }
+).refine(
+  (data) => data.searchMode !== 'advanced' || data.advancedQuery.length > 0,
+  { message: 'advancedQuery is required for an advanced search' }
+).refine(
+  (data) => data.searchMode === 'class' || data.searchMode === 'advanced' || (data.drug && data.drug.trim().length > 0) || (data.condition && data.condition.trim().length > 0),
   { message: 'At least one of drug or condition is required' }
+).refine(
+  (data) => data.minEnrollment === undefined || data.maxEnrollment === undefined || data.minEnrollment <= data.maxEnrollment,
+  { message: 'minEnrollment must not exceed maxEnrollment' }
+).refine(
+  // ISO dates compare correctly as strings
+  (data) => DATE_RANGE_PAIRS.every(([from, to]) => !data[from] || !data[to] || data[from]! <= data[to]!),
+  { message: 'Date range start must not be after its end' }
 )
 
 const CT_GOV_TIMEOUT_MS = 30_000 // 30 seconds per API page call
+const EXHAUSTIVE_MAX_PAGES = 100 // Exhaustive safety cap: 10,000 trials
+
+// Empty or missing numeric query params stay undefined; garbage becomes NaN and fails validation
+const optionalInt = (value: string | null) => (value ? Number(value) : undefined)
 
 Deno.serve(async (req) => {
   const corsHeaders = getCorsHeaders(req)
@@ -60,6 +139,7 @@ Deno.serve(async (req) => {
     // Parse and validate input parameters
     const rawParams = {
       drug: url.searchParams.get('drug') || '',
+      drugClass: url.searchParams.get('drugClass') || '',
       condition: url.searchParams.get('condition') || '',
       biomarker: url.searchParams.get('biomarker') || '',
       phase: url.searchParams.getAll('phase'),
@@ -67,9 +147,28 @@ Deno.serve(async (req) => {
       studyType: url.searchParams.get('studyType') || '',
       minDate: url.searchParams.get('minDate') || '',
       maxDate: url.searchParams.get('maxDate') || '',
+      ...Object.fromEntries(
+        DATE_RANGE_PAIRS.flat().map((key) => [key, url.searchParams.get(key) || undefined])
+      ),
+      sponsorClass: url.searchParams.getAll('sponsorClass'),
+      country: url.searchParams.get('country') || '',
+      minEnrollment: optionalInt(url.searchParams.get('minEnrollment')),
+      maxEnrollment: optionalInt(url.searchParams.get('maxEnrollment')),
+      allocation: url.searchParams.get('allocation') || undefined,
+      masking: url.searchParams.getAll('masking'),
+      interventionType: url.searchParams.getAll('interventionType'),
+      ageGroup: url.searchParams.getAll('ageGroup'),
+      sex: url.searchParams.get('sex') || undefined,
+      healthyVolunteers: url.searchParams.get('healthyVolunteers') === 'true',
+      hasResults: url.searchParams.get('hasResults') === 'true',
+      includeNarrower: url.searchParams.get('includeNarrower') === 'true',
       maxResults: parseInt(url.searchParams.get('maxResults') || '50') || 50,
       searchMode: url.searchParams.get('searchMode') || 'combined',
+      exhaustive: url.searchParams.get('exhaustive') === 'true',
+      expandSynonyms: url.searchParams.get('expandSynonyms') !== 'false',
       pageToken: url.searchParams.get('pageToken') || '',
+      advancedQuery: url.searchParams.get('advancedQuery') || '',
+      clientId: url.searchParams.get('clientId') || undefined,
     }
 
     // Validate with Zod schema
@@ -81,148 +180,250 @@ Deno.serve(async (req) => {
     }
 
     const { drug, condition, biomarker, phase, status, studyType, minDate, maxDate, maxResults, searchMode, pageToken } = validationResult.data
+    const {
+      sponsorClass, country, minEnrollment, maxEnrollment, allocation, masking,
+      interventionType, ageGroup, sex, healthyVolunteers, hasResults, includeNarrower,
+      startFrom, startTo, primaryCompletionFrom, primaryCompletionTo,
+      completionFrom, completionTo, firstPostedFrom, firstPostedTo,
+    } = validationResult.data
+    // Structured filters and date ranges, only the ones in use (keeps cache
+    // keys and traces of plain searches unchanged)
+    const structuredFilters = Object.fromEntries(
+      Object.entries({
+        sponsorClass, country, minEnrollment, maxEnrollment, allocation, masking,
+        interventionType, ageGroup, sex, healthyVolunteers, hasResults,
+        includeNarrower: includeNarrower && condition.trim() !== '',
+        startFrom, startTo, primaryCompletionFrom, primaryCompletionTo,
+        completionFrom, completionTo, firstPostedFrom, firstPostedTo,
+      }).filter(([, value]) => value !== undefined && value !== '' && value !== false && !(Array.isArray(value) && value.length === 0))
+    )
 
-    log.info('search_start', { drug, condition, biomarker, searchMode, maxResults })
-
-    // Build cache key (include pageToken for paginated requests)
-    const cacheKey = JSON.stringify({ drug, condition, phase, status, studyType, minDate, maxDate, maxResults, biomarker, searchMode, pageToken })
-
-    // Check cache first
-    const { data: cached } = await supabase
-      .from('trial_cache')
-      .select('payload_json, fetched_at, ttl_hours')
-      .eq('cache_key', cacheKey)
-      .single()
-
-    if (cached) {
-      const fetchedAt = new Date(cached.fetched_at)
-      const ttlMs = cached.ttl_hours * 60 * 60 * 1000
-      if (Date.now() - fetchedAt.getTime() < ttlMs) {
-        log.info('cache_hit', { durationMs: Date.now() - startTime })
-        return new Response(
-          JSON.stringify(cached.payload_json),
-          { headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/json' } }
-        )
+    // Also match the drug's brand and code names; a failed lookup falls back to the name as typed
+    let drugSynonyms: string[] = []
+    if (drug.trim() && validationResult.data.expandSynonyms) {
+      try {
+        drugSynonyms = await expandDrugSynonyms(supabase, drug.trim())
+      } catch (synonymError) {
+        log.warn('synonym_lookup_failed', { error: synonymError instanceof Error ? synonymError.message : String(synonymError) })
       }
     }
 
-    // Build ClinicalTrials.gov API v2 query
-    const queryParts: string[] = []
-
-    if (drug && drug.trim()) {
-      queryParts.push(`AREA[InterventionName]${drug}`)
+    // Class search: every member drug and its synonyms, ORed. Members are
+    // kept per name so each trial can be tagged with the members it uses.
+    const drugClass = searchMode === 'class' ? validationResult.data.drugClass.trim() : ''
+    let classMembers: Map<string, string[]> | null = null
+    let classTerms: string[] = []
+    if (drugClass) {
+      const found = await findDrugClass(supabase, drugClass)
+      if (!found || found.members.length === 0) {
+        return buildValidationErrorResponse(`Unknown drug class: ${drugClass}`, corsHeaders, log)
+      }
+      classMembers = await expandDrugClass(supabase, found)
+      classTerms = drugClassTerms(classMembers)
     }
 
-    if (condition && condition.trim()) {
-      queryParts.push(`AREA[Condition]${condition}`)
+    // Advanced search: the boolean query tree compiled to Essie syntax
+    let advancedQuery: QueryNode | null = null
+    let compiledQuery = ''
+    if (searchMode === 'advanced') {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(validationResult.data.advancedQuery)
+      } catch {
+        return buildValidationErrorResponse('advancedQuery: not valid JSON', corsHeaders, log)
+      }
+      const { query, errors } = validateQuery(parsed)
+      if (!query) {
+        return buildValidationErrorResponse(errors.join(', '), corsHeaders, log)
+      }
+      advancedQuery = query
+      compiledQuery = compileQuery(query)
     }
 
-    if (biomarker && biomarker.trim()) {
-      queryParts.push(`AREA[EligibilityCriteria]${biomarker}`)
-    }
+    log.info('search_start', { drug, drugClass, compiledQuery, condition, biomarker, searchMode, maxResults, synonyms: drugSynonyms.length, classTerms: classTerms.length, ...structuredFilters })
 
-    const queryString = queryParts.join(' AND ')
+    const exhaustive = validationResult.data.exhaustive
 
     // Helper: build the base API URL with all filters
-    function buildApiUrl(pageSize: number, token?: string): URL {
-      const apiUrl = new URL('https://clinicaltrials.gov/api/v2/studies')
-      apiUrl.searchParams.set('query.term', queryString)
-      apiUrl.searchParams.set('pageSize', pageSize.toString())
+    const buildApiUrl = (pageSize: number, token?: string) =>
+      buildStudiesUrl({ drug, drugSynonyms, drugClassTerms: classTerms, compiledQuery, condition, biomarker, phase, status, studyType, minDate, maxDate, ...structuredFilters }, pageSize, token)
 
-      if (token) {
-        apiUrl.searchParams.set('pageToken', token)
-      }
+    // Helper: fetch one page of studies, tagged with class members for class searches
+    const fetchPage = async (pageSize: number, token: string | undefined, page: number) => {
+      const apiUrl = buildApiUrl(pageSize, token)
+      log.info('ct_gov_fetch', { page, pageSize })
 
-      // Phase filter
-      if (phase.length > 0) {
-        const phaseMapping: Record<string, string> = {
-          '1': 'Phase 1', '2': 'Phase 2', '3': 'Phase 3', '4': 'Phase 4',
-          'early_1': 'Early Phase 1', 'na': 'Not Applicable'
-        }
-        const phaseQueries = phase.map(p => `AREA[Phase]"${phaseMapping[p] || p}"`)
-        const currentQuery = apiUrl.searchParams.get('query.term') || ''
-        const phaseFilter = phaseQueries.length > 1 ? `(${phaseQueries.join(' OR ')})` : phaseQueries[0]
-        apiUrl.searchParams.set('query.term', `${currentQuery} AND ${phaseFilter}`)
-      }
+      const response = await fetchWithTimeout(apiUrl.toString(), {
+        headers: { 'Accept': 'application/json' },
+        timeoutMs: CT_GOV_TIMEOUT_MS,
+      })
 
-      // Status filter
-      if (status.length > 0) {
-        const statusMapping: Record<string, string> = {
-          'recruiting': 'RECRUITING', 'active_not_recruiting': 'ACTIVE_NOT_RECRUITING',
-          'completed': 'COMPLETED', 'terminated': 'TERMINATED', 'withdrawn': 'WITHDRAWN',
-          'suspended': 'SUSPENDED', 'not_yet_recruiting': 'NOT_YET_RECRUITING',
-          'enrolling_by_invitation': 'ENROLLING_BY_INVITATION'
-        }
-        apiUrl.searchParams.set('filter.overallStatus', status.map(s => statusMapping[s] || s).join(','))
+      if (!response.ok) {
+        log.error('ct_gov_api_error', { status: response.status })
+        throw new Error(`ClinicalTrials.gov API error: ${response.status}`)
       }
 
-      if (studyType) {
-        apiUrl.searchParams.set('filter.studyType', studyType.toUpperCase())
-      }
+      const data = await response.json()
+      const pageTrials = (data.studies || []).map(transformStudy)
 
-      if (minDate || maxDate) {
-        apiUrl.searchParams.set('filter.lastUpdatePostDate', `${minDate || 'MIN'}:${maxDate || 'MAX'}`)
+      return {
+        totalCount: (data.totalCount || 0) as number,
+        nextPageToken: (data.nextPageToken || undefined) as string | undefined,
+        trials: classMembers
+          ? pageTrials.map((trial: TransformedStudy) => ({
+            ...trial,
+            matchedDrugs: matchClassMembers(trial.interventions.map((i) => i.name), classMembers!),
+          }))
+          : pageTrials,
+        call: {
+          source: 'ClinicalTrials.gov API v2',
+          url: apiUrl.toString(),
+          timestamp: new Date().toISOString(),
+          resultCount: (data.studies || []).length,
+          page,
+        },
       }
+    }
 
-      apiUrl.searchParams.set('fields', [
-        'NCTId', 'BriefTitle', 'OfficialTitle', 'Phase', 'OverallStatus',
-        'LeadSponsorName', 'LastUpdatePostDate', 'StartDate', 'CompletionDate',
-        'EnrollmentCount', 'Condition', 'InterventionName', 'InterventionType',
-        'ArmGroupLabel', 'ArmGroupType', 'ArmGroupDescription', 'ArmGroupInterventionName',
-        'PrimaryOutcomeMeasure', 'PrimaryOutcomeTimeFrame', 'SecondaryOutcomeMeasure',
-        'SecondaryOutcomeTimeFrame', 'StudyType', 'BriefSummary'
-      ].join(','))
+    type DataSourceCall = Awaited<ReturnType<typeof fetchPage>>['call']
+
+    const buildTrace = (dataSourceCalls: DataSourceCall[], extra: Record<string, unknown> = {}) => ({
+      query: {
+        drug, drugSynonyms, condition, biomarker, phase, status, studyType, minDate, maxDate, maxResults, searchMode,
+        ...(classMembers && { drugClass, drugClassMembers: Array.from(classMembers.keys()), drugClassTerms: classTerms }),
+        ...(advancedQuery && { advancedQuery }),
+        ...(exhaustive && { exhaustive }),
+        ...structuredFilters,
+      },
+      timestamp: new Date().toISOString(),
+      traceId,
+      searchMode,
+      // The Essie expression an advanced query compiled to
+      ...(compiledQuery && { compiledQuery }),
+      // Which registry date field each range applied to
+      dateFilters: getDateFilters({ minDate, maxDate, ...structuredFilters }),
+      classifierVersion: CLASSIFIER_VERSION,
+      dataSourceCalls,
+      pagesLoaded: dataSourceCalls.length,
+      ...extra,
+    })
 
-      return apiUrl
+    // Log the search for the history page (fire-and-forget, don't block
+    // response). "Load more" pages continue a logged search, so they are skipped.
+    const logSearch = (resultCount: number) => {
+      if (pageToken) return
+      supabase.from('searches').insert({
+        owner_id: validationResult.data.clientId ?? null,
+        drug: drug || null,
+        indication: condition || null,
+        biomarker: biomarker || null,
+        filters_json: { phase, status, studyType, minDate, maxDate, maxResults, searchMode, ...(exhaustive && { exhaustive }), ...(!validationResult.data.expandSynonyms && { expandSynonyms: false }), ...(drugClass && { drugClass }), ...(advancedQuery && { advancedQuery }), ...structuredFilters },
+        result_count: resultCount,
+        trace_id: traceId,
+        duration_ms: Date.now() - startTime,
+      }).then(() => {})
     }
 
-    // Transform a single study into our Trial format
-    function transformStudy(study: any) {
-      const protocol = study.protocolSection || {}
-      const identification = protocol.identificationModule || {}
-      const statusMod = protocol.statusModule || {}
-      const sponsor = protocol.sponsorCollaboratorsModule || {}
-      const design = protocol.designModule || {}
-      const armsModule = protocol.armsInterventionsModule || {}
-      const outcomes = protocol.outcomesModule || {}
-      const conditions = protocol.conditionsModule || {}
-      const description = protocol.descriptionModule || {}
+    // Exhaustive mode: page through every match server-side and stream one
+    // NDJSON line per page ({type: 'trials'}), then {type: 'done'} with the
+    // trace, or {type: 'error'}. Not cached (landscapes run to thousands of
+    // trials); the client cancels by aborting the request.
+    if (exhaustive) {
+      const encoder = new TextEncoder()
+      let cancelled = false
+
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (line: Record<string, unknown>) => {
+            if (!cancelled) controller.enqueue(encoder.encode(JSON.stringify(line) + '\n'))
+          }
+          const dataSourceCalls: DataSourceCall[] = []
+          let token: string | undefined = undefined
+          let totalCount = 0
+          let loaded = 0
+          let truncated = false
+
+          try {
+            for (let page = 1; !cancelled; page++) {
+              if (page > EXHAUSTIVE_MAX_PAGES) {
+                truncated = true
+                break
+              }
+              const result = await fetchPage(CT_GOV_PAGE_SIZE, token, page)
+              totalCount = result.totalCount || totalCount
+              loaded += result.trials.length
+              dataSourceCalls.push(result.call)
+              send({ type: 'trials', trials: result.trials, loaded, totalCount })
+              if (!result.nextPageToken) break
+              token = result.nextPageToken
+            }
+
+            if (cancelled) {
+              log.info('search_cancelled', { trialsLoaded: loaded, durationMs: Date.now() - startTime })
+              return
+            }
+
+            send({ type: 'done', totalCount: totalCount || loaded, trace: buildTrace(dataSourceCalls, { exhaustive: true, truncated }) })
+            logSearch(totalCount || loaded)
+            log.info('search_complete', { totalCount, trialsReturned: loaded, truncated, durationMs: Date.now() - startTime })
+          } catch (error: unknown) {
+            const timedOut = error instanceof Error && error.name === 'AbortError'
+            log.error(timedOut ? 'ct_gov_timeout' : 'search_error', {
+              internalError: error instanceof Error ? error.message : String(error),
+              trialsLoaded: loaded,
+            })
+            send({
+              type: 'error',
+              error: timedOut ? 'ClinicalTrials.gov request timed out. Please try again.' : 'Search failed while retrieving trials',
+              errorCode: timedOut ? 'UPSTREAM_TIMEOUT' : 'INTERNAL_ERROR',
+            })
+          } finally {
+            if (!cancelled) controller.close()
+          }
+        },
+        cancel() {
+          cancelled = true
+        },
+      })
 
-      return {
-        nctId: identification.nctId || '',
-        briefTitle: identification.briefTitle || '',
-        officialTitle: identification.officialTitle || '',
-        phase: design.phases?.join(', ') || 'N/A',
-        overallStatus: statusMod.overallStatus || 'Unknown',
-        leadSponsor: sponsor.leadSponsor?.name || 'Unknown',
-        lastUpdatePostDate: statusMod.lastUpdatePostDateStruct?.date || '',
-        startDate: statusMod.startDateStruct?.date || '',
-        completionDate: statusMod.completionDateStruct?.date || '',
-        enrollmentCount: design.enrollmentInfo?.count || null,
-        conditions: conditions.conditions || [],
-        studyType: design.studyType || '',
-        briefSummary: description.briefSummary || '',
-        arms: (armsModule.armGroups || []).map((arm: any) => ({
-          label: arm.label || '', type: arm.type || '',
-          description: arm.description || '', interventions: arm.interventionNames || []
-        })),
-        interventions: (armsModule.interventions || []).map((int: any) => ({
-          name: int.name || '', type: int.type || '', description: int.description || ''
-        })),
-        primaryOutcomes: (outcomes.primaryOutcomes || []).map((o: any) => ({
-          measure: o.measure || '', timeFrame: o.timeFrame || '', description: o.description || ''
-        })),
-        secondaryOutcomes: (outcomes.secondaryOutcomes || []).map((o: any) => ({
-          measure: o.measure || '', timeFrame: o.timeFrame || '', description: o.description || ''
-        }))
+      return new Response(stream, {
+        headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' },
+      })
+    }
+
+    // Build cache key (include pageToken for paginated requests and the
+    // classifier and eligibility parser versions so re-classified payloads
+    // are never served stale)
+    const cacheKey = JSON.stringify({ drug, condition, phase, status, studyType, minDate, maxDate, maxResults, biomarker, searchMode, pageToken, ...structuredFilters, ...(drugSynonyms.length > 0 && { drugSynonyms }), ...(drugClass && { drugClass, classTerms }), ...(compiledQuery && { compiledQuery }), classifierVersion: CLASSIFIER_VERSION, eligibilityParserVersion: ELIGIBILITY_PARSER_VERSION })
+
+    // Check cache first
+    const { data: cached } = await supabase
+      .from('trial_cache')
+      .select('payload_json, fetched_at, ttl_hours')
+      .eq('cache_key', cacheKey)
+      .single()
+
+    if (cached) {
+      const fetchedAt = new Date(cached.fetched_at)
+      const ttlMs = cached.ttl_hours * 60 * 60 * 1000
+      if (Date.now() - fetchedAt.getTime() < ttlMs) {
+        log.info('cache_hit', { durationMs: Date.now() - startTime })
+        logSearch((cached.payload_json as { totalCount?: number }).totalCount ?? 0)
+        // Served under this request's trace so its id matches the history
+        // entry and its timestamp marks this run, not the one that filled the cache
+        const payload = cached.payload_json as { trace?: Record<string, unknown> }
+        return new Response(
+          JSON.stringify({ ...payload, trace: { ...payload.trace, traceId, timestamp: new Date().toISOString() } }),
+          { headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/json' } }
+        )
       }
     }
 
     // Fetch with pagination: ClinicalTrials.gov API max is 100 per page
     // We fetch in pages of up to 100 until we reach maxResults
-    const API_PAGE_SIZE = 100
-    const allTrials: any[] = []
-    const dataSourceCalls: any[] = []
+    const API_PAGE_SIZE = CT_GOV_PAGE_SIZE
+    const allTrials: TransformedStudy[] = []
+    const dataSourceCalls: DataSourceCall[] = []
     let currentToken = pageToken || undefined
     let totalCount = 0
     let nextPageToken: string | undefined = undefined
@@ -234,39 +435,17 @@ Deno.serve(async (req) => {
       const remaining = maxResults - allTrials.length
       const thisPageSize = Math.min(remaining, API_PAGE_SIZE)
 
-      const apiUrl = buildApiUrl(thisPageSize, currentToken)
-      log.info('ct_gov_fetch', { page: page + 1, pageSize: thisPageSize })
-
-      const response = await fetchWithTimeout(apiUrl.toString(), {
-        headers: { 'Accept': 'application/json' },
-        timeoutMs: CT_GOV_TIMEOUT_MS,
-      })
-
-      if (!response.ok) {
-        log.error('ct_gov_api_error', { status: response.status })
-        throw new Error(`ClinicalTrials.gov API error: ${response.status}`)
-      }
-
-      const data = await response.json()
+      const data = await fetchPage(thisPageSize, currentToken, page + 1)
       totalCount = data.totalCount || totalCount
-
-      dataSourceCalls.push({
-        source: 'ClinicalTrials.gov API v2',
-        url: apiUrl.toString(),
-        timestamp: new Date().toISOString(),
-        resultCount: (data.studies || []).length,
-        page: page + 1
-      })
-
-      const pageTrials = (data.studies || []).map(transformStudy)
-      allTrials.push(...pageTrials)
+      dataSourceCalls.push(data.call)
+      allTrials.push(...data.trials)
 
       // Check if there are more pages
       if (data.nextPageToken && allTrials.length < maxResults) {
         currentToken = data.nextPageToken
       } else {
         // Save nextPageToken for client-side "load more"
-        nextPageToken = data.nextPageToken || undefined
+        nextPageToken = data.nextPageToken
         break
       }
     }
@@ -280,23 +459,10 @@ Deno.serve(async (req) => {
       totalCount,
       trials: allTrials,
       nextPageToken: nextPageToken || null,
-      trace: {
-        query: { drug, condition, biomarker, phase, status, studyType, minDate, maxDate, maxResults, searchMode },
-        timestamp: new Date().toISOString(),
-        traceId,
-        searchMode,
-        dataSourceCalls,
-        pagesLoaded: dataSourceCalls.length
-      }
+      trace: buildTrace(dataSourceCalls),
     }
 
-    // Log the search (fire-and-forget, don't block response)
-    supabase.from('searches').insert({
-      drug: drug || null,
-      indication: condition || null,
-      biomarker: biomarker || null,
-      filters_json: { phase, status, studyType, minDate, maxDate, maxResults, searchMode }
-    }).then(() => {})
+    logSearch(totalCount)
 
     // Cache the result
     await supabase.from('trial_cache').upsert({
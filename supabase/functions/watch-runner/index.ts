@@ -0,0 +1,307 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  getCorsHeaders,
+  handleCorsPreflightResponse,
+  createLogger,
+  newTraceId,
+  buildErrorResponse,
+  fetchWithTimeout,
+  buildStudiesUrl,
+  transformStudy,
+  toWatchedTrialState,
+  diffWatchedTrials,
+  nextWatchedState,
+  deliverNotifications,
+  expandDrugSynonyms,
+  findDrugClass,
+  expandDrugClass,
+  drugClassTerms,
+  validateQuery,
+  compileQuery,
+  CT_GOV_STUDIES_URL,
+  CT_GOV_PAGE_SIZE,
+} from '../_shared/mod.ts'
+import type {
+  Logger,
+  StudySearchFilters,
+  WatchedTrialState,
+  ChannelConfig,
+  NotificationPayload,
+} from '../_shared/mod.ts'
+
+// Scheduled job (pg_cron, hourly): re-checks due watches, writes change
+// events to `notifications` and pushes them to the owners' delivery channels.
+// Not user-facing: callers must present WATCH_RUNNER_SECRET as a bearer token.
+
+const CT_GOV_TIMEOUT_MS = 30_000 // 30 seconds per API call
+const MAX_WATCHES_PER_RUN = 25 // Keeps one invocation well inside the function time limit
+const MAX_SEARCH_WATCH_TRIALS = 500
+const DEFAULT_MAX_RESULTS = 50
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+interface WatchRow {
+  id: string
+  owner_id: string
+  kind: 'search' | 'trial'
+  saved_search_id: string | null
+  nct_id: string | null
+  label: string
+  check_interval_hours: number
+  state_json: { trials: WatchedTrialState[] } | null
+  last_checked_at: string | null
+}
+
+interface NotificationRow {
+  id: string
+  owner_id: string
+  watch_id: string | null
+  watch_label: string
+  event_type: string
+  nct_id: string | null
+  title: string
+  details_json: Record<string, unknown>
+  created_at: string
+}
+
+/** Current state of every trial matching a saved search, plus whether all matches were loaded */
+async function checkSearch(
+  supabase: SupabaseClient,
+  savedSearchId: string,
+  log: Logger,
+): Promise<{ trials: WatchedTrialState[]; complete: boolean }> {
+  const { data: saved, error } = await supabase
+    .from('saved_searches')
+    .select('params_json')
+    .eq('id', savedSearchId)
+    .single()
+
+  if (error || !saved) throw new Error('Saved search not found')
+
+  const params = (saved.params_json || {}) as StudySearchFilters & {
+    maxResults?: number
+    expandSynonyms?: boolean
+    searchMode?: string
+    drugClass?: string
+    advancedQuery?: unknown
+  }
+  // Same expansion as an interactive search. Unlike trials-search a failed
+  // lookup fails the check, since a narrower query would report removals.
+  if (params.drug?.trim() && params.expandSynonyms !== false) {
+    params.drugSynonyms = await expandDrugSynonyms(supabase, params.drug.trim())
+  }
+  if (params.searchMode === 'class' && params.drugClass) {
+    const drugClass = await findDrugClass(supabase, params.drugClass)
+    if (!drugClass) throw new Error(`Unknown drug class: ${params.drugClass}`)
+    params.drugClassTerms = drugClassTerms(await expandDrugClass(supabase, drugClass))
+  }
+  if (params.searchMode === 'advanced') {
+    const { query, errors } = validateQuery(params.advancedQuery)
+    if (!query) throw new Error(`Invalid advanced query: ${errors.join(', ')}`)
+    params.compiledQuery = compileQuery(query)
+  }
+  // A batch lookup watches every listed trial
+  const maxResults = Math.min(params.nctIds?.length || params.maxResults || DEFAULT_MAX_RESULTS, MAX_SEARCH_WATCH_TRIALS)
+
+  const trials: WatchedTrialState[] = []
+  let pageToken: string | undefined = undefined
+  let totalCount = 0
+
+  while (trials.length < maxResults) {
+    const pageSize = Math.min(maxResults - trials.length, CT_GOV_PAGE_SIZE)
+    const apiUrl = buildStudiesUrl(params, pageSize, pageToken)
+    log.info('ct_gov_fetch', { savedSearchId, pageSize })
+
+    const response = await fetchWithTimeout(apiUrl.toString(), {
+      headers: { 'Accept': 'application/json' },
+      timeoutMs: CT_GOV_TIMEOUT_MS,
+    })
+    if (!response.ok) throw new Error(`ClinicalTrials.gov API error: ${response.status}`)
+
+    const data = await response.json()
+    totalCount = data.totalCount || totalCount
+    trials.push(...(data.studies || []).map(transformStudy).map(toWatchedTrialState))
+
+    if (!data.nextPageToken) break
+    pageToken = data.nextPageToken
+  }
+
+  return { trials, complete: trials.length >= totalCount }
+}
+
+async function checkTrial(nctId: string, log: Logger): Promise<WatchedTrialState[]> {
+  log.info('ct_gov_fetch', { nctId })
+
+  const response = await fetchWithTimeout(`${CT_GOV_STUDIES_URL}/${nctId}`, {
+    headers: { 'Accept': 'application/json' },
+    timeoutMs: CT_GOV_TIMEOUT_MS,
+  })
+  if (response.status === 404) throw new Error(`Trial ${nctId} not found`)
+  if (!response.ok) throw new Error(`ClinicalTrials.gov API error: ${response.status}`)
+
+  return [toWatchedTrialState(transformStudy(await response.json()))]
+}
+
+/** Runs one watch; returns the notifications it created */
+async function runWatch(supabase: SupabaseClient, watch: WatchRow, log: Logger): Promise<NotificationRow[]> {
+  const { trials, complete } = watch.kind === 'search'
+    ? await checkSearch(supabase, watch.saved_search_id!, log)
+    : { trials: await checkTrial(watch.nct_id!, log), complete: true }
+
+  // The first check only records a baseline
+  const events = watch.state_json
+    ? diffWatchedTrials(watch.state_json.trials, trials, {
+      trackMembership: watch.kind === 'search',
+      membershipComplete: complete,
+    })
+    : []
+
+  let created: NotificationRow[] = []
+  if (events.length > 0) {
+    const { data, error } = await supabase
+      .from('notifications')
+      .insert(events.map((event) => ({
+        owner_id: watch.owner_id,
+        watch_id: watch.id,
+        watch_label: watch.label,
+        event_type: event.type,
+        nct_id: event.nctId,
+        title: event.summary,
+        details_json: { briefTitle: event.briefTitle, ...event.details },
+      })))
+      .select('id, owner_id, watch_id, watch_label, event_type, nct_id, title, details_json, created_at')
+
+    if (error) throw error
+    created = data || []
+  }
+
+  const state = nextWatchedState(watch.state_json?.trials || [], trials, complete)
+
+  const { error: updateError } = await supabase
+    .from('watches')
+    .update({ state_json: { trials: state }, last_checked_at: new Date().toISOString(), last_error: null })
+    .eq('id', watch.id)
+
+  if (updateError) throw updateError
+
+  log.info('watch_checked', { watchId: watch.id, kind: watch.kind, trials: trials.length, events: events.length })
+  return created
+}
+
+/** Pushes an owner's new notifications to each of their active channels */
+async function deliverToOwner(
+  supabase: SupabaseClient,
+  ownerId: string,
+  notifications: NotificationRow[],
+  log: Logger,
+) {
+  const { data: channels } = await supabase
+    .from('notification_channels')
+    .select('id, kind, url, secret')
+    .eq('owner_id', ownerId)
+    .eq('active', true)
+
+  if (!channels || channels.length === 0) return
+
+  const payload: NotificationPayload[] = notifications.map((n) => ({
+    id: n.id,
+    watchId: n.watch_id,
+    watchLabel: n.watch_label,
+    eventType: n.event_type,
+    nctId: n.nct_id,
+    title: n.title,
+    details: n.details_json,
+    createdAt: n.created_at,
+  }))
+  const ids = notifications.map((n) => n.id)
+
+  for (const channel of channels as ChannelConfig[]) {
+    try {
+      await deliverNotifications(channel, payload)
+      await supabase.from('notifications').update({ delivered_at: new Date().toISOString(), delivery_error: null }).in('id', ids)
+      log.info('delivery_ok', { channelId: channel.id, kind: channel.kind, count: ids.length })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      await supabase.from('notifications').update({ delivery_error: message.slice(0, 500) }).in('id', ids)
+      log.warn('delivery_failed', { channelId: channel.id, kind: channel.kind, error: message })
+    }
+  }
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req)
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightResponse(req)
+  }
+
+  const traceId = newTraceId()
+  const log = createLogger('watch-runner', traceId)
+  const startTime = Date.now()
+
+  const runnerSecret = Deno.env.get('WATCH_RUNNER_SECRET')
+  if (!runnerSecret || req.headers.get('authorization') !== `Bearer ${runnerSecret}`) {
+    log.warn('unauthorized')
+    return buildErrorResponse(new Error('Unauthorized'), {
+      status: 401,
+      publicMessage: 'Unauthorized',
+      errorCode: 'UNAUTHORIZED',
+      corsHeaders,
+    })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseKey)
+
+  try {
+    // Due-ness is computed in SQL before the limit (see due_watches)
+    const { data: dueRows, error } = await supabase.rpc('due_watches', { p_limit: MAX_WATCHES_PER_RUN })
+
+    if (error) throw error
+
+    const due = (dueRows || []) as WatchRow[]
+
+    log.info('run_start', { due: due.length })
+
+    const byOwner = new Map<string, NotificationRow[]>()
+    let failed = 0
+
+    // Sequential on purpose: keeps ClinicalTrials.gov load predictable
+    for (const watch of due) {
+      try {
+        const created = await runWatch(supabase, watch, log)
+        if (created.length > 0) {
+          byOwner.set(watch.owner_id, [...(byOwner.get(watch.owner_id) || []), ...created])
+        }
+      } catch (watchError) {
+        failed++
+        const message = watchError instanceof Error ? watchError.message : String(watchError)
+        log.warn('watch_failed', { watchId: watch.id, error: message })
+        await supabase
+          .from('watches')
+          .update({ last_checked_at: new Date().toISOString(), last_error: message.slice(0, 500) })
+          .eq('id', watch.id)
+      }
+    }
+
+    for (const [ownerId, notifications] of byOwner) {
+      await deliverToOwner(supabase, ownerId, notifications, log)
+    }
+
+    const notificationCount = Array.from(byOwner.values()).reduce((sum, list) => sum + list.length, 0)
+    log.info('run_complete', { checked: due.length, failed, notifications: notificationCount, durationMs: Date.now() - startTime })
+
+    return new Response(
+      JSON.stringify({ checked: due.length, failed, notifications: notificationCount, traceId }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    return buildErrorResponse(error, {
+      status: 500,
+      corsHeaders,
+      log,
+      context: 'watch_runner_error',
+    })
+  }
+})
@@ -0,0 +1,346 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import {
+  getCorsHeaders,
+  handleCorsPreflightResponse,
+  checkRateLimit,
+  createLogger,
+  newTraceId,
+  buildErrorResponse,
+  buildValidationErrorResponse,
+  buildRateLimitResponse,
+  deliverNotifications,
+  assertWebhookTarget,
+  WebhookTargetError,
+} from '../_shared/mod.ts'
+
+// User-facing management of watches, the notification inbox and the
+// delivery channel. The checks themselves run in watch-runner.
+
+const MAX_WATCHES = 100
+const INBOX_LIMIT = 200
+
+const clientIdSchema = z.string().uuid()
+
+const watchTargetSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('search'), savedSearchId: z.string().uuid() }),
+  z.object({
+    kind: z.literal('trial'),
+    nctId: z.string().regex(/^NCT\d{8}$/, 'Invalid NCT ID format. Expected NCTxxxxxxxx.'),
+    label: z.string().trim().min(1).max(300).optional(),
+  }),
+])
+
+const requestBodySchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('create_watch'), clientId: clientIdSchema, target: watchTargetSchema }),
+  z.object({ action: z.literal('delete_watch'), clientId: clientIdSchema, id: z.string().uuid() }),
+  z.object({ action: z.literal('set_active'), clientId: clientIdSchema, id: z.string().uuid(), active: z.boolean() }),
+  z.object({ action: z.literal('mark_read'), clientId: clientIdSchema, ids: z.array(z.string().uuid()).max(INBOX_LIMIT).optional() }),
+  z.object({
+    action: z.literal('set_channel'),
+    clientId: clientIdSchema,
+    // null removes the channel
+    channel: z.object({
+      url: z.string().url().max(2000).refine((u) => /^https?:\/\//.test(u), 'Webhook URL must be http(s)'),
+      secret: z.string().max(200).nullable().optional(),
+      active: z.boolean().optional().default(true),
+    }).nullable(),
+  }),
+  z.object({ action: z.literal('test_channel'), clientId: clientIdSchema }),
+])
+
+const WATCH_COLUMNS = 'id, kind, saved_search_id, nct_id, label, active, check_interval_hours, last_checked_at, last_error, created_at'
+const NOTIFICATION_COLUMNS = 'id, watch_id, watch_label, event_type, nct_id, title, details_json, read_at, delivered_at, delivery_error, created_at'
+
+interface WatchRowOut {
+  id: string
+  kind: string
+  saved_search_id: string | null
+  nct_id: string | null
+  label: string
+  active: boolean
+  check_interval_hours: number
+  last_checked_at: string | null
+  last_error: string | null
+  created_at: string
+}
+
+interface NotificationRowOut {
+  id: string
+  watch_id: string | null
+  watch_label: string
+  event_type: string
+  nct_id: string | null
+  title: string
+  details_json: Record<string, unknown>
+  read_at: string | null
+  delivered_at: string | null
+  delivery_error: string | null
+  created_at: string
+}
+
+function toWatch(row: WatchRowOut) {
+  return {
+    id: row.id,
+    kind: row.kind,
+    savedSearchId: row.saved_search_id,
+    nctId: row.nct_id,
+    label: row.label,
+    active: row.active,
+    checkIntervalHours: row.check_interval_hours,
+    lastCheckedAt: row.last_checked_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+  }
+}
+
+function toNotification(row: NotificationRowOut) {
+  return {
+    id: row.id,
+    watchId: row.watch_id,
+    watchLabel: row.watch_label,
+    eventType: row.event_type,
+    nctId: row.nct_id,
+    title: row.title,
+    details: row.details_json || {},
+    readAt: row.read_at,
+    deliveredAt: row.delivered_at,
+    deliveryError: row.delivery_error,
+    createdAt: row.created_at,
+  }
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req)
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightResponse(req)
+  }
+
+  const traceId = newTraceId()
+  const log = createLogger('watches', traceId)
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseKey)
+
+  // Check rate limit
+  const { allowed, headers: rlHeaders } = await checkRateLimit(supabase, req, 'watches', log)
+
+  if (!allowed) {
+    return buildRateLimitResponse(corsHeaders, rlHeaders)
+  }
+
+  const json = (body: unknown, status = 200) => new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, ...rlHeaders, 'Content-Type': 'application/json' } }
+  )
+
+  const notFound = (what: string) => buildErrorResponse(new Error(`${what} not found`), {
+    status: 404,
+    publicMessage: `${what} not found`,
+    errorCode: 'NOT_FOUND',
+    corsHeaders,
+    log,
+  })
+
+  try {
+    // GET ?clientId=… returns everything the inbox page shows
+    if (req.method === 'GET') {
+      const clientId = clientIdSchema.safeParse(new URL(req.url).searchParams.get('clientId'))
+      if (!clientId.success) {
+        return buildValidationErrorResponse('clientId must be a UUID', corsHeaders, log)
+      }
+
+      const [watches, notifications, channel] = await Promise.all([
+        supabase.from('watches').select(WATCH_COLUMNS).eq('owner_id', clientId.data).order('created_at', { ascending: false }),
+        supabase.from('notifications').select(NOTIFICATION_COLUMNS).eq('owner_id', clientId.data)
+          .order('created_at', { ascending: false }).limit(INBOX_LIMIT),
+        supabase.from('notification_channels').select('kind, url, secret, active').eq('owner_id', clientId.data)
+          .eq('kind', 'webhook').maybeSingle(),
+      ])
+
+      if (watches.error) throw watches.error
+      if (notifications.error) throw notifications.error
+      if (channel.error) throw channel.error
+
+      return json({
+        watches: (watches.data || []).map(toWatch),
+        notifications: (notifications.data || []).map(toNotification),
+        // The secret is write-only; the UI only needs to know one is set
+        channel: channel.data
+          ? { kind: channel.data.kind, url: channel.data.url, hasSecret: !!channel.data.secret, active: channel.data.active }
+          : null,
+      })
+    }
+
+    const rawBody = await req.json()
+    const validationResult = requestBodySchema.safeParse(rawBody)
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      return buildValidationErrorResponse(errors, corsHeaders, log)
+    }
+
+    const body = validationResult.data
+    const ownerId = body.clientId
+
+    log.info('watches_action', { action: body.action })
+
+    switch (body.action) {
+      case 'create_watch': {
+        const { count } = await supabase
+          .from('watches')
+          .select('id', { count: 'exact', head: true })
+          .eq('owner_id', ownerId)
+
+        if ((count ?? 0) >= MAX_WATCHES) {
+          return buildValidationErrorResponse(`Watch limit reached (${MAX_WATCHES})`, corsHeaders, log)
+        }
+
+        const target = body.target
+        let row: Record<string, unknown>
+        if (target.kind === 'search') {
+          const { data: saved } = await supabase
+            .from('saved_searches')
+            .select('id, name')
+            .eq('id', target.savedSearchId)
+            .eq('owner_id', ownerId)
+            .maybeSingle()
+
+          if (!saved) return notFound('Saved search')
+          row = { owner_id: ownerId, kind: 'search', saved_search_id: saved.id, label: saved.name }
+        } else {
+          row = { owner_id: ownerId, kind: 'trial', nct_id: target.nctId, label: target.label || target.nctId }
+        }
+
+        const { data, error } = await supabase.from('watches').insert(row).select(WATCH_COLUMNS).single()
+
+        // Unique violation: already watched, return the existing watch
+        if (error?.code === '23505') {
+          const existing = target.kind === 'search'
+            ? supabase.from('watches').select(WATCH_COLUMNS).eq('owner_id', ownerId).eq('saved_search_id', target.savedSearchId)
+            : supabase.from('watches').select(WATCH_COLUMNS).eq('owner_id', ownerId).eq('nct_id', target.nctId)
+          const { data: found, error: findError } = await existing.single()
+          if (findError) throw findError
+          return json({ watch: toWatch(found) })
+        }
+
+        if (error) throw error
+        return json({ watch: toWatch(data) }, 201)
+      }
+
+      case 'delete_watch': {
+        const { data, error } = await supabase
+          .from('watches')
+          .delete()
+          .eq('id', body.id)
+          .eq('owner_id', ownerId)
+          .select('id')
+
+        if (error) throw error
+        if (!data || data.length === 0) return notFound('Watch')
+        return json({ deleted: body.id })
+      }
+
+      case 'set_active': {
+        const { data, error } = await supabase
+          .from('watches')
+          .update({ active: body.active })
+          .eq('id', body.id)
+          .eq('owner_id', ownerId)
+          .select(WATCH_COLUMNS)
+          .maybeSingle()
+
+        if (error) throw error
+        if (!data) return notFound('Watch')
+        return json({ watch: toWatch(data) })
+      }
+
+      case 'mark_read': {
+        let query = supabase
+          .from('notifications')
+          .update({ read_at: new Date().toISOString() })
+          .eq('owner_id', ownerId)
+          .is('read_at', null)
+
+        if (body.ids) query = query.in('id', body.ids)
+
+        const { error } = await query
+        if (error) throw error
+        return json({ ok: true })
+      }
+
+      case 'set_channel': {
+        if (!body.channel) {
+          const { error } = await supabase.from('notification_channels').delete().eq('owner_id', ownerId).eq('kind', 'webhook')
+          if (error) throw error
+          return json({ channel: null })
+        }
+
+        try {
+          await assertWebhookTarget(body.channel.url)
+        } catch (targetError) {
+          if (targetError instanceof WebhookTargetError) {
+            return buildValidationErrorResponse(targetError.message, corsHeaders, log)
+          }
+          throw targetError
+        }
+
+        const update: Record<string, unknown> = {
+          owner_id: ownerId,
+          kind: 'webhook',
+          url: body.channel.url,
+          active: body.channel.active,
+        }
+        // Omitted secret keeps the stored one; null clears it
+        if (body.channel.secret !== undefined) update.secret = body.channel.secret || null
+
+        const { data, error } = await supabase
+          .from('notification_channels')
+          .upsert(update, { onConflict: 'owner_id,kind' })
+          .select('kind, url, secret, active')
+          .single()
+
+        if (error) throw error
+        return json({ channel: { kind: data.kind, url: data.url, hasSecret: !!data.secret, active: data.active } })
+      }
+
+      case 'test_channel': {
+        const { data: channel } = await supabase
+          .from('notification_channels')
+          .select('id, kind, url, secret')
+          .eq('owner_id', ownerId)
+          .eq('kind', 'webhook')
+          .maybeSingle()
+
+        if (!channel) return notFound('Delivery channel')
+
+        try {
+          await deliverNotifications(channel, [{
+            id: crypto.randomUUID(),
+            watchId: null,
+            watchLabel: 'Test',
+            eventType: 'test',
+            nctId: null,
+            title: 'Test notification from Trial Compass',
+            details: {},
+            createdAt: new Date().toISOString(),
+          }])
+          return json({ ok: true })
+        } catch (deliveryError) {
+          const message = deliveryError instanceof Error ? deliveryError.message : String(deliveryError)
+          log.warn('test_delivery_failed', { error: message })
+          return json({ ok: false, error: message })
+        }
+      }
+    }
+  } catch (error) {
+    return buildErrorResponse(error, {
+      status: 500,
+      corsHeaders,
+      log,
+      context: 'watches_error',
+    })
+  }
+})
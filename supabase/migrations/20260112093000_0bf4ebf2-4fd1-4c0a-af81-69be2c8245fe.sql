@@ -0,0 +1,20 @@
+-- Named saved searches, owned by an anonymous per-browser client id
+CREATE TABLE public.saved_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  params_json JSONB NOT NULL DEFAULT '{}'::jsonb,
+  nct_ids TEXT[] NOT NULL DEFAULT '{}',
+  total_count INTEGER,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_saved_searches_owner ON public.saved_searches (owner_id, updated_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+-- No public policies: the saved-searches edge function reads and writes
+-- via the service role and scopes every query to the caller's owner_id
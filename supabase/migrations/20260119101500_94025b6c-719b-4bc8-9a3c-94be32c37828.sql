@@ -0,0 +1,16 @@
+-- Per-run snapshots of saved searches, used to diff a re-run against the previous one
+CREATE TABLE public.saved_search_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  saved_search_id UUID NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  total_count INTEGER NOT NULL DEFAULT 0,
+  trials_json JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_saved_search_snapshots_search ON public.saved_search_snapshots (saved_search_id, run_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.saved_search_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- No public policies: only the saved-searches edge function (service role) accesses snapshots
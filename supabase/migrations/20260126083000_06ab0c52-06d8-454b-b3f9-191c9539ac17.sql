@@ -0,0 +1,81 @@
+-- Watches: saved searches or single trials re-checked on a schedule by watch-runner
+CREATE TABLE public.watches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('search', 'trial')),
+  saved_search_id UUID REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  nct_id TEXT,
+  label TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  check_interval_hours INTEGER NOT NULL DEFAULT 24,
+  state_json JSONB,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT watches_target_check CHECK (
+    (kind = 'search' AND saved_search_id IS NOT NULL AND nct_id IS NULL) OR
+    (kind = 'trial' AND nct_id IS NOT NULL AND saved_search_id IS NULL)
+  )
+);
+
+CREATE UNIQUE INDEX idx_watches_owner_search ON public.watches (owner_id, saved_search_id) WHERE kind = 'search';
+CREATE UNIQUE INDEX idx_watches_owner_trial ON public.watches (owner_id, nct_id) WHERE kind = 'trial';
+CREATE INDEX idx_watches_due ON public.watches (active, last_checked_at);
+
+-- Change events written by watch-runner and shown in the inbox
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL,
+  watch_id UUID REFERENCES public.watches(id) ON DELETE SET NULL,
+  watch_label TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  nct_id TEXT,
+  title TEXT NOT NULL,
+  details_json JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  delivery_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_owner ON public.notifications (owner_id, created_at DESC);
+
+-- Delivery channels per owner (currently webhook only, see _shared/delivery.ts)
+CREATE TABLE public.notification_channels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('webhook')),
+  url TEXT NOT NULL,
+  secret TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (owner_id, kind)
+);
+
+-- Enable RLS
+ALTER TABLE public.watches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_channels ENABLE ROW LEVEL SECURITY;
+
+-- No public policies: the watches and watch-runner edge functions use the service role
+
+-- Hourly schedule. watch-runner only re-checks watches whose interval has
+-- elapsed. Requires the `project_url` and `watch_runner_secret` Vault
+-- secrets; the latter must equal the function's WATCH_RUNNER_SECRET.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'watch-runner-hourly',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/watch-runner',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'watch_runner_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
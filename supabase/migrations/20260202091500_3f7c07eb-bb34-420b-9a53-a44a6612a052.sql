@@ -0,0 +1,28 @@
+-- User-added drug synonyms (brand names, sponsor code names) used to expand
+-- intervention searches. The built-in seed list lives in
+-- supabase/functions/_shared/drugSynonyms.ts; this table only holds additions.
+CREATE TABLE public.drug_synonyms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  term TEXT NOT NULL,
+  synonym TEXT NOT NULL,
+  -- Lookup keys, same normalization as normalizeDrugKey(): lower-case, alphanumerics only
+  term_key TEXT GENERATED ALWAYS AS (regexp_replace(lower(term), '[^a-z0-9]', '', 'g')) STORED,
+  synonym_key TEXT GENERATED ALWAYS AS (regexp_replace(lower(synonym), '[^a-z0-9]', '', 'g')) STORED,
+  -- Anonymous client id of whoever added the pair; only they can remove it
+  owner_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT drug_synonyms_distinct CHECK (term_key <> '' AND synonym_key <> '' AND term_key <> synonym_key)
+);
+
+CREATE INDEX idx_drug_synonyms_term_key ON public.drug_synonyms (term_key);
+CREATE INDEX idx_drug_synonyms_synonym_key ON public.drug_synonyms (synonym_key);
+
+-- A pair is stored once, whichever way round it was entered
+CREATE UNIQUE INDEX idx_drug_synonyms_pair
+  ON public.drug_synonyms (LEAST(term_key, synonym_key), GREATEST(term_key, synonym_key));
+
+-- Enable RLS
+ALTER TABLE public.drug_synonyms ENABLE ROW LEVEL SECURITY;
+
+-- No public policies: trials-search, watch-runner and the drug-synonyms edge
+-- function access the table via the service role
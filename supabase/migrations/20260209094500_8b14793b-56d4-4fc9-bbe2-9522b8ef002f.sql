@@ -0,0 +1,23 @@
+-- User additions to the drug-class taxonomy used by class searches. A row
+-- either extends a built-in class (see supabase/functions/_shared/drugClasses.ts)
+-- or, when class_name matches no built-in class, defines a new one.
+CREATE TABLE public.drug_class_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  class_name TEXT NOT NULL,
+  drug TEXT NOT NULL,
+  -- Same normalization as normalizeDrugKey(): lower-case, alphanumerics only
+  class_key TEXT GENERATED ALWAYS AS (regexp_replace(lower(class_name), '[^a-z0-9]', '', 'g')) STORED,
+  drug_key TEXT GENERATED ALWAYS AS (regexp_replace(lower(drug), '[^a-z0-9]', '', 'g')) STORED,
+  -- Anonymous client id of whoever added the member; only they can remove it
+  owner_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT drug_class_members_not_blank CHECK (class_key <> '' AND drug_key <> '')
+);
+
+CREATE UNIQUE INDEX idx_drug_class_members_unique ON public.drug_class_members (class_key, drug_key);
+
+-- Enable RLS
+ALTER TABLE public.drug_class_members ENABLE ROW LEVEL SECURITY;
+
+-- No public policies: trials-search and the drug-classes edge function
+-- access the table via the service role
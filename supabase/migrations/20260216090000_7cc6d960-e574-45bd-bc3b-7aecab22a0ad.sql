@@ -0,0 +1,45 @@
+-- Typeahead suggestions for the search form (called by the suggest edge
+-- function). Candidates are past searches and the registry's own spellings
+-- in recently cached search results; the synonym dictionary is added by the
+-- edge function.
+CREATE OR REPLACE FUNCTION public.suggest_terms(p_field TEXT, p_prefix TEXT, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (term TEXT, source TEXT, hits BIGINT)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  WITH pattern AS (
+    -- LIKE-escape the user's text
+    SELECT replace(replace(replace(lower(trim(p_prefix)), '\', '\\'), '%', '\%'), '_', '\_') AS p
+  ),
+  recent_trials AS (
+    SELECT jsonb_array_elements(c.trials) AS trial
+    FROM (
+      SELECT payload_json->'trials' AS trials
+      FROM trial_cache
+      WHERE jsonb_typeof(payload_json->'trials') = 'array'
+      ORDER BY fetched_at DESC
+      LIMIT 500
+    ) c
+  ),
+  candidates AS (
+    SELECT s.drug AS term, 'history' AS source FROM searches s WHERE p_field = 'drug'
+    UNION ALL
+    SELECT s.indication, 'history' FROM searches s WHERE p_field = 'condition'
+    UNION ALL
+    SELECT i.value->>'name', 'registry' FROM recent_trials t, jsonb_array_elements(t.trial->'interventions') AS i(value) WHERE p_field = 'drug'
+    UNION ALL
+    SELECT c.value #>> '{}', 'registry' FROM recent_trials t, jsonb_array_elements(t.trial->'conditions') AS c(value) WHERE p_field = 'condition'
+    UNION ALL
+    SELECT t.trial->>'leadSponsor', 'registry' FROM recent_trials t WHERE p_field = 'sponsor'
+  )
+  SELECT
+    -- Most common spelling of each case-insensitive term
+    mode() WITHIN GROUP (ORDER BY trim(c.term)) AS term,
+    CASE WHEN bool_or(c.source = 'registry') THEN 'registry' ELSE 'history' END AS source,
+    count(*) AS hits
+  FROM candidates c, pattern
+  WHERE trim(c.term) NOT IN ('', 'Unknown')
+    -- Match the start of the term or of any word in it
+    AND (lower(c.term) LIKE pattern.p || '%' OR lower(c.term) LIKE '% ' || pattern.p || '%')
+  GROUP BY lower(trim(c.term))
+  ORDER BY bool_or(lower(trim(c.term)) LIKE pattern.p || '%') DESC, count(*) DESC, length(lower(trim(c.term)))
+  LIMIT LEAST(GREATEST(p_limit, 1), 25);
+$$;
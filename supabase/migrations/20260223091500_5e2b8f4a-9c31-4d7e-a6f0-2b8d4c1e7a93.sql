@@ -0,0 +1,8 @@
+-- Search history: what each logged search returned and how it ran. drug was
+-- NOT NULL, so condition-only, class and advanced searches were never logged.
+ALTER TABLE public.searches ALTER COLUMN drug DROP NOT NULL;
+
+ALTER TABLE public.searches
+  ADD COLUMN result_count INTEGER,
+  ADD COLUMN trace_id TEXT,
+  ADD COLUMN duration_ms INTEGER;
@@ -0,0 +1,17 @@
+-- Watches whose check interval has elapsed, most overdue first (called by
+-- watch-runner). Due-ness is decided here, before the limit, so recently
+-- checked long-interval watches can never crowd out due ones.
+CREATE OR REPLACE FUNCTION public.due_watches(p_limit INTEGER DEFAULT 25)
+RETURNS SETOF public.watches
+LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public AS $$
+  SELECT w.*
+  FROM watches w
+  WHERE w.active
+    AND (w.last_checked_at IS NULL
+      OR w.last_checked_at + make_interval(hours => w.check_interval_hours) <= now())
+  ORDER BY w.last_checked_at + make_interval(hours => w.check_interval_hours) ASC NULLS FIRST
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+-- Only the service role (watch-runner) may list watches
+REVOKE EXECUTE ON FUNCTION public.due_watches(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,108 @@
+-- Typeahead terms, precomputed. suggest_terms used to scan every past search
+-- and unnest recent cached payloads on each keystroke; the candidates now
+-- live in suggest_term_index, kept current by triggers on the two writers
+-- (searches and trial_cache) and searched through prefix/trigram indexes.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE public.suggest_term_index (
+  field TEXT NOT NULL CHECK (field IN ('drug', 'condition', 'sponsor')),
+  -- lower(trim(term)): one row per case-insensitive term
+  term_key TEXT NOT NULL,
+  -- Spelling as first recorded
+  term TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('history', 'registry')),
+  hits BIGINT NOT NULL DEFAULT 1,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (field, term_key)
+);
+
+CREATE INDEX idx_suggest_term_prefix ON public.suggest_term_index (field, term_key text_pattern_ops);
+CREATE INDEX idx_suggest_term_trgm ON public.suggest_term_index USING gin (term_key gin_trgm_ops);
+
+-- No public policies: only the suggest edge function (service role) reads it
+ALTER TABLE public.suggest_term_index ENABLE ROW LEVEL SECURITY;
+
+-- Adds occurrences of terms; a term seen in the registry keeps source 'registry'
+CREATE OR REPLACE FUNCTION public.record_suggest_terms(p_field TEXT, p_source TEXT, p_terms TEXT[])
+RETURNS void
+LANGUAGE sql SECURITY INVOKER SET search_path = public AS $$
+  INSERT INTO suggest_term_index AS s (field, term_key, term, source, hits)
+  SELECT p_field, lower(trim(t)), min(trim(t)), p_source, count(*)
+  FROM unnest(p_terms) AS t
+  WHERE t IS NOT NULL AND trim(t) NOT IN ('', 'Unknown') AND length(trim(t)) <= 200
+  GROUP BY lower(trim(t))
+  ON CONFLICT (field, term_key) DO UPDATE SET
+    hits = s.hits + excluded.hits,
+    source = CASE WHEN s.source = 'registry' OR excluded.source = 'registry' THEN 'registry' ELSE 'history' END,
+    updated_at = now();
+$$;
+
+CREATE OR REPLACE FUNCTION public.index_search_terms()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY INVOKER SET search_path = public AS $$
+BEGIN
+  PERFORM record_suggest_terms('drug', 'history', ARRAY[NEW.drug]);
+  PERFORM record_suggest_terms('condition', 'history', ARRAY[NEW.indication]);
+  RETURN NEW;
+END;
+$$;
+
+-- Registry spellings from search payloads (trial-detail payloads have no trials array)
+CREATE OR REPLACE FUNCTION public.index_cached_trial_terms()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY INVOKER SET search_path = public AS $$
+BEGIN
+  IF jsonb_typeof(NEW.payload_json->'trials') IS DISTINCT FROM 'array' THEN
+    RETURN NEW;
+  END IF;
+  PERFORM record_suggest_terms('drug', 'registry', ARRAY(
+    SELECT i.value->>'name'
+    FROM jsonb_array_elements(NEW.payload_json->'trials') AS t(trial),
+         jsonb_array_elements(CASE WHEN jsonb_typeof(t.trial->'interventions') = 'array' THEN t.trial->'interventions' ELSE '[]'::jsonb END) AS i(value)
+  ));
+  PERFORM record_suggest_terms('condition', 'registry', ARRAY(
+    SELECT c.value #>> '{}'
+    FROM jsonb_array_elements(NEW.payload_json->'trials') AS t(trial),
+         jsonb_array_elements(CASE WHEN jsonb_typeof(t.trial->'conditions') = 'array' THEN t.trial->'conditions' ELSE '[]'::jsonb END) AS c(value)
+  ));
+  PERFORM record_suggest_terms('sponsor', 'registry', ARRAY(
+    SELECT t.trial->>'leadSponsor'
+    FROM jsonb_array_elements(NEW.payload_json->'trials') AS t(trial)
+  ));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER searches_index_terms
+  AFTER INSERT ON public.searches
+  FOR EACH ROW EXECUTE FUNCTION public.index_search_terms();
+
+CREATE TRIGGER trial_cache_index_terms
+  AFTER INSERT OR UPDATE OF payload_json ON public.trial_cache
+  FOR EACH ROW EXECUTE FUNCTION public.index_cached_trial_terms();
+
+-- Backfill from what the old function read
+SELECT public.record_suggest_terms('drug', 'history', ARRAY(SELECT drug FROM public.searches));
+SELECT public.record_suggest_terms('condition', 'history', ARRAY(SELECT indication FROM public.searches));
+UPDATE public.trial_cache SET payload_json = payload_json
+WHERE jsonb_typeof(payload_json->'trials') = 'array';
+
+CREATE OR REPLACE FUNCTION public.suggest_terms(p_field TEXT, p_prefix TEXT, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (term TEXT, source TEXT, hits BIGINT)
+LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public AS $$
+  WITH pattern AS (
+    -- LIKE-escape the user's text
+    SELECT replace(replace(replace(lower(trim(p_prefix)), '\', '\\'), '%', '\%'), '_', '\_') AS p
+  )
+  SELECT s.term, s.source, s.hits
+  FROM suggest_term_index s, pattern
+  WHERE s.field = p_field
+    -- Match the start of the term or of any word in it
+    AND (s.term_key LIKE pattern.p || '%' OR s.term_key LIKE '% ' || pattern.p || '%')
+  ORDER BY (s.term_key LIKE pattern.p || '%') DESC, s.hits DESC, length(s.term_key)
+  LIMIT LEAST(GREATEST(p_limit, 1), 25);
+$$;
+
+-- Called only by the suggest edge function with the service role
+REVOKE EXECUTE ON FUNCTION public.suggest_terms(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_suggest_terms(TEXT, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
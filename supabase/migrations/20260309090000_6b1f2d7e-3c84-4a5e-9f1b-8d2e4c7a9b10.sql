@@ -0,0 +1,10 @@
+-- Search history is per anonymous client, like saved searches and watches.
+-- Rows logged before this have no owner and drop out of every history.
+ALTER TABLE public.searches ADD COLUMN owner_id UUID;
+
+CREATE INDEX idx_searches_owner ON public.searches (owner_id, created_at DESC);
+
+-- The edge functions log and read searches via the service role; the anon
+-- key must not be able to list what everyone else searched for
+DROP POLICY IF EXISTS "Allow public select on searches" ON public.searches;
+DROP POLICY IF EXISTS "Allow public insert on searches" ON public.searches;